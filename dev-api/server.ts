@@ -1,7 +1,13 @@
 // dev-api/server.ts
 import express from "express";
 import cors from "cors";
-import { execute, executeWithValidation, validate } from "../src/index";
+import {
+	execute,
+	executeWithValidation,
+	validate,
+	SynthaseError,
+	type SynthaseErrorCode,
+} from "../src/index";
 import type { ContextProvider } from "../src/types";
 
 // Import nucleation for Minecraft context
@@ -93,6 +99,42 @@ async function initializeContexts() {
 	}
 }
 
+// HTTP status for each Synthase error code
+const STATUS_BY_CODE: Record<SynthaseErrorCode, number> = {
+	INVALID_INPUT: 400,
+	TIMEOUT: 408,
+	VALIDATION_FAILED: 422,
+	SCRIPT_RUNTIME: 422,
+	IMPORT_LIMIT: 422,
+	OPERATION_LIMIT: 422,
+	MEMORY_LIMIT: 422,
+	DEPENDENCY_RESOLUTION: 424,
+};
+
+/**
+ * HTTP status for a failure. Aborted runs and validation errors from outside
+ * Synthase are still client errors; anything else is a server error.
+ */
+function statusFor(error: any): number {
+	if (error instanceof SynthaseError) return STATUS_BY_CODE[error.code];
+	if (error?.name === "AbortError") return 408;
+	if (/ValidationError$/.test(error?.name ?? "")) return 400;
+	return 500;
+}
+
+/**
+ * Send a failure with the status mapped from its error code
+ */
+function sendError(res: express.Response, error: any) {
+	const typed = error instanceof SynthaseError;
+	res.status(statusFor(error)).json({
+		success: false,
+		error: error.message,
+		...(typed ? { code: error.code, details: error.details } : {}),
+		timestamp: new Date().toISOString(),
+	});
+}
+
 // Middleware
 app.use(cors());
 app.use(express.json({ limit: "10mb" }));
@@ -346,27 +388,32 @@ app.post("/api/execute", async (req, res) => {
 			}
 		}
 
-		const result = await execute(script, inputs, {
-			contextProviders,
-		});
+		const { outputs, logs, warnings, stats, imports } = await execute(
+			script,
+			inputs,
+			{
+				contextProviders,
+				detailed: true,
+			}
+		);
 
 		const duration = Date.now() - startTime;
 		console.log(`✅ Execution completed in ${duration}ms`);
 
 		res.json({
 			success: true,
-			result,
+			result: outputs,
+			logs,
+			warnings,
+			stats,
+			imports,
 			context: requestedContext || "base",
 			duration: `${duration}ms`,
 			timestamp: new Date().toISOString(),
 		});
 	} catch (error: any) {
 		console.error("❌ Execution failed:", error.message);
-		res.status(400).json({
-			success: false,
-			error: error.message,
-			timestamp: new Date().toISOString(),
-		});
+		sendError(res, error);
 	}
 });
 
@@ -420,11 +467,7 @@ app.post("/api/execute-validated", async (req, res) => {
 		});
 	} catch (error: any) {
 		console.error("❌ Validated execution failed:", error.message);
-		res.status(400).json({
-			success: false,
-			error: error.message,
-			timestamp: new Date().toISOString(),
-		});
+		sendError(res, error);
 	}
 });
 
@@ -472,11 +515,7 @@ app.post("/api/test/:name", async (req, res) => {
 		});
 	} catch (error: any) {
 		console.error("❌ Test execution failed:", error.message);
-		res.status(400).json({
-			success: false,
-			error: error.message,
-			timestamp: new Date().toISOString(),
-		});
+		sendError(res, error);
 	}
 });
 
@@ -516,11 +555,7 @@ app.post("/api/validate", async (req, res) => {
 		});
 	} catch (error: any) {
 		console.error("❌ Validation failed:", error.message);
-		res.status(500).json({
-			success: false,
-			error: error.message,
-			timestamp: new Date().toISOString(),
-		});
+		sendError(res, error);
 	}
 });
 
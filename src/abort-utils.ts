@@ -0,0 +1,113 @@
+// abort-utils.ts
+import { SynthaseError } from "./errors";
+
+/**
+ * Helpers for cooperative cancellation with AbortSignal
+ */
+
+/**
+ * Create the error used when an execution is aborted. Synthase errors used
+ * as the abort reason, such as an exceeded memory limit, are reported as is.
+ */
+export function createAbortError(signal?: AbortSignal): Error {
+	const reason = signal?.reason;
+	if (reason instanceof SynthaseError) return reason;
+	const detail =
+		reason instanceof Error
+			? `: ${reason.message}`
+			: typeof reason === "string"
+				? `: ${reason}`
+				: "";
+	const error = new Error(`Script execution aborted${detail}`);
+	error.name = "AbortError";
+	return error;
+}
+
+/**
+ * Throw if the signal has already fired
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+	if (signal?.aborted) {
+		throw createAbortError(signal);
+	}
+}
+
+/**
+ * Settle with the promise, or reject as soon as the signal fires
+ */
+export function raceWithSignal<T>(
+	promise: Promise<T>,
+	signal?: AbortSignal
+): Promise<T> {
+	if (!signal) return promise;
+	if (signal.aborted) {
+		promise.catch(() => {}); // The result is no longer wanted
+		return Promise.reject(createAbortError(signal));
+	}
+
+	return new Promise<T>((resolve, reject) => {
+		const onAbort = () => reject(createAbortError(signal));
+		signal.addEventListener("abort", onAbort, { once: true });
+
+		promise.then(
+			(value) => {
+				signal.removeEventListener("abort", onAbort);
+				resolve(value);
+			},
+			(error) => {
+				signal.removeEventListener("abort", onAbort);
+				reject(error);
+			}
+		);
+	});
+}
+
+/**
+ * Wrap context providers so their calls stop once the signal fires.
+ * Functions and methods of plain objects are wrapped; classes and other
+ * values are passed through untouched.
+ */
+export function makeProvidersAbortable(
+	providers: Record<string, any>,
+	signal?: AbortSignal
+): Record<string, any> {
+	if (!signal) return providers;
+
+	const wrap = (fn: Function, owner: any) =>
+		function (this: any, ...args: any[]) {
+			throwIfAborted(signal);
+			const result = fn.apply(owner ?? this, args);
+			return result instanceof Promise
+				? raceWithSignal(result, signal)
+				: result;
+		};
+
+	const result: Record<string, any> = {};
+	for (const [key, value] of Object.entries(providers)) {
+		if (typeof value === "function") {
+			result[key] = isClass(value) ? value : wrap(value, undefined);
+		} else if (isPlainObject(value)) {
+			const wrapped: Record<string, any> = {};
+			for (const [member, memberValue] of Object.entries(value)) {
+				wrapped[member] =
+					typeof memberValue === "function" && !isClass(memberValue)
+						? wrap(memberValue, value)
+						: memberValue;
+			}
+			result[key] = wrapped;
+		} else {
+			result[key] = value;
+		}
+	}
+	return result;
+}
+
+function isClass(fn: Function): boolean {
+	return /^class[\s{]/.test(Function.prototype.toString.call(fn));
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+	if (value === null || typeof value !== "object") return false;
+	const proto = Object.getPrototypeOf(value);
+	return proto === Object.prototype || proto === null;
+}
@@ -0,0 +1,688 @@
+// ast-script-analyzer.ts
+import { parse, parseExpressionAt } from "acorn";
+import type { ValidationFinding } from "./types";
+import { RESERVED_IDENTIFIER_PREFIX } from "./script-instrumentation";
+
+/**
+ * Global objects whose properties must not be reached through computed access
+ */
+const GLOBAL_OBJECTS = new Set(["globalThis", "window", "self", "global"]);
+
+/**
+ * Built-in constructors whose prototypes must not be written to
+ */
+const BUILTIN_CONSTRUCTORS = new Set([
+	"Object",
+	"Array",
+	"Function",
+	"String",
+	"Number",
+	"Boolean",
+	"Symbol",
+	"BigInt",
+	"Date",
+	"RegExp",
+	"Error",
+	"Promise",
+	"Map",
+	"Set",
+	"WeakMap",
+	"WeakSet",
+]);
+
+/**
+ * Loop bounds at or above this value are reported as potential DoS
+ */
+const LARGE_LOOP_BOUND = 100000;
+
+/**
+ * Reported for names used by instrumented code
+ */
+export const RESERVED_IDENTIFIER_MESSAGE = `Identifiers starting with ${RESERVED_IDENTIFIER_PREFIX} are reserved`;
+
+/**
+ * Result of analyzing a script's syntax tree
+ */
+export interface AstAnalysis {
+	findings: ValidationFinding[];
+	hasIoExport: boolean;
+	hasDefaultExport: boolean;
+	io?: unknown; // Value of the `io` initializer, built from its literal nodes
+	ioError?: string; // Why the `io` initializer is not a plain literal
+	syntaxError?: ValidationFinding;
+}
+
+/**
+ * Walks a real JavaScript AST to find unsafe constructs in a script
+ */
+export class AstScriptAnalyzer {
+	/**
+	 * Parse and analyze script content
+	 */
+	analyze(content: string): AstAnalysis {
+		const analysis: AstAnalysis = {
+			findings: [],
+			hasIoExport: false,
+			hasDefaultExport: false,
+		};
+
+		let program: any;
+		try {
+			program = parse(content, {
+				ecmaVersion: "latest",
+				sourceType: "module",
+				locations: true,
+			});
+		} catch (error: any) {
+			analysis.syntaxError = {
+				message: `Syntax error: ${error.message.replace(/\s*\(\d+:\d+\)$/, "")}`,
+				line: error.loc?.line ?? 1,
+				column: (error.loc?.column ?? 0) + 1,
+			};
+			return analysis;
+		}
+
+		for (const statement of program.body) {
+			if (statement.type === "ExportDefaultDeclaration") {
+				analysis.hasDefaultExport = true;
+			}
+			if (
+				statement.type === "ExportNamedDeclaration" &&
+				statement.declaration?.type === "VariableDeclaration"
+			) {
+				for (const declarator of statement.declaration.declarations) {
+					if (
+						declarator.id.type === "Identifier" &&
+						declarator.id.name === "io"
+					) {
+						analysis.hasIoExport = true;
+						if (declarator.init) {
+							try {
+								analysis.io = this.literalValue(declarator.init);
+							} catch (error: any) {
+								analysis.ioError = error.message;
+							}
+						}
+					}
+				}
+			}
+		}
+
+		this.walk(program, null, (node, parent) =>
+			this.inspect(node, parent, analysis.findings)
+		);
+
+		return analysis;
+	}
+
+	/**
+	 * Whether the content uses a name reserved for instrumented code, compared
+	 * after decoding escapes like `\u005f`. Null when the content does not parse.
+	 */
+	usesReservedIdentifier(content: string): boolean | null {
+		let program: any;
+		try {
+			program = parse(content, { ecmaVersion: "latest", sourceType: "module" });
+		} catch {
+			return null;
+		}
+
+		let found = false;
+		this.walk(program, null, (node, parent) => {
+			if (node.type === "Identifier" && this.isReserved(node, parent)) {
+				found = true;
+			}
+		});
+		return found;
+	}
+
+	/**
+	 * Read the value of a literal expression from source text, e.g. the text
+	 * of an `io` initializer, without evaluating it
+	 */
+	literalFromSource(source: string): unknown {
+		return this.literalValue(
+			parseExpressionAt(source, 0, { ecmaVersion: "latest" })
+		);
+	}
+
+	/**
+	 * Build the value of an object, array or primitive literal without
+	 * evaluating it. Any other expression is rejected.
+	 */
+	private literalValue(node: any): unknown {
+		switch (node.type) {
+			case "Literal":
+				return node.value;
+
+			case "TemplateLiteral":
+				if (node.expressions.length === 0) {
+					return node.quasis[0].value.cooked;
+				}
+				break;
+
+			case "Identifier":
+				if (node.name === "undefined") return undefined;
+				if (node.name === "NaN") return NaN;
+				if (node.name === "Infinity") return Infinity;
+				break;
+
+			case "UnaryExpression":
+				if (
+					(node.operator === "-" || node.operator === "+") &&
+					node.argument.type === "Literal" &&
+					typeof node.argument.value === "number"
+				) {
+					return node.operator === "-"
+						? -node.argument.value
+						: node.argument.value;
+				}
+				break;
+
+			case "ArrayExpression":
+				return node.elements.map((element: any) =>
+					element === null ? undefined : this.literalValue(element)
+				);
+
+			case "ObjectExpression": {
+				const value: Record<string, unknown> = {};
+				for (const property of node.properties) {
+					const key =
+						property.type === "Property" && property.kind === "init"
+							? this.propertyName(property.key, property.computed)
+							: undefined;
+					if (key === undefined) return this.notLiteral(property);
+					// Define rather than assign, so "__proto__" stays a plain key
+					Object.defineProperty(value, key, {
+						value: this.literalValue(property.value),
+						enumerable: true,
+						writable: true,
+						configurable: true,
+					});
+				}
+				return value;
+			}
+		}
+		return this.notLiteral(node);
+	}
+
+	private notLiteral(node: any): never {
+		const location = node.loc
+			? ` (line ${node.loc.start.line}, column ${node.loc.start.column + 1})`
+			: "";
+		throw new Error(
+			`${node.type} is not allowed, the schema must be a plain literal${location}`
+		);
+	}
+
+	/**
+	 * Visit every node depth-first, passing its parent along
+	 */
+	private walk(
+		node: any,
+		parent: any,
+		visit: (node: any, parent: any) => void
+	): void {
+		visit(node, parent);
+
+		for (const key of Object.keys(node)) {
+			if (key === "loc") continue;
+			const child = node[key];
+			if (Array.isArray(child)) {
+				for (const item of child) {
+					if (item && typeof item.type === "string") {
+						this.walk(item, node, visit);
+					}
+				}
+			} else if (child && typeof child.type === "string") {
+				this.walk(child, node, visit);
+			}
+		}
+	}
+
+	/**
+	 * Apply every rule to a single node
+	 */
+	private inspect(node: any, parent: any, findings: ValidationFinding[]): void {
+		const report = (message: string, at: any = node) => {
+			findings.push({
+				message,
+				line: at.loc.start.line,
+				column: at.loc.start.column + 1,
+			});
+		};
+
+		switch (node.type) {
+			case "Identifier":
+				if (node.name === "eval" && this.isReference(node, parent)) {
+					report("Use of eval() is prohibited");
+				}
+				if (node.name === "Function" && this.isReference(node, parent)) {
+					report("Use of Function constructor is prohibited");
+				}
+				if (node.name === "XMLHttpRequest" && this.isReference(node, parent)) {
+					report(
+						"Direct XMLHttpRequest usage is discouraged - use fetch instead"
+					);
+				}
+				if (this.isReserved(node, parent)) {
+					report(RESERVED_IDENTIFIER_MESSAGE);
+				}
+				if (GLOBAL_OBJECTS.has(node.name) && this.isGlobalValue(node, parent)) {
+					report("Use of global object as a value is prohibited");
+				}
+				break;
+
+			case "MemberExpression":
+				this.inspectMember(node, report);
+				break;
+
+			case "AssignmentExpression":
+				if (this.writesPrototype(node.left)) {
+					report("Prototype manipulation is prohibited");
+				}
+				break;
+
+			case "UpdateExpression":
+				if (this.writesPrototype(node.argument)) {
+					report("Prototype manipulation is prohibited");
+				}
+				break;
+
+			case "UnaryExpression":
+				if (node.operator === "delete" && this.writesPrototype(node.argument)) {
+					report("Prototype manipulation is prohibited");
+				}
+				break;
+
+			case "Property":
+				if (this.propertyName(node.key, node.computed) === "__proto__") {
+					report("Prototype manipulation is prohibited");
+				}
+				// e.g. `const { constructor: F } = () => 1`
+				if (
+					parent?.type === "ObjectPattern" &&
+					this.propertyName(node.key, node.computed) === "constructor"
+				) {
+					report("Use of Function constructor is prohibited");
+				}
+				break;
+
+			case "CallExpression":
+				this.inspectCall(node, report);
+				break;
+
+			case "ImportDeclaration":
+			case "ImportExpression":
+				if (this.isFsModule(node.source)) {
+					report("File system access is not allowed");
+				}
+				break;
+
+			case "WhileStatement":
+			case "DoWhileStatement":
+				if (this.isAlwaysTrue(node.test)) {
+					if (!this.hasExit(node.body)) {
+						report("Potential infinite while loop detected");
+					}
+				} else {
+					const names = this.identifiersIn(node.test);
+					if (
+						!this.hasExit(node.body) &&
+						!this.updatesAny(node.test, names) &&
+						!this.updatesAny(node.body, names)
+					) {
+						report("Potential infinite while loop (no increment) detected");
+					}
+				}
+				if (this.hasLargeBound(node.test)) {
+					report("Very large loop detected - potential DoS");
+				}
+				break;
+
+			case "ForStatement":
+				if (!node.test || this.isAlwaysTrue(node.test)) {
+					if (!this.hasExit(node.body)) {
+						report("Potential infinite for loop detected");
+					}
+				} else if (
+					!node.update &&
+					!this.hasExit(node.body) &&
+					!this.updatesAny(node.body, this.identifiersIn(node.test))
+				) {
+					report("Potential infinite for loop (no increment) detected");
+				}
+				if (node.test && this.hasLargeBound(node.test)) {
+					report("Very large loop detected - potential DoS");
+				}
+				break;
+		}
+	}
+
+	/**
+	 * Rules for property access
+	 */
+	private inspectMember(
+		node: any,
+		report: (message: string, at?: any) => void
+	): void {
+		const name = this.propertyName(node.property, node.computed);
+
+		if (name === "__proto__") {
+			report("Prototype manipulation is prohibited");
+			return;
+		}
+
+		// Any constructor leads to the Function constructor one step later, e.g.
+		// `(function () {}).constructor`. Chains are reported once, at the
+		// innermost access.
+		if (name === "constructor") {
+			if (!this.isConstructorAccess(node.object)) {
+				report("Use of Function constructor is prohibited");
+			}
+			return;
+		}
+
+		if (
+			node.object.type === "Identifier" &&
+			GLOBAL_OBJECTS.has(node.object.name)
+		) {
+			if (name === "eval") {
+				report("Use of eval() is prohibited");
+			} else if (name === "Function") {
+				report("Use of Function constructor is prohibited");
+			} else if (node.computed) {
+				report("Computed access to global object is prohibited");
+			}
+		}
+	}
+
+	/**
+	 * Rules for function calls
+	 */
+	private inspectCall(
+		node: any,
+		report: (message: string, at?: any) => void
+	): void {
+		const callee = node.callee;
+		const calleeName =
+			callee.type === "Identifier"
+				? callee.name
+				: callee.type === "MemberExpression"
+					? this.propertyName(callee.property, callee.computed)
+					: undefined;
+
+		if (calleeName === "setPrototypeOf") {
+			report("Prototype manipulation is prohibited");
+		}
+
+		if (
+			(calleeName === "defineProperty" ||
+				calleeName === "defineProperties" ||
+				calleeName === "assign") &&
+			node.arguments[0] &&
+			this.writesPrototype(node.arguments[0])
+		) {
+			report("Prototype manipulation is prohibited");
+		}
+
+		if (callee.type === "Identifier") {
+			if (calleeName === "setInterval") {
+				report("Use of setInterval is discouraged");
+			}
+			if (
+				calleeName === "setTimeout" &&
+				node.arguments[1]?.type === "Literal" &&
+				node.arguments[1].value === 0
+			) {
+				report("Zero-delay setTimeout may cause performance issues");
+			}
+			if (calleeName === "require" && this.isFsModule(node.arguments[0])) {
+				report("File system access is not allowed");
+			}
+			if (
+				calleeName === "fetch" &&
+				node.arguments.some((arg: any) => this.referencesDocumentLocation(arg))
+			) {
+				report("Fetching from document.location may be suspicious");
+			}
+		}
+	}
+
+	/**
+	 * Whether a write to this target changes a built-in prototype, e.g.
+	 * `Array.prototype.x = 1` or `delete x.constructor.prototype.y`
+	 */
+	private writesPrototype(target: any): boolean {
+		for (
+			let node = target;
+			node?.type === "MemberExpression";
+			node = node.object
+		) {
+			if (this.propertyName(node.property, node.computed) !== "prototype") {
+				continue;
+			}
+			const object = node.object;
+			if (
+				(object.type === "Identifier" &&
+					BUILTIN_CONSTRUCTORS.has(object.name)) ||
+				this.isConstructorAccess(object)
+			) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	/**
+	 * Whether a node is a `.constructor` member access
+	 */
+	private isConstructorAccess(node: any): boolean {
+		return (
+			node.type === "MemberExpression" &&
+			this.propertyName(node.property, node.computed) === "constructor"
+		);
+	}
+
+	/**
+	 * Static name of a member or property key, if it can be known
+	 */
+	private propertyName(key: any, computed: boolean): string | undefined {
+		if (!computed && key.type === "Identifier") return key.name;
+		if (key.type === "Literal" && typeof key.value === "string")
+			return key.value;
+		if (
+			key.type === "TemplateLiteral" &&
+			key.expressions.length === 0 &&
+			key.quasis.length === 1
+		) {
+			return key.quasis[0].value.cooked;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Whether an identifier refers to a binding rather than naming a property
+	 */
+	private isReference(node: any, parent: any): boolean {
+		if (!parent) return true;
+		if (parent.type === "MemberExpression" && parent.property === node) {
+			return parent.computed;
+		}
+		if (
+			(parent.type === "Property" ||
+				parent.type === "MethodDefinition" ||
+				parent.type === "PropertyDefinition") &&
+			parent.key === node
+		) {
+			return parent.computed || (parent.shorthand && parent.value === node);
+		}
+		if (
+			parent.type === "ExportSpecifier" ||
+			parent.type === "LabeledStatement" ||
+			parent.type === "BreakStatement" ||
+			parent.type === "ContinueStatement"
+		) {
+			return false;
+		}
+		return true;
+	}
+
+	/**
+	 * Whether a global object identifier is used as a value, e.g. aliased or
+	 * passed to `Reflect.get()`, rather than read from via a property or
+	 * tested with `typeof`. Such uses hide later property reads.
+	 */
+	private isGlobalValue(node: any, parent: any): boolean {
+		if (!this.isReference(node, parent)) return false;
+		if (parent?.type === "MemberExpression" && parent.object === node) {
+			return false;
+		}
+		if (parent?.type === "UnaryExpression" && parent.operator === "typeof") {
+			return false;
+		}
+		return true;
+	}
+
+	/**
+	 * Whether an identifier names a binding reserved for instrumented code;
+	 * property names like `obj.__synthaseX` cannot reach those bindings
+	 */
+	private isReserved(node: any, parent: any): boolean {
+		return (
+			node.name.startsWith(RESERVED_IDENTIFIER_PREFIX) &&
+			(this.isReference(node, parent) || parent?.type === "ExportSpecifier")
+		);
+	}
+
+	private isFsModule(node: any): boolean {
+		return (
+			node?.type === "Literal" &&
+			(node.value === "fs" ||
+				node.value === "node:fs" ||
+				node.value === "fs/promises")
+		);
+	}
+
+	private isAlwaysTrue(test: any): boolean {
+		return test.type === "Literal" && Boolean(test.value) === true;
+	}
+
+	private hasLargeBound(test: any): boolean {
+		let found = false;
+		this.walk(test, null, (node) => {
+			if (
+				node.type === "Literal" &&
+				typeof node.value === "number" &&
+				node.value >= LARGE_LOOP_BOUND
+			) {
+				found = true;
+			}
+		});
+		return found;
+	}
+
+	/**
+	 * Whether a loop body can leave the loop via break, return or throw
+	 */
+	private hasExit(body: any): boolean {
+		let found = false;
+		const visit = (node: any, insideNestedLoop: boolean) => {
+			if (found) return;
+			if (
+				node.type === "FunctionDeclaration" ||
+				node.type === "FunctionExpression" ||
+				node.type === "ArrowFunctionExpression"
+			) {
+				return;
+			}
+			if (node.type === "ReturnStatement" || node.type === "ThrowStatement") {
+				found = true;
+				return;
+			}
+			if (node.type === "BreakStatement" && (!insideNestedLoop || node.label)) {
+				found = true;
+				return;
+			}
+
+			const nested =
+				insideNestedLoop ||
+				node.type === "WhileStatement" ||
+				node.type === "DoWhileStatement" ||
+				node.type === "ForStatement" ||
+				node.type === "ForInStatement" ||
+				node.type === "ForOfStatement" ||
+				node.type === "SwitchStatement";
+
+			for (const key of Object.keys(node)) {
+				if (key === "loc") continue;
+				const child = node[key];
+				const children = Array.isArray(child) ? child : [child];
+				for (const item of children) {
+					if (item && typeof item.type === "string") {
+						visit(item, nested);
+					}
+				}
+			}
+		};
+		visit(body, false);
+		return found;
+	}
+
+	private identifiersIn(node: any): Set<string> {
+		const names = new Set<string>();
+		this.walk(node, null, (child, parent) => {
+			if (child.type === "Identifier" && this.isReference(child, parent)) {
+				names.add(child.name);
+			}
+		});
+		return names;
+	}
+
+	/**
+	 * Whether the body assigns to or updates any of the given names
+	 */
+	private updatesAny(body: any, names: Set<string>): boolean {
+		let found = false;
+		this.walk(body, null, (node) => {
+			if (
+				node.type === "UpdateExpression" ||
+				node.type === "AssignmentExpression"
+			) {
+				const target =
+					node.type === "UpdateExpression" ? node.argument : node.left;
+				const root = this.rootIdentifier(target);
+				if (root && names.has(root)) {
+					found = true;
+				}
+			}
+			if (node.type === "CallExpression") {
+				// A call may mutate state the loop condition depends on
+				found = true;
+			}
+		});
+		return found;
+	}
+
+	private rootIdentifier(node: any): string | undefined {
+		while (node && node.type === "MemberExpression") {
+			node = node.object;
+		}
+		return node?.type === "Identifier" ? node.name : undefined;
+	}
+
+	private referencesDocumentLocation(node: any): boolean {
+		let found = false;
+		this.walk(node, null, (child) => {
+			if (
+				child.type === "MemberExpression" &&
+				child.object.type === "Identifier" &&
+				child.object.name === "document" &&
+				this.propertyName(child.property, child.computed) === "location"
+			) {
+				found = true;
+			}
+		});
+		return found;
+	}
+}
@@ -0,0 +1,131 @@
+// cache-store.ts
+import type { CachedScriptMetadata, CacheStore } from "./types";
+
+/**
+ * In-memory cache store. Share one instance between Synthase instances to
+ * reuse validation and introspection results within a process.
+ */
+export class MemoryCacheStore implements CacheStore {
+	private entries = new Map<string, CachedScriptMetadata>();
+
+	async get(contentHash: string): Promise<CachedScriptMetadata | undefined> {
+		const entry = this.entries.get(contentHash);
+		return entry && structuredClone(entry);
+	}
+
+	async set(
+		contentHash: string,
+		metadata: CachedScriptMetadata
+	): Promise<void> {
+		this.entries.set(contentHash, structuredClone(metadata));
+	}
+
+	async delete(contentHash: string): Promise<boolean> {
+		return this.entries.delete(contentHash);
+	}
+
+	async clear(): Promise<void> {
+		this.entries.clear();
+	}
+
+	/**
+	 * Number of stored entries
+	 */
+	get size(): number {
+		return this.entries.size;
+	}
+}
+
+/**
+ * File system cache store (Node.js only). Each entry is a JSON file in the
+ * directory, so results survive process restarts.
+ */
+export class FileSystemCacheStore implements CacheStore {
+	constructor(private cacheDirectory: string) {}
+
+	async get(contentHash: string): Promise<CachedScriptMetadata | undefined> {
+		const fs = await import("fs/promises");
+
+		let text: string;
+		try {
+			text = await fs.readFile(await this.entryPath(contentHash), "utf8");
+		} catch (error: any) {
+			if (error.code === "ENOENT") return undefined;
+			throw new Error(
+				`Failed to read cache entry ${contentHash}: ${error.message}`
+			);
+		}
+
+		try {
+			return JSON.parse(text, reviveRegExp);
+		} catch {
+			return undefined; // Corrupt entries count as misses and are rewritten
+		}
+	}
+
+	async set(
+		contentHash: string,
+		metadata: CachedScriptMetadata
+	): Promise<void> {
+		const fs = await import("fs/promises");
+		const entryPath = await this.entryPath(contentHash);
+		const tempPath = `${entryPath}.${process.pid}.${Date.now()}.tmp`;
+
+		// Write then rename so concurrent readers never see a partial entry
+		await fs.mkdir(this.cacheDirectory, { recursive: true });
+		await fs.writeFile(tempPath, JSON.stringify(metadata, replaceRegExp));
+		await fs.rename(tempPath, entryPath);
+	}
+
+	async delete(contentHash: string): Promise<boolean> {
+		const fs = await import("fs/promises");
+		try {
+			await fs.unlink(await this.entryPath(contentHash));
+			return true;
+		} catch (error: any) {
+			if (error.code === "ENOENT") return false;
+			throw error;
+		}
+	}
+
+	async clear(): Promise<void> {
+		const fs = await import("fs/promises");
+		const path = await import("path");
+
+		let files: string[];
+		try {
+			files = await fs.readdir(this.cacheDirectory);
+		} catch (error: any) {
+			if (error.code === "ENOENT") return;
+			throw error;
+		}
+
+		await Promise.all(
+			files
+				.filter((file) => file.endsWith(".json"))
+				.map((file) => fs.unlink(path.join(this.cacheDirectory, file)))
+		);
+	}
+
+	private async entryPath(contentHash: string): Promise<string> {
+		const path = await import("path");
+		// Integrity strings contain "/" and "+", so encode them for file names
+		return path.join(
+			this.cacheDirectory,
+			`${encodeURIComponent(contentHash)}.json`
+		);
+	}
+}
+
+// BlockId formats may be RegExps, which JSON cannot represent directly
+function replaceRegExp(_key: string, value: any) {
+	return value instanceof RegExp
+		? { $regexp: value.source, flags: value.flags }
+		: value;
+}
+
+function reviveRegExp(_key: string, value: any) {
+	return value && typeof value.$regexp === "string"
+		? new RegExp(value.$regexp, value.flags)
+		: value;
+}
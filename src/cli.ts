@@ -0,0 +1,239 @@
+#!/usr/bin/env node
+// cli.ts
+import { readFile, realpath, writeFile } from "node:fs/promises";
+import { basename, extname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { generateTypesForSource } from "./type-generator";
+import {
+	generateSigningKeyPair,
+	signScript,
+	verifyScriptSignature,
+} from "./script-signing";
+
+const USAGE = `Usage: synthase <command> [options]
+
+Commands:
+  types <script> [--name <Name>] [--out <file>]
+      Generate .d.ts interfaces for a script's io inputs and outputs.
+      The name defaults to the script's file name; output goes to stdout
+      unless --out is given.
+
+  keygen [--out <name>]
+      Generate an Ed25519 keypair for signing scripts. With --out, the keys
+      are written to <name>.pub and <name>.key; otherwise printed as JSON.
+
+  sign <script> --key <file> --key-id <id> [--out <file>]
+      Sign a script with a private key file, replacing any existing signature.
+
+  verify <script> --key <file> --key-id <id>
+      Check a script's signature against a public key file.`;
+
+/**
+ * Where the CLI writes its output
+ */
+export interface CliOutput {
+	stdout: (text: string) => void;
+	stderr: (text: string) => void;
+}
+
+const processOutput: CliOutput = {
+	stdout: (text) => process.stdout.write(text),
+	stderr: (text) => process.stderr.write(text),
+};
+
+/**
+ * Run a CLI command and return its exit code
+ */
+export async function runCli(
+	args: string[],
+	output: CliOutput = processOutput
+): Promise<number> {
+	const [command, ...rest] = args;
+
+	switch (command) {
+		case "types":
+			return runTypes(rest, output);
+		case "keygen":
+			return runKeygen(rest, output);
+		case "sign":
+			return runSign(rest, output);
+		case "verify":
+			return runVerify(rest, output);
+		case undefined:
+		case "help":
+		case "--help":
+		case "-h":
+			output.stdout(`${USAGE}\n`);
+			return command === undefined ? 1 : 0;
+		default:
+			output.stderr(`Unknown command: ${command}\n\n${USAGE}\n`);
+			return 1;
+	}
+}
+
+async function runTypes(args: string[], output: CliOutput): Promise<number> {
+	const parsed = parseArgs(args, ["--name", "--out"], output);
+	if (!parsed) return 1;
+	const [scriptPath] = parsed.positional;
+	const { "--name": name, "--out": outPath } = parsed.options;
+
+	if (!scriptPath) {
+		output.stderr(`Missing script path\n\n${USAGE}\n`);
+		return 1;
+	}
+
+	try {
+		const content = await readFile(scriptPath, "utf8");
+		const declarations = generateTypesForSource(content, {
+			name: name ?? basename(scriptPath, extname(scriptPath)),
+		});
+
+		if (outPath) {
+			await writeFile(outPath, declarations);
+		} else {
+			output.stdout(declarations);
+		}
+		return 0;
+	} catch (error: any) {
+		output.stderr(`${error.message}\n`);
+		return 1;
+	}
+}
+
+async function runKeygen(args: string[], output: CliOutput): Promise<number> {
+	const parsed = parseArgs(args, ["--out"], output, 0);
+	if (!parsed) return 1;
+	const outName = parsed.options["--out"];
+
+	try {
+		const keyPair = await generateSigningKeyPair();
+		if (outName) {
+			await writeFile(`${outName}.pub`, `${keyPair.publicKey}\n`);
+			await writeFile(`${outName}.key`, `${keyPair.privateKey}\n`, {
+				mode: 0o600,
+			});
+			output.stdout(`Wrote ${outName}.pub and ${outName}.key\n`);
+		} else {
+			output.stdout(`${JSON.stringify(keyPair, null, 2)}\n`);
+		}
+		return 0;
+	} catch (error: any) {
+		output.stderr(`${error.message}\n`);
+		return 1;
+	}
+}
+
+async function runSign(args: string[], output: CliOutput): Promise<number> {
+	const parsed = parseArgs(args, ["--key", "--key-id", "--out"], output);
+	if (!parsed) return 1;
+	const [scriptPath] = parsed.positional;
+	const {
+		"--key": keyPath,
+		"--key-id": keyId,
+		"--out": outPath,
+	} = parsed.options;
+
+	if (!scriptPath || !keyPath || !keyId) {
+		output.stderr(`sign needs a script, --key and --key-id\n\n${USAGE}\n`);
+		return 1;
+	}
+
+	try {
+		const signed = await signScript(
+			await readFile(scriptPath, "utf8"),
+			await readFile(keyPath, "utf8"),
+			keyId
+		);
+
+		if (outPath) {
+			await writeFile(outPath, signed);
+		} else {
+			output.stdout(signed);
+		}
+		return 0;
+	} catch (error: any) {
+		output.stderr(`${error.message}\n`);
+		return 1;
+	}
+}
+
+async function runVerify(args: string[], output: CliOutput): Promise<number> {
+	const parsed = parseArgs(args, ["--key", "--key-id"], output);
+	if (!parsed) return 1;
+	const [scriptPath] = parsed.positional;
+	const { "--key": keyPath, "--key-id": keyId } = parsed.options;
+
+	if (!scriptPath || !keyPath || !keyId) {
+		output.stderr(`verify needs a script, --key and --key-id\n\n${USAGE}\n`);
+		return 1;
+	}
+
+	try {
+		const { status } = await verifyScriptSignature(
+			await readFile(scriptPath, "utf8"),
+			{ [keyId]: await readFile(keyPath, "utf8") }
+		);
+
+		if (status === "valid") {
+			output.stdout(`${scriptPath}: valid signature by ${keyId}\n`);
+			return 0;
+		}
+		output.stderr(`${scriptPath}: signature check failed (${status})\n`);
+		return 1;
+	} catch (error: any) {
+		output.stderr(`${error.message}\n`);
+		return 1;
+	}
+}
+
+/**
+ * Split arguments into positionals and `--flag value` options, reporting
+ * unknown flags, missing values and extra positionals
+ */
+function parseArgs(
+	args: string[],
+	flags: string[],
+	output: CliOutput,
+	maxPositional = 1
+): { positional: string[]; options: Record<string, string> } | null {
+	const positional: string[] = [];
+	const options: Record<string, string> = {};
+
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		if (flags.includes(arg)) {
+			const value = args[++i];
+			if (value === undefined) {
+				output.stderr(`Missing value for ${arg}\n`);
+				return null;
+			}
+			options[arg] = value;
+		} else if (positional.length < maxPositional) {
+			positional.push(arg);
+		} else {
+			output.stderr(`Unexpected argument: ${arg}\n`);
+			return null;
+		}
+	}
+
+	return { positional, options };
+}
+
+/**
+ * Run the CLI when this module is executed directly rather than imported
+ */
+async function main(): Promise<void> {
+	const entry = process.argv[1];
+	if (
+		entry &&
+		(await realpath(entry).catch(() => entry)) ===
+			fileURLToPath(import.meta.url)
+	) {
+		process.exitCode = await runCli(process.argv.slice(2));
+	}
+}
+
+main().catch((error) => {
+	processOutput.stderr(`${error?.message ?? error}\n`);
+	process.exitCode = 1;
+});
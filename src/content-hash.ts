@@ -0,0 +1,17 @@
+// content-hash.ts
+/**
+ * SHA-256 digest of script content in Subresource Integrity format
+ * ("sha256-<base64>"), using Web Crypto so it works in every runtime
+ */
+export async function computeIntegrity(content: string): Promise<string> {
+	const digest = await crypto.subtle.digest(
+		"SHA-256",
+		new TextEncoder().encode(content)
+	);
+
+	let binary = "";
+	for (const byte of new Uint8Array(digest)) {
+		binary += String.fromCharCode(byte);
+	}
+	return `sha256-${btoa(binary)}`;
+}
@@ -0,0 +1,57 @@
+// context-helpers.ts
+
+/**
+ * Build the Calculator and Utils helpers of a script context. The function
+ * must stay self-contained: worker isolation runs its source text inside the
+ * worker, so both sides share one implementation.
+ * @param signal Cancels pending Utils.delay() calls
+ * @param abortError Creates the error a cancelled delay rejects with
+ */
+export function createContextHelpers(
+	signal: AbortSignal | undefined,
+	abortError: () => Error
+) {
+	return {
+		Calculator: {
+			enhance: (value: number) => value * 1.1,
+			sum: (array: number[]) => array.reduce((a, b) => a + b, 0),
+			average: (array: number[]) =>
+				array.length > 0 ? array.reduce((a, b) => a + b, 0) / array.length : 0,
+			multiply: (numbers: number[]) => numbers.reduce((a, b) => a * b, 1),
+		},
+
+		Utils: {
+			formatNumber: (num: number, decimals = 0) =>
+				parseFloat(num.toFixed(decimals)),
+			capitalize: (str: string) => str.charAt(0).toUpperCase() + str.slice(1),
+			delay: (ms: number) =>
+				new Promise<void>((resolve, reject) => {
+					if (signal?.aborted) {
+						reject(abortError());
+						return;
+					}
+					const timeoutId = setTimeout(() => {
+						signal?.removeEventListener("abort", onAbort);
+						resolve();
+					}, ms);
+					const onAbort = () => {
+						clearTimeout(timeoutId);
+						reject(abortError());
+					};
+					signal?.addEventListener("abort", onAbort, { once: true });
+				}),
+			randomInt: (min: number, max: number) =>
+				Math.floor(Math.random() * (max - min + 1)) + min,
+			shuffleArray: (array: any[]) => {
+				const result = [...array];
+				for (let i = result.length - 1; i > 0; i--) {
+					const j = Math.floor(Math.random() * (i + 1));
+					[result[i], result[j]] = [result[j], result[i]];
+				}
+				return result;
+			},
+			randomChoice: (array: any[]) =>
+				array[Math.floor(Math.random() * array.length)],
+		},
+	};
+}
@@ -0,0 +1,98 @@
+// dependency-graph.ts
+import type { DependencyEdge, DependencyGraph, DependencyNode } from "./types";
+
+const STATUS_COLORS: Record<DependencyNode["status"], string> = {
+	resolved: "black",
+	cached: "darkgreen",
+	pending: "gray40",
+	skipped: "gray60",
+	failed: "red",
+};
+
+/**
+ * Find a dependency cycle, returned as a path that starts and ends with the
+ * same node (e.g. ["a", "b", "a"]), or null when the graph is acyclic
+ */
+export function findDependencyCycle(edges: DependencyEdge[]): string[] | null {
+	const adjacency = new Map<string, string[]>();
+	for (const { from, to } of edges) {
+		if (!adjacency.has(from)) adjacency.set(from, []);
+		adjacency.get(from)!.push(to);
+	}
+
+	const done = new Set<string>();
+	const path: string[] = [];
+	const onPath = new Set<string>();
+
+	const visit = (node: string): string[] | null => {
+		if (onPath.has(node)) {
+			return [...path.slice(path.indexOf(node)), node];
+		}
+		if (done.has(node)) return null;
+
+		path.push(node);
+		onPath.add(node);
+		for (const next of adjacency.get(node) ?? []) {
+			const cycle = visit(next);
+			if (cycle) return cycle;
+		}
+		path.pop();
+		onPath.delete(node);
+		done.add(node);
+		return null;
+	};
+
+	for (const node of adjacency.keys()) {
+		const cycle = visit(node);
+		if (cycle) return cycle;
+	}
+	return null;
+}
+
+/**
+ * Render the graph in Graphviz DOT format. Static imports are dashed, and
+ * nodes are colored by status.
+ */
+export function dependencyGraphToDot(graph: DependencyGraph): string {
+	const lines = ["digraph dependencies {", "\trankdir=LR;"];
+
+	for (const node of graph.nodes) {
+		const label =
+			node.kind === "main"
+				? quote("main")
+				: node.version
+					? `"${escape(node.id)}\\n${escape(node.version)}"`
+					: quote(node.id);
+		const attributes = [
+			`label=${label}`,
+			`shape=${node.kind === "module" ? "ellipse" : "box"}`,
+			`color=${STATUS_COLORS[node.status]}`,
+		];
+		if (node.kind === "main") attributes.push("style=bold");
+		if (node.error) attributes.push(`tooltip=${quote(node.error)}`);
+		lines.push(`\t${quote(node.id)} [${attributes.join(", ")}];`);
+	}
+
+	for (const edge of graph.edges) {
+		const style = edge.kind === "static" ? " [style=dashed]" : "";
+		lines.push(`\t${quote(edge.from)} -> ${quote(edge.to)}${style};`);
+	}
+
+	lines.push("}");
+	return lines.join("\n") + "\n";
+}
+
+/**
+ * Serialize the graph as indented JSON
+ */
+export function dependencyGraphToJSON(graph: DependencyGraph): string {
+	return JSON.stringify(graph, null, 2);
+}
+
+function quote(text: string): string {
+	return `"${escape(text)}"`;
+}
+
+function escape(text: string): string {
+	return text.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
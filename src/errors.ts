@@ -0,0 +1,269 @@
+// errors.ts
+import {
+	formatScriptStack,
+	type ScriptErrorLocation,
+	type ScriptStackFrame,
+} from "./script-stack";
+import type { MemoryMetric } from "./types";
+
+/**
+ * Error classes thrown by Synthase. Each carries a stable `code`, structured
+ * `details` and, when it wraps another failure, the original `cause`.
+ */
+
+export type SynthaseErrorCode =
+	| "VALIDATION_FAILED"
+	| "INVALID_INPUT"
+	| "TIMEOUT"
+	| "MEMORY_LIMIT"
+	| "IMPORT_LIMIT"
+	| "OPERATION_LIMIT"
+	| "DEPENDENCY_RESOLUTION"
+	| "SCRIPT_RUNTIME";
+
+export class SynthaseError extends Error {
+	readonly code: SynthaseErrorCode;
+	readonly details: Record<string, unknown>;
+	readonly cause?: unknown;
+
+	constructor(
+		code: SynthaseErrorCode,
+		message: string,
+		details: Record<string, unknown> = {},
+		cause?: unknown
+	) {
+		super(message);
+		this.name = new.target.name;
+		this.code = code;
+		this.details = details;
+		if (cause !== undefined) this.cause = cause;
+	}
+
+	toJSON(): {
+		name: string;
+		code: SynthaseErrorCode;
+		message: string;
+		details: Record<string, unknown>;
+	} {
+		return {
+			name: this.name,
+			code: this.code,
+			message: this.message,
+			details: this.details,
+		};
+	}
+}
+
+/**
+ * A script, imported script or module failed validation or introspection,
+ * or returned outputs that do not match its schema in strict mode
+ */
+export class ValidationError extends SynthaseError {
+	declare readonly details: { scriptId?: string; errors: string[] };
+
+	constructor(
+		message: string,
+		details: ValidationError["details"],
+		cause?: unknown
+	) {
+		super("VALIDATION_FAILED", message, details, cause);
+	}
+}
+
+/**
+ * An input is missing or does not match its parameter spec. `parameter` is the
+ * path of the offending value, e.g. "size.x" or "points[2]".
+ */
+export class InputValidationError extends SynthaseError {
+	declare readonly details: { parameter?: string };
+
+	constructor(
+		message: string,
+		details: InputValidationError["details"] = {},
+		cause?: unknown
+	) {
+		super("INVALID_INPUT", message, details, cause);
+	}
+}
+
+export class TimeoutError extends SynthaseError {
+	declare readonly details: { timeout: number };
+
+	constructor(
+		message: string,
+		details: TimeoutError["details"],
+		cause?: unknown
+	) {
+		super("TIMEOUT", message, details, cause);
+	}
+}
+
+/**
+ * Memory used and allowed, in bytes, for the metric that went over its limit
+ */
+export class MemoryLimitError extends SynthaseError {
+	declare readonly details: {
+		used: number;
+		limit: number;
+		metric: MemoryMetric;
+	};
+
+	constructor(
+		message: string,
+		details: MemoryLimitError["details"],
+		cause?: unknown
+	) {
+		super("MEMORY_LIMIT", message, details, cause);
+	}
+}
+
+/**
+ * Too many imports in one execution, or imports nested too deeply
+ */
+export class ImportLimitError extends SynthaseError {
+	declare readonly details: {
+		setting: "maxImportedScripts" | "maxRecursionDepth";
+		limit: number;
+		scriptId?: string;
+	};
+
+	constructor(
+		message: string,
+		details: ImportLimitError["details"],
+		cause?: unknown
+	) {
+		super("IMPORT_LIMIT", message, details, cause);
+	}
+}
+
+/**
+ * An instrumented execution ran more loop iterations and function calls than
+ * `maxOperations` allows
+ */
+export class OperationLimitError extends SynthaseError {
+	declare readonly details: { limit: number };
+
+	constructor(
+		message: string,
+		details: OperationLimitError["details"],
+		cause?: unknown
+	) {
+		super("OPERATION_LIMIT", message, details, cause);
+	}
+}
+
+/**
+ * A dependency could not be resolved, was rejected by the lockfile, an
+ * integrity check or the trust policy, or is part of a cycle
+ */
+export class DependencyResolutionError extends SynthaseError {
+	declare readonly details: {
+		specifier?: string;
+		cycle?: string[];
+		scriptId?: string; // Script whose import failed at runtime
+	};
+
+	constructor(
+		message: string,
+		details: DependencyResolutionError["details"] = {},
+		cause?: unknown
+	) {
+		super("DEPENDENCY_RESOLUTION", message, details, cause);
+	}
+}
+
+/**
+ * The script's own code threw. The message is the original one; when the
+ * stack could be mapped, `scriptId`, `line` and `column` point at the failing
+ * line, which `codeFrame` shows in context.
+ */
+export class ScriptRuntimeError extends SynthaseError {
+	declare readonly details: {
+		scriptId: string;
+		line?: number;
+		column?: number;
+		codeFrame?: string;
+		frames?: ScriptStackFrame[];
+	};
+
+	constructor(
+		message: string,
+		details: ScriptRuntimeError["details"],
+		cause?: unknown
+	) {
+		super("SCRIPT_RUNTIME", message, details, cause);
+	}
+}
+
+const ERROR_CLASSES: Record<
+	SynthaseErrorCode,
+	new (message: string, details: any) => SynthaseError
+> = {
+	VALIDATION_FAILED: ValidationError,
+	INVALID_INPUT: InputValidationError,
+	TIMEOUT: TimeoutError,
+	MEMORY_LIMIT: MemoryLimitError,
+	IMPORT_LIMIT: ImportLimitError,
+	OPERATION_LIMIT: OperationLimitError,
+	DEPENDENCY_RESOLUTION: DependencyResolutionError,
+	SCRIPT_RUNTIME: ScriptRuntimeError,
+};
+
+/**
+ * Report a failure thrown by script code as a ScriptRuntimeError, located in
+ * script source by `locate`. Synthase errors raised through the context (e.g.
+ * by importScript) and aborts keep their type.
+ */
+export function toScriptRuntimeError(
+	error: unknown,
+	scriptId: string,
+	locate?: (stack: string) => ScriptErrorLocation | undefined
+): Error {
+	if (error instanceof SynthaseError) return error;
+	if (error instanceof Error && error.name === "AbortError") return error;
+
+	const message = error instanceof Error ? error.message : String(error);
+	const stack = error instanceof Error ? error.stack : undefined;
+	const location = stack && locate ? locate(stack) : undefined;
+
+	const runtimeError = new ScriptRuntimeError(
+		message,
+		location ?? { scriptId },
+		error
+	);
+	if (location) {
+		runtimeError.stack = formatScriptStack(
+			runtimeError.name,
+			message,
+			location.frames
+		);
+	}
+	return runtimeError;
+}
+
+/**
+ * Rebuild an error posted across a worker boundary, restoring the Synthase
+ * error class from its code
+ */
+export function restoreError(serialized: {
+	name?: string;
+	message: string;
+	stack?: string;
+	code?: string;
+	details?: Record<string, unknown>;
+}): Error {
+	const ErrorClass =
+		serialized.code && serialized.code in ERROR_CLASSES
+			? ERROR_CLASSES[serialized.code as SynthaseErrorCode]
+			: undefined;
+
+	let error: Error;
+	if (ErrorClass) {
+		error = new ErrorClass(serialized.message, serialized.details ?? {});
+	} else {
+		error = new Error(serialized.message);
+		if (serialized.name) error.name = serialized.name;
+	}
+	if (serialized.stack) error.stack = serialized.stack;
+	return error;
+}
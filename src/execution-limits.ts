@@ -1,4 +1,7 @@
 // execution-limits.ts
+import { ImportLimitError, TimeoutError } from "./errors";
+import type { ExecutionLimitsConfig } from "./types";
+
 /**
  * Manages execution limits and timeouts for script execution
  */
@@ -7,6 +10,7 @@ export class ExecutionLimits {
 	public readonly maxRecursionDepth: number = 10; // Max import recursion depth
 	public readonly maxImportedScripts: number = 50; // Max total imported scripts per execution
 	public readonly maxMemory: number = 100 * 1024 * 1024; // 100MB memory limit
+	public readonly maxOperations: number = Infinity; // Counted only in instrumented scripts
 
 	constructor(
 		limits?: Partial<{
@@ -14,6 +18,7 @@ export class ExecutionLimits {
 			maxRecursionDepth: number;
 			maxImportedScripts: number;
 			maxMemory: number;
+			maxOperations: number;
 		}>
 	) {
 		if (limits) {
@@ -25,16 +30,23 @@ export class ExecutionLimits {
 
 	/**
 	 * Execute a function with timeout protection
+	 * @param onTimeout Called when the timeout fires, e.g. to terminate the worker running the script
 	 */
 	async executeWithTimeout<T>(
 		fn: () => Promise<T>,
-		timeoutMs: number = this.timeout
+		timeoutMs: number = this.timeout,
+		onTimeout?: () => void
 	): Promise<T> {
 		let timeoutId!: ReturnType<typeof setTimeout>;
 
 		const timeoutPromise: Promise<never> = new Promise((_, reject) => {
 			timeoutId = setTimeout(() => {
-				reject(new Error(`Script execution timeout after ${timeoutMs}ms`));
+				reject(
+					new TimeoutError(`Script execution timeout after ${timeoutMs}ms`, {
+						timeout: timeoutMs,
+					})
+				);
+				onTimeout?.();
 			}, timeoutMs);
 		});
 
@@ -59,9 +71,10 @@ export class ExecutionLimits {
 	 */
 	checkRecursionDepth(currentDepth: number): void {
 		if (currentDepth >= this.maxRecursionDepth) {
-			throw new Error(
+			throw new ImportLimitError(
 				`Recursion depth limit exceeded: ${currentDepth} >= ${this.maxRecursionDepth}. ` +
-					`This may indicate circular dependencies or excessive nesting.`
+					`This may indicate circular dependencies or excessive nesting.`,
+				{ setting: "maxRecursionDepth", limit: this.maxRecursionDepth }
 			);
 		}
 	}
@@ -71,13 +84,38 @@ export class ExecutionLimits {
 	 */
 	checkImportCount(currentCount: number): void {
 		if (currentCount >= this.maxImportedScripts) {
-			throw new Error(
+			throw new ImportLimitError(
 				`Import limit exceeded: ${currentCount} >= ${this.maxImportedScripts}. ` +
-					`This may indicate an import bomb or inefficient script design.`
+					`This may indicate an import bomb or inefficient script design.`,
+				{ setting: "maxImportedScripts", limit: this.maxImportedScripts }
 			);
 		}
 	}
 
+	/**
+	 * Limits for a single call: overrides may lower these limits, never raise them
+	 */
+	capped(
+		overrides: ExecutionLimitsConfig = {}
+	): Required<ExecutionLimitsConfig> {
+		const cap = (limit: number, override?: number) =>
+			override === undefined ? limit : Math.min(limit, override);
+
+		return {
+			timeout: cap(this.timeout, overrides.timeout),
+			maxRecursionDepth: cap(
+				this.maxRecursionDepth,
+				overrides.maxRecursionDepth
+			),
+			maxImportedScripts: cap(
+				this.maxImportedScripts,
+				overrides.maxImportedScripts
+			),
+			maxMemory: cap(this.maxMemory, overrides.maxMemory),
+			maxOperations: cap(this.maxOperations, overrides.maxOperations),
+		};
+	}
+
 	/**
 	 * Update limits configuration
 	 */
@@ -87,6 +125,7 @@ export class ExecutionLimits {
 			maxRecursionDepth: number;
 			maxImportedScripts: number;
 			maxMemory: number;
+			maxOperations: number;
 		}>
 	): void {
 		Object.assign(this, newLimits);
@@ -0,0 +1,201 @@
+// file-inputs.ts
+import type { FileInput, FileReadMode, ParameterDef } from "./types";
+import { InputValidationError } from "./errors";
+
+/**
+ * File inputs read from a Blob by the engine, whose size is the Blob's own
+ */
+const readFromBlob = new WeakSet<FileInput>();
+
+/**
+ * Whether a value is a Blob (or File) that still has to be read
+ */
+export function isBlob(value: any): value is Blob {
+	return typeof Blob !== "undefined" && value instanceof Blob;
+}
+
+/**
+ * Whether a file satisfies an HTML-style accept list such as ".png,image/*"
+ */
+export function matchesAccept(
+	file: { name: string; type?: string },
+	accept: string
+): boolean {
+	const tokens = accept
+		.split(",")
+		.map((token) => token.trim().toLowerCase())
+		.filter(Boolean);
+	if (tokens.length === 0) return true;
+
+	const name = file.name.toLowerCase();
+	const mime = (file.type || "").toLowerCase();
+
+	return tokens.some((token) => {
+		if (token.startsWith(".")) return name.endsWith(token);
+		if (token.endsWith("/*")) return mime.startsWith(token.slice(0, -1));
+		return mime === token;
+	});
+}
+
+/**
+ * Check a file's name and size against the parameter's accept and maxSize
+ */
+export function checkFileConstraints(
+	file: { name: string; type?: string; size: number },
+	param: ParameterDef,
+	paramName: string
+): void {
+	if (param.accept && !matchesAccept(file, param.accept)) {
+		throw new InputValidationError(
+			`${paramName} must match accept "${param.accept}", got: ${file.name}`,
+			{ parameter: paramName }
+		);
+	}
+	if (param.maxSize !== undefined && file.size > param.maxSize) {
+		throw new InputValidationError(
+			`${paramName} must be at most ${param.maxSize} bytes, got: ${file.size}`,
+			{ parameter: paramName }
+		);
+	}
+}
+
+/**
+ * Size in bytes of a file input. Files the engine read keep their Blob size;
+ * for caller-provided content a missing or understated size must not get past
+ * maxSize, so the larger of the stated and the measured size counts.
+ */
+export function fileInputSize(file: any, readAs: FileReadMode): number {
+	if (readFromBlob.has(file)) return file.size;
+	return Math.max(
+		typeof file.size === "number" ? file.size : 0,
+		fileContentSize(file.content, readAs)
+	);
+}
+
+/**
+ * Size in bytes of the file behind pre-read content: decoded bytes of data
+ * URLs, one byte per character of binary strings, byte length of buffers and
+ * UTF-8 bytes of text and of JSON as serialized
+ */
+function fileContentSize(content: any, readAs: FileReadMode): number {
+	if (content instanceof ArrayBuffer || ArrayBuffer.isView(content)) {
+		return content.byteLength;
+	}
+	if (typeof content === "string") {
+		if (readAs === "binaryString") return content.length;
+		if (readAs === "dataURL" && content.startsWith("data:")) {
+			return dataUrlSize(content);
+		}
+	}
+	const text =
+		typeof content === "string" && readAs !== "json"
+			? content
+			: (JSON.stringify(content) ?? "");
+	return new TextEncoder().encode(text).length;
+}
+
+/**
+ * Number of bytes a data URL decodes to
+ */
+function dataUrlSize(url: string): number {
+	const comma = url.indexOf(",");
+	if (comma === -1) return 0;
+	const data = url.slice(comma + 1);
+
+	if (url.slice(0, comma).endsWith(";base64")) {
+		const base64 = data.replace(/[^A-Za-z0-9+/]/g, "");
+		return Math.floor((base64.length * 3) / 4);
+	}
+	// Each %XX escape is one byte, other characters are UTF-8 encoded
+	return new TextEncoder().encode(data.replace(/%[0-9a-fA-F]{2}/g, "x")).length;
+}
+
+/**
+ * Check that file content has the shape produced by the read mode
+ */
+export function checkFileContent(
+	content: any,
+	readAs: FileReadMode,
+	paramName: string
+): void {
+	let valid: boolean;
+	switch (readAs) {
+		case "arrayBuffer":
+			valid = content instanceof ArrayBuffer || ArrayBuffer.isView(content);
+			break;
+		case "dataURL":
+			valid = typeof content === "string" && content.startsWith("data:");
+			break;
+		case "json":
+			valid = content !== undefined;
+			break;
+		default:
+			valid = typeof content === "string";
+	}
+
+	if (!valid) {
+		throw new InputValidationError(
+			`${paramName} content does not match readAs "${readAs}", got: ${typeof content}`,
+			{ parameter: paramName }
+		);
+	}
+}
+
+/**
+ * Read a Blob into a FileInput, enforcing accept and maxSize before reading
+ */
+export async function readFileInput(
+	blob: Blob,
+	param: ParameterDef,
+	paramName: string
+): Promise<FileInput> {
+	const file = {
+		name: typeof (blob as any).name === "string" ? (blob as any).name : "blob",
+		type: blob.type,
+		size: blob.size,
+	};
+	checkFileConstraints(file, param, paramName);
+
+	const readAs = param.readAs ?? "text";
+	let content: any;
+	switch (readAs) {
+		case "json":
+			try {
+				content = JSON.parse(await blob.text());
+			} catch (error: any) {
+				throw new InputValidationError(
+					`${paramName} is not valid JSON: ${error.message}`,
+					{ parameter: paramName },
+					error
+				);
+			}
+			break;
+		case "arrayBuffer":
+			content = await blob.arrayBuffer();
+			break;
+		case "dataURL":
+			content = `data:${file.type || "application/octet-stream"};base64,${btoa(
+				toBinaryString(await blob.arrayBuffer())
+			)}`;
+			break;
+		case "binaryString":
+			content = toBinaryString(await blob.arrayBuffer());
+			break;
+		default:
+			content = await blob.text();
+	}
+
+	const input = { ...file, content };
+	readFromBlob.add(input);
+	return input;
+}
+
+function toBinaryString(buffer: ArrayBuffer): string {
+	const bytes = new Uint8Array(buffer);
+	let result = "";
+	// Chunked to stay below the argument limit of String.fromCharCode
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return result;
+}
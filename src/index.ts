@@ -8,35 +8,160 @@ export { SynthaseUtils } from "./synthase-utils";
 // Safety and monitoring classes
 export { ExecutionLimits } from "./execution-limits";
 export { ScriptValidator } from "./script-validator";
-export { ResourceMonitor } from "./resource-monitor";
+export { ResourceMonitor, ResourceSession } from "./resource-monitor";
+export { ScriptCache } from "./script-cache";
+export { WorkerIsolation } from "./worker-isolation";
+
+// Error classes
+export {
+	SynthaseError,
+	ValidationError,
+	InputValidationError,
+	TimeoutError,
+	MemoryLimitError,
+	ImportLimitError,
+	OperationLimitError,
+	DependencyResolutionError,
+	ScriptRuntimeError,
+	type SynthaseErrorCode,
+} from "./errors";
+export type { ColumnShift, ScriptStackFrame } from "./script-stack";
+
+// Logging
+export {
+	ConsoleLogger,
+	silentLogger,
+	type SynthaseLogger,
+	type LogLevel,
+	type LogFields,
+} from "./logger";
 
 // Script registry implementations
 export {
 	InMemoryScriptRegistry,
 	HttpScriptRegistry,
 	CompositeScriptRegistry,
+	FileSystemScriptRegistry,
 } from "./script-registry";
 
+// Script metadata stores
+export { MemoryCacheStore, FileSystemCacheStore } from "./cache-store";
+
 // Type definitions and utilities
 export {
 	type ParameterDef,
 	type ParameterSpec,
+	type ParameterType,
+	type ParameterTypeAlias,
+	type ParameterValidationOptions,
+	type FileInput,
+	type FileReadMode,
 	type IOSchema,
 	type LoadedScript,
+	type DependencyGraph,
+	type DependencyNode,
+	type DependencyEdge,
+	type DependencyStatus,
 	type ScriptRegistry,
+	type ResolvedScript,
+	type ScriptLockfile,
+	type LockedDependency,
+	type TrustPolicy,
+	type TrustedKeys,
+	type RegistryTrust,
 	type ScriptContentResolver,
 	type ExecutionContext,
+	type CallOptions,
+	type ExecutionResult,
+	type LogEntry,
+	type ImportRecord,
+	type ImportOptions,
 	type ImportedScript,
 	type ValidationResult,
+	type ValidationFinding,
+	type ValidationMode,
+	type ScriptValidatorConfig,
 	type CacheEntry,
+	type CacheStore,
+	type CachePolicyConfig,
+	type CacheStats,
+	type CachedScriptMetadata,
 	type ResourceStats,
+	type MemoryMetric,
+	type MemoryUsage,
+	type MemoryBackend,
 	type ExecutionLimitsConfig,
 	type ResourceMonitorConfig,
+	type IsolationMode,
+	type OutputValidationMode,
 	ParameterUtils,
+	PARAMETER_TYPE_ALIASES,
+	DEFAULT_BLOCK_ID_FORMAT,
 } from "./types";
 
+// JSON Schema interop
+export {
+	JSON_SCHEMA_DIALECT,
+	type JSONSchema,
+	type IOJSONSchema,
+} from "./json-schema";
+
+// Semantic versioning helpers for versioned registries
+export {
+	compareVersions,
+	maxSatisfying,
+	parseSpecifier,
+	satisfies,
+	type ScriptSpecifier,
+} from "./semver";
+
+// Static "synthase:" imports
+export {
+	STATIC_IMPORT_SCHEME,
+	findStaticImports,
+	type StaticImport,
+} from "./static-imports";
+
+// Dependency graph export
+export {
+	findDependencyCycle,
+	dependencyGraphToDot,
+	dependencyGraphToJSON,
+} from "./dependency-graph";
+
+// Operation budgets
+export { instrumentScript, OperationMeter } from "./script-instrumentation";
+
+// Content addressing
+export { computeIntegrity } from "./content-hash";
+
+// Script signing
+export {
+	generateSigningKeyPair,
+	signScript,
+	verifyScriptSignature,
+	parseScriptSignature,
+	type SigningKeyPair,
+	type ScriptSignature,
+	type SignatureVerification,
+} from "./script-signing";
+
+// Type declaration generation
+export {
+	generateTypeDeclarations,
+	generateTypesForScript,
+	generateTypesForSource,
+	type TypeGeneratorOptions,
+} from "./type-generator";
+
 // Re-export utility types for convenience
-export type { QuickExecuteOptions } from "./synthase-utils";
+export type {
+	QuickExecuteOptions,
+	ReusableScript,
+	WatchedScript,
+	WatchEvents,
+	WatchListener,
+} from "./synthase-utils";
 
 // Version info
 export const VERSION = "2.0.0";
@@ -50,6 +175,7 @@ export const {
 	executeBatch,
 	createReusable,
 	createHotReloadable,
+	watchScript,
 	benchmark,
 } = SynthaseUtils;
 
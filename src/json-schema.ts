@@ -0,0 +1,283 @@
+// json-schema.ts
+import {
+	ParameterUtils,
+	type IOSchema,
+	type ParameterDef,
+	type ParameterSpec,
+} from "./types";
+
+export const JSON_SCHEMA_DIALECT =
+	"https://json-schema.org/draft/2020-12/schema";
+
+/**
+ * A JSON Schema document or subschema (draft 2020-12)
+ */
+export type JSONSchema = boolean | { [keyword: string]: any };
+
+/**
+ * JSON Schemas for the inputs and outputs of a script
+ */
+export interface IOJSONSchema {
+	inputs: JSONSchema;
+	outputs: JSONSchema;
+}
+
+/**
+ * Keyword holding ParameterDef fields that JSON Schema has no equivalent for
+ */
+const EXTENSION_KEYWORD = "x-synthase";
+
+const TO_JSON_TYPE: Record<string, string> = {
+	int: "integer",
+	float: "number",
+	string: "string",
+	boolean: "boolean",
+	object: "object",
+	array: "array",
+};
+
+const FROM_JSON_TYPE: Record<string, ParameterDef["type"]> = {
+	integer: "int",
+	number: "float",
+	string: "string",
+	boolean: "boolean",
+	object: "object",
+	array: "array",
+};
+
+/**
+ * Convert an IOSchema into one JSON Schema for inputs and one for outputs
+ */
+export function ioToJSONSchema(io: IOSchema): IOJSONSchema {
+	return {
+		inputs: { $schema: JSON_SCHEMA_DIALECT, ...objectSchema(io.inputs) },
+		outputs: { $schema: JSON_SCHEMA_DIALECT, ...objectSchema(io.outputs) },
+	};
+}
+
+/**
+ * Convert JSON Schemas for inputs and outputs back into an IOSchema
+ */
+export function ioFromJSONSchema(schema: IOJSONSchema): IOSchema {
+	return {
+		inputs: objectProperties(schema.inputs),
+		outputs: objectProperties(schema.outputs),
+	};
+}
+
+/**
+ * Convert a single parameter into a JSON Schema
+ */
+export function parameterToJSONSchema(spec: ParameterSpec): JSONSchema {
+	const param = ParameterUtils.normalize(spec);
+	const extension: Record<string, any> = {};
+	let schema: Record<string, any>;
+
+	switch (param.type) {
+		case "object":
+			schema = param.properties
+				? objectSchema(param.properties)
+				: { type: "object" };
+			break;
+		case "array": {
+			const itemSpec = ParameterUtils.getItemSpec(param);
+			schema = { type: "array" };
+			if (itemSpec) schema.items = parameterToJSONSchema(itemSpec);
+			break;
+		}
+		case "file":
+			schema = {
+				type: "object",
+				properties: {
+					name: { type: "string" },
+					type: { type: "string" },
+					size: { type: "integer", minimum: 0 },
+					content: {},
+				},
+				required: ["name", "size", "content"],
+			};
+			if (param.maxSize !== undefined) {
+				schema.properties.size.maximum = param.maxSize;
+			}
+			extension.type = "file";
+			if (param.accept !== undefined) extension.accept = param.accept;
+			if (param.readAs !== undefined) extension.readAs = param.readAs;
+			break;
+		case "BlockId":
+			schema = { type: "string" };
+			if (param.format !== undefined) {
+				schema.pattern =
+					param.format instanceof RegExp ? param.format.source : param.format;
+			}
+			extension.type = "BlockId";
+			break;
+		default:
+			schema = TO_JSON_TYPE[param.type]
+				? { type: TO_JSON_TYPE[param.type] }
+				: {};
+	}
+
+	if (param.description !== undefined) schema.description = param.description;
+	if (param.default !== undefined) schema.default = param.default;
+	if (param.min !== undefined) schema.minimum = param.min;
+	if (param.max !== undefined) schema.maximum = param.max;
+	if (param.options !== undefined) schema.enum = param.options;
+
+	for (const key of ["step", "placeholder", "group"] as const) {
+		if (param[key] !== undefined) extension[key] = param[key];
+	}
+	if (Object.keys(extension).length > 0) {
+		schema[EXTENSION_KEYWORD] = extension;
+	}
+
+	return schema;
+}
+
+/**
+ * Convert a JSON Schema into a parameter definition
+ */
+export function parameterFromJSONSchema(schema: JSONSchema): ParameterDef {
+	if (typeof schema !== "object" || schema === null) {
+		return { type: "object" };
+	}
+
+	const extension = schema[EXTENSION_KEYWORD] || {};
+	const param: ParameterDef = {
+		type: extension.type ?? inferType(schema),
+	};
+
+	switch (param.type) {
+		case "object":
+			if (schema.properties) param.properties = objectProperties(schema);
+			break;
+		case "array":
+			if (typeof schema.items === "object" && schema.items !== null) {
+				param.items = parameterFromJSONSchema(schema.items);
+			}
+			break;
+		case "file":
+			if (schema.properties?.size?.maximum !== undefined) {
+				param.maxSize = schema.properties.size.maximum;
+			}
+			if (extension.accept !== undefined) param.accept = extension.accept;
+			if (extension.readAs !== undefined) param.readAs = extension.readAs;
+			break;
+		case "BlockId":
+			if (schema.pattern !== undefined) param.format = schema.pattern;
+			break;
+	}
+
+	if (param.type !== "file") {
+		if (schema.minimum !== undefined) param.min = schema.minimum;
+		if (schema.maximum !== undefined) param.max = schema.maximum;
+	}
+	if (schema.enum !== undefined) param.options = schema.enum;
+	if (schema.description !== undefined) param.description = schema.description;
+	if (schema.default !== undefined) param.default = schema.default;
+
+	for (const key of ["step", "placeholder", "group"] as const) {
+		if (extension[key] !== undefined) param[key] = extension[key];
+	}
+
+	return param;
+}
+
+/**
+ * Object schema for a set of parameters. Parameters without a default are
+ * required; `dependsOn` becomes an if/then rule so hidden parameters are only
+ * required while their conditions hold.
+ */
+function objectSchema(params: Record<string, ParameterSpec>) {
+	const properties: Record<string, JSONSchema> = {};
+	const required: string[] = [];
+	const rules: Record<string, any>[] = [];
+
+	for (const [key, spec] of Object.entries(params)) {
+		const param = ParameterUtils.normalize(spec);
+		properties[key] = parameterToJSONSchema(param);
+
+		if (param.dependsOn) {
+			rules.push({
+				if: {
+					properties: Object.fromEntries(
+						Object.entries(param.dependsOn).map(([depKey, value]) => [
+							depKey,
+							{ const: value },
+						])
+					),
+					required: Object.keys(param.dependsOn),
+				},
+				then: {
+					properties: { [key]: true },
+					...(param.default === undefined ? { required: [key] } : {}),
+				},
+			});
+		} else if (param.default === undefined) {
+			required.push(key);
+		}
+	}
+
+	const schema: Record<string, any> = { type: "object", properties };
+	if (required.length > 0) schema.required = required;
+	if (rules.length > 0) schema.allOf = rules;
+	return schema;
+}
+
+/**
+ * Parameters of an object schema, restoring `dependsOn` from if/then rules
+ */
+function objectProperties(schema: JSONSchema): Record<string, ParameterDef> {
+	if (typeof schema !== "object" || schema === null) return {};
+
+	const params: Record<string, ParameterDef> = {};
+	for (const [key, property] of Object.entries(schema.properties || {})) {
+		params[key] = parameterFromJSONSchema(property as JSONSchema);
+	}
+
+	for (const rule of schema.allOf || []) {
+		const condition = rule?.if?.properties;
+		if (!condition || !rule.then) continue;
+
+		const dependsOn: Record<string, any> = {};
+		for (const [depKey, depSchema] of Object.entries<any>(condition)) {
+			if (depSchema && "const" in depSchema) {
+				dependsOn[depKey] = depSchema.const;
+			}
+		}
+
+		const keys = new Set<string>([
+			...Object.keys(rule.then.properties || {}),
+			...(rule.then.required || []),
+		]);
+		for (const key of keys) {
+			if (params[key]) params[key].dependsOn = dependsOn;
+		}
+	}
+
+	return params;
+}
+
+/**
+ * Pick a parameter type for a schema, falling back on enum and default values
+ */
+function inferType(schema: Record<string, any>): ParameterDef["type"] {
+	const types: string[] = Array.isArray(schema.type)
+		? schema.type
+		: schema.type
+			? [schema.type]
+			: [];
+	const jsonType = types.find((type) => type !== "null");
+	if (jsonType && FROM_JSON_TYPE[jsonType]) return FROM_JSON_TYPE[jsonType];
+
+	if (schema.properties) return "object";
+	if (schema.items) return "array";
+
+	const sample = schema.enum?.[0] ?? schema.const ?? schema.default;
+	if (typeof sample === "number") {
+		return Number.isInteger(sample) ? "int" : "float";
+	}
+	if (typeof sample === "boolean") return "boolean";
+	if (Array.isArray(sample)) return "array";
+	if (typeof sample === "object" && sample !== null) return "object";
+	return "string";
+}
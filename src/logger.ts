@@ -0,0 +1,89 @@
+// logger.ts
+/**
+ * Severity levels understood by SynthaseLogger, from most to least verbose
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Structured data attached to a log message
+ */
+export type LogFields = Record<string, any>;
+
+/**
+ * Destination for the engine's diagnostics and the script-facing Logger
+ */
+export interface SynthaseLogger {
+	debug(message: string, fields?: LogFields): void;
+	info(message: string, fields?: LogFields): void;
+	warn(message: string, fields?: LogFields): void;
+	error(message: string, fields?: LogFields): void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+	debug: 0,
+	info: 1,
+	warn: 2,
+	error: 3,
+};
+
+/**
+ * Logger that discards everything - the default for library use
+ */
+export const silentLogger: SynthaseLogger = {
+	debug: () => {},
+	info: () => {},
+	warn: () => {},
+	error: () => {},
+};
+
+/**
+ * Logger that writes to the console, dropping messages below `level`
+ */
+export class ConsoleLogger implements SynthaseLogger {
+	private readonly level: LogLevel = "info";
+
+	constructor(options?: { level?: LogLevel }) {
+		if (options?.level) {
+			this.level = options.level;
+		}
+	}
+
+	debug(message: string, fields?: LogFields): void {
+		this.write("debug", message, fields);
+	}
+
+	info(message: string, fields?: LogFields): void {
+		this.write("info", message, fields);
+	}
+
+	warn(message: string, fields?: LogFields): void {
+		this.write("warn", message, fields);
+	}
+
+	error(message: string, fields?: LogFields): void {
+		this.write("error", message, fields);
+	}
+
+	private write(level: LogLevel, message: string, fields?: LogFields): void {
+		if (LEVEL_ORDER[level] < LEVEL_ORDER[this.level]) return;
+
+		const line = `[synthase] ${level.toUpperCase()} ${message}`;
+		const args =
+			fields && Object.keys(fields).length > 0 ? [line, fields] : [line];
+
+		switch (level) {
+			case "debug":
+				console.debug(...args);
+				break;
+			case "info":
+				console.info(...args);
+				break;
+			case "warn":
+				console.warn(...args);
+				break;
+			case "error":
+				console.error(...args);
+				break;
+		}
+	}
+}
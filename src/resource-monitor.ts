@@ -1,69 +1,110 @@
 // resource-monitor.ts
+import { silentLogger, type SynthaseLogger } from "./logger";
+import { MemoryLimitError } from "./errors";
+import type {
+	MemoryBackend,
+	MemoryMetric,
+	MemoryUsage,
+	ResourceStats,
+} from "./types";
+
+const MEMORY_METRICS: MemoryMetric[] = ["heapUsed", "rss", "arrayBuffers"];
+
 /**
- * Monitors resource usage during script execution
+ * Where memory is measured: process.memoryUsage() in Node and Bun,
+ * Chrome's performance.memory in browsers
  */
-export class ResourceMonitor {
-	private startMemory: number = 0;
-	private startTime: number = 0;
-	private maxMemoryUsed: number = 0;
-	private checkInterval: number | null = null;
-	private memoryCheckCount: number = 0;
-	private readonly maxMemory: number = 100 * 1024 * 1024; // 100MB
-	private readonly checkIntervalMs: number = 1000; // Check every second
+function memoryBackend(): MemoryBackend {
+	if (
+		typeof process !== "undefined" &&
+		typeof process.memoryUsage === "function"
+	) {
+		return "process";
+	}
+	if (
+		typeof performance !== "undefined" &&
+		"memory" in performance &&
+		typeof (performance as any).memory === "object" &&
+		"usedJSHeapSize" in (performance as any).memory
+	) {
+		return "performance";
+	}
+	return "none";
+}
 
-	constructor(options?: { maxMemory?: number; checkIntervalMs?: number }) {
-		if (options?.maxMemory) {
-			(this as any).maxMemory = options.maxMemory;
-		}
-		if (options?.checkIntervalMs) {
-			(this as any).checkIntervalMs = options.checkIntervalMs;
+/**
+ * Read absolute memory figures from the available backend
+ */
+function sampleMemory(): MemoryUsage {
+	switch (memoryBackend()) {
+		case "process": {
+			const { heapUsed, rss, arrayBuffers } = process.memoryUsage();
+			return { heapUsed, rss, arrayBuffers };
 		}
+		case "performance":
+			return { heapUsed: (performance as any).memory.usedJSHeapSize };
+		default:
+			return {};
 	}
+}
 
-	/**
-	 * Start monitoring resources
-	 */
-	start(): void {
-		this.startTime = performance.now();
-		this.maxMemoryUsed = 0;
-		this.memoryCheckCount = 0;
-
-		// Get baseline memory if available
-		if (this.isMemoryAPIAvailable()) {
-			this.startMemory = (performance as any).memory.usedJSHeapSize;
-		} else {
-			this.startMemory = 0;
-			console.log("💡 Memory monitoring not available in this environment");
-		}
+/**
+ * Monitoring of one execution, returned by ResourceMonitor.start(). Each
+ * execution has its own baseline, limits, periodic check and statistics, so
+ * ending one session does not stop the checks of another. Memory is sampled
+ * for the whole process, though: growth caused by one execution counts
+ * against every session running at the same time.
+ */
+export class ResourceSession {
+	private readonly startTime = performance.now();
+	private stopTime: number | null = null;
+	private readonly baseline = sampleMemory();
+	private peakMemory: MemoryUsage = {};
+	private memoryCheckCount = 0;
+	private checkInterval: ReturnType<typeof setInterval> | null = null;
+	private readonly limits: MemoryUsage;
+	private readonly logger: SynthaseLogger;
+	private readonly onStop?: () => void;
 
-		// Start periodic memory checking
-		this.checkInterval = setInterval(() => {
-			this.performMemoryCheck();
-		}, this.checkIntervalMs) as any;
+	constructor(options: {
+		limits: MemoryUsage;
+		logger?: SynthaseLogger;
+		checkIntervalMs?: number; // No periodic check when omitted
+		onLimitExceeded?: (error: MemoryLimitError) => void;
+		onStop?: () => void;
+	}) {
+		this.limits = options.limits;
+		this.logger = options.logger ?? silentLogger;
+		this.onStop = options.onStop;
+		if (!options.checkIntervalMs) return;
 
-		console.log(
-			`📊 Resource monitoring started (max memory: ${Math.round(
-				this.maxMemory / 1024 / 1024
-			)}MB)`
-		);
+		// Errors cannot be thrown from the timer, so they are handed to the caller
+		this.checkInterval = setInterval(() => {
+			const error = this.performMemoryCheck();
+			if (error) {
+				this.dispose();
+				options.onLimitExceeded?.(error);
+			}
+		}, options.checkIntervalMs);
 	}
 
 	/**
-	 * Stop monitoring resources
+	 * Stop the periodic check and freeze the duration
 	 */
 	stop(): void {
-		if (this.checkInterval) {
-			clearInterval(this.checkInterval);
-			this.checkInterval = null;
-		}
-
-		const duration = performance.now() - this.startTime;
-		const finalMemoryUsed = this.getCurrentMemoryUsed();
+		if (this.stopTime !== null) return;
+		this.dispose();
+		this.stopTime = performance.now();
+		this.onStop?.();
 
-		console.log(`📊 Resource monitoring stopped:`, {
-			duration: `${Math.round(duration)}ms`,
-			memoryUsed: `${Math.round(finalMemoryUsed / 1024 / 1024)}MB`,
-			maxMemoryUsed: `${Math.round(this.maxMemoryUsed / 1024 / 1024)}MB`,
+		this.logger.debug("Resource monitoring stopped", {
+			durationMs: Math.round(this.stopTime - this.startTime),
+			memoryUsedMB: Math.round(
+				(this.getCurrentMemoryUsage().heapUsed ?? 0) / 1024 / 1024
+			),
+			maxMemoryUsedMB: Math.round(
+				(this.peakMemory.heapUsed ?? 0) / 1024 / 1024
+			),
 			memoryChecks: this.memoryCheckCount,
 		});
 	}
@@ -72,35 +113,32 @@ export class ResourceMonitor {
 	 * Manual memory check (can be called during execution)
 	 */
 	check(): void {
-		this.performMemoryCheck();
+		const error = this.performMemoryCheck();
+		if (error) throw error;
 	}
 
 	/**
 	 * Get current memory usage statistics
 	 */
-	getStats(): {
-		memoryUsed: number;
-		maxMemoryUsed: number;
-		memoryLimit: number;
-		memoryPercentage: number;
-		duration: number;
-		checksPerformed: number;
-	} {
-		const memoryUsed = this.getCurrentMemoryUsed();
-		const duration = performance.now() - this.startTime;
+	getStats(): ResourceStats {
+		const memoryUsed = this.getCurrentMemoryUsage().heapUsed ?? 0;
+		const memoryLimit = this.limits.heapUsed ?? Infinity;
+		const duration = (this.stopTime ?? performance.now()) - this.startTime;
 
 		return {
 			memoryUsed,
-			maxMemoryUsed: this.maxMemoryUsed,
-			memoryLimit: this.maxMemory,
-			memoryPercentage: (memoryUsed / this.maxMemory) * 100,
+			maxMemoryUsed: this.peakMemory.heapUsed ?? 0,
+			memoryLimit,
+			memoryPercentage: (memoryUsed / memoryLimit) * 100,
 			duration,
 			checksPerformed: this.memoryCheckCount,
+			memoryBackend: memoryBackend(),
+			peakMemory: { ...this.peakMemory },
 		};
 	}
 
 	/**
-	 * Dispose of resources
+	 * Stop the periodic check
 	 */
 	dispose(): void {
 		if (this.checkInterval) {
@@ -110,63 +148,193 @@ export class ResourceMonitor {
 	}
 
 	/**
-	 * Perform a memory check
+	 * Perform a memory check, returning the error for the first exceeded limit
 	 */
-	private performMemoryCheck(): void {
+	private performMemoryCheck(): MemoryLimitError | null {
 		this.memoryCheckCount++;
 
-		if (!this.isMemoryAPIAvailable()) {
-			return; // Can't check memory in this environment
+		const usage = this.getCurrentMemoryUsage();
+		for (const metric of MEMORY_METRICS) {
+			if (usage[metric] === undefined) continue;
+			this.peakMemory[metric] = Math.max(
+				this.peakMemory[metric] ?? 0,
+				usage[metric]!
+			);
 		}
 
-		const currentMemoryUsed = this.getCurrentMemoryUsed();
-		this.maxMemoryUsed = Math.max(this.maxMemoryUsed, currentMemoryUsed);
+		for (const metric of MEMORY_METRICS) {
+			const used = usage[metric];
+			const limit = this.limits[metric];
+			if (used === undefined || limit === undefined) continue;
 
-		// Check if memory limit exceeded
-		if (currentMemoryUsed > this.maxMemory) {
-			const memoryMB = Math.round(currentMemoryUsed / 1024 / 1024);
-			const limitMB = Math.round(this.maxMemory / 1024 / 1024);
+			// Check if memory limit exceeded
+			if (used > limit) {
+				const memoryMB = Math.round(used / 1024 / 1024);
+				const limitMB = Math.round(limit / 1024 / 1024);
 
-			console.error(`❌ Memory limit exceeded: ${memoryMB}MB > ${limitMB}MB`);
+				this.logger.error("Memory limit exceeded", {
+					metric,
+					memoryMB,
+					limitMB,
+				});
 
-			throw new Error(
-				`Script exceeded memory limit: ${memoryMB}MB used, ${limitMB}MB allowed. ` +
-					`Consider optimizing your script or reducing data size.`
-			);
+				return new MemoryLimitError(
+					`Script exceeded memory limit: ${memoryMB}MB used, ${limitMB}MB allowed (${metric}). ` +
+						`Consider optimizing your script or reducing data size.`,
+					{ used, limit, metric }
+				);
+			}
+
+			// Warn if approaching memory limit
+			const memoryPercentage = (used / limit) * 100;
+			if (memoryPercentage > 80 && this.memoryCheckCount % 5 === 0) {
+				// Warn every 5 checks when >80%
+				this.logger.warn("High memory usage", {
+					metric,
+					percentOfLimit: Math.round(memoryPercentage),
+				});
+			}
 		}
 
-		// Warn if approaching memory limit
-		const memoryPercentage = (currentMemoryUsed / this.maxMemory) * 100;
-		if (memoryPercentage > 80 && this.memoryCheckCount % 5 === 0) {
-			// Warn every 5 checks when >80%
-			console.warn(
-				`⚠️ High memory usage: ${Math.round(memoryPercentage)}% of limit`
+		return null;
+	}
+
+	/**
+	 * Get memory growth since monitoring started, per measured metric
+	 */
+	private getCurrentMemoryUsage(): MemoryUsage {
+		const current = sampleMemory();
+		const usage: MemoryUsage = {};
+		for (const metric of MEMORY_METRICS) {
+			if (current[metric] === undefined) continue;
+			usage[metric] = Math.max(
+				0,
+				current[metric]! - (this.baseline[metric] ?? 0)
 			);
 		}
+		return usage;
+	}
+}
+
+/**
+ * Monitors resource usage during script execution
+ */
+export class ResourceMonitor {
+	private readonly maxMemory: number = 100 * 1024 * 1024; // 100MB
+	private readonly memoryLimits: MemoryUsage = {}; // Configured limits per metric
+	private readonly checkIntervalMs: number = 1000; // Check every second
+	private readonly logger: SynthaseLogger = silentLogger;
+	private sessions = new Set<ResourceSession>(); // Running, stopped on dispose
+	private latest: ResourceSession | null = null; // Used by stop(), check() and getStats()
+
+	constructor(options?: {
+		maxMemory?: number;
+		memoryLimits?: MemoryUsage;
+		checkIntervalMs?: number;
+		logger?: SynthaseLogger;
+	}) {
+		if (options?.logger) {
+			this.logger = options.logger;
+		}
+		if (options?.maxMemory) {
+			(this as any).maxMemory = options.maxMemory;
+		}
+		if (options?.checkIntervalMs) {
+			(this as any).checkIntervalMs = options.checkIntervalMs;
+		}
+		this.memoryLimits = {
+			heapUsed: this.maxMemory,
+			...options?.memoryLimits,
+		};
 	}
 
 	/**
-	 * Get current memory usage
+	 * Start monitoring an execution. Sessions already running keep running.
+	 * @param maxMemory Lower heapUsed limit for this run; the configured limit still applies
+	 * @param onLimitExceeded Called when a periodic check finds a limit exceeded, e.g. to abort the execution
 	 */
-	private getCurrentMemoryUsed(): number {
-		if (!this.isMemoryAPIAvailable()) {
-			return 0;
+	start(
+		maxMemory?: number,
+		onLimitExceeded?: (error: MemoryLimitError) => void
+	): ResourceSession {
+		const limits = {
+			...this.memoryLimits,
+			heapUsed: Math.min(
+				this.memoryLimits.heapUsed ?? Infinity,
+				maxMemory ?? Infinity
+			),
+		};
+		const session = new ResourceSession({
+			limits,
+			logger: this.logger,
+			checkIntervalMs: this.checkIntervalMs,
+			onLimitExceeded,
+			onStop: () => this.sessions.delete(session),
+		});
+		this.sessions.add(session);
+		this.latest = session;
+
+		if (this.getMemoryBackend() === "none") {
+			this.logger.debug("Memory monitoring not available in this environment");
 		}
+		this.logger.debug("Resource monitoring started", {
+			backend: this.getMemoryBackend(),
+			limitsMB: Object.fromEntries(
+				Object.entries(limits).map(([metric, limit]) => [
+					metric,
+					Math.round(limit! / 1024 / 1024),
+				])
+			),
+		});
+
+		return session;
+	}
 
-		const currentMemory = (performance as any).memory.usedJSHeapSize;
-		return Math.max(0, currentMemory - this.startMemory);
+	/**
+	 * Stop the most recently started session
+	 */
+	stop(): void {
+		this.latest?.stop();
 	}
 
 	/**
-	 * Check if memory API is available
+	 * Check the most recently started session
 	 */
-	private isMemoryAPIAvailable(): boolean {
-		return (
-			typeof performance !== "undefined" &&
-			"memory" in performance &&
-			typeof (performance as any).memory === "object" &&
-			"usedJSHeapSize" in (performance as any).memory
-		);
+	check(): void {
+		(this.latest ?? this.idleSession()).check();
+	}
+
+	/**
+	 * Get the statistics of the most recently started session
+	 */
+	getStats(): ResourceStats {
+		return (this.latest ?? this.idleSession()).getStats();
+	}
+
+	/**
+	 * Stop every running session
+	 */
+	dispose(): void {
+		for (const session of this.sessions) {
+			session.dispose();
+		}
+		this.sessions.clear();
+	}
+
+	/**
+	 * Where memory is measured: process.memoryUsage() in Node and Bun,
+	 * Chrome's performance.memory in browsers
+	 */
+	getMemoryBackend(): MemoryBackend {
+		return memoryBackend();
+	}
+
+	// Measures from now, for checks and statistics before any start()
+	private idleSession(): ResourceSession {
+		return new ResourceSession({
+			limits: this.memoryLimits,
+			logger: this.logger,
+		});
 	}
 
 	/**
@@ -174,22 +342,25 @@ export class ResourceMonitor {
 	 */
 	forceGC(): void {
 		if (typeof window !== "undefined" && "gc" in window) {
-			console.log("🗑️ Forcing garbage collection");
+			this.logger.debug("Forcing garbage collection");
 			(window as any).gc();
 		} else if (typeof global !== "undefined" && "gc" in global) {
-			console.log("🗑️ Forcing garbage collection");
+			this.logger.debug("Forcing garbage collection");
 			(global as any).gc();
 		} else {
-			console.log("💡 Garbage collection not available");
+			this.logger.debug("Garbage collection not available");
 		}
 	}
 
 	/**
 	 * Create a memory pressure test
 	 */
-	static createMemoryPressureTest(sizeInMB: number = 10): () => void {
+	static createMemoryPressureTest(
+		sizeInMB: number = 10,
+		logger: SynthaseLogger = silentLogger
+	): () => void {
 		return () => {
-			console.log(`🧪 Creating ${sizeInMB}MB memory pressure test`);
+			logger.debug("Creating memory pressure test", { sizeInMB });
 			const arraySize = (sizeInMB * 1024 * 1024) / 8; // 8 bytes per number
 			const testArray = new Array(arraySize);
 
@@ -198,12 +369,14 @@ export class ResourceMonitor {
 				testArray[i] = Math.random();
 			}
 
-			console.log(`💾 Created array with ${testArray.length} elements`);
+			logger.debug("Created memory pressure array", {
+				elements: testArray.length,
+			});
 
 			// Return cleanup function
 			return () => {
 				testArray.length = 0;
-				console.log("🗑️ Cleaned up memory pressure test");
+				logger.debug("Cleaned up memory pressure test");
 			};
 		};
 	}
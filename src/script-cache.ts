@@ -0,0 +1,180 @@
+// script-cache.ts
+import type { CacheEntry, CachePolicyConfig, CacheStats } from "./types";
+import { silentLogger, type SynthaseLogger } from "./logger";
+
+/**
+ * Least-recently-used cache of compiled scripts, weighted by source size.
+ * Reads move an entry to the most recent position; inserts evict the least
+ * recently used entries until both the entry and byte limits hold.
+ */
+export class ScriptCache {
+	private entries = new Map<string, CacheEntry>(); // Oldest access first
+	private policy: Required<CachePolicyConfig> = {
+		maxAge: 5 * 60 * 1000, // 5 minutes
+		maxSize: 100, // max cached scripts
+		maxBytes: 50 * 1024 * 1024, // 50MB of script source
+	};
+	private bytes = 0;
+	private hits = 0;
+	private misses = 0;
+	private evictions = 0;
+	private expirations = 0;
+	private logger: SynthaseLogger = silentLogger;
+
+	constructor(options?: CachePolicyConfig & { logger?: SynthaseLogger }) {
+		if (options?.logger) {
+			this.logger = options.logger;
+		}
+		this.setPolicy(options ?? {});
+	}
+
+	/**
+	 * Update limits, evicting entries that no longer fit
+	 */
+	setPolicy(policy: CachePolicyConfig): void {
+		for (const key of ["maxAge", "maxSize", "maxBytes"] as const) {
+			if (policy[key] !== undefined) this.policy[key] = policy[key]!;
+		}
+		this.enforceLimits();
+	}
+
+	getPolicy(): Required<CachePolicyConfig> {
+		return { ...this.policy };
+	}
+
+	/**
+	 * Get an entry and mark it as most recently used. Expired entries are
+	 * dropped and count as misses.
+	 */
+	get(id: string): CacheEntry | null {
+		const entry = this.entries.get(id);
+		if (!entry) {
+			this.misses++;
+			return null;
+		}
+
+		const age = Date.now() - entry.timestamp;
+		if (age > this.policy.maxAge) {
+			this.logger.debug("Cache expired", {
+				scriptId: id,
+				ageSeconds: Math.round(age / 1000),
+			});
+			this.remove(id);
+			this.expirations++;
+			this.misses++;
+			return null;
+		}
+
+		this.entries.delete(id);
+		this.entries.set(id, entry);
+		this.hits++;
+		return entry;
+	}
+
+	/**
+	 * Get an entry without touching recency or statistics
+	 */
+	peek(id: string): CacheEntry | undefined {
+		return this.entries.get(id);
+	}
+
+	/**
+	 * Insert or replace an entry, then evict until the limits hold
+	 */
+	set(id: string, entry: CacheEntry): void {
+		this.remove(id);
+		this.entries.set(id, entry);
+		this.bytes += entry.size;
+		this.enforceLimits();
+	}
+
+	delete(id: string): boolean {
+		return this.remove(id);
+	}
+
+	/**
+	 * Remove every entry and return how many there were
+	 */
+	clear(): number {
+		const count = this.entries.size;
+		this.entries.clear();
+		this.bytes = 0;
+		return count;
+	}
+
+	/**
+	 * Drop entries older than maxAge and return how many were removed
+	 */
+	removeExpired(): number {
+		const now = Date.now();
+		let removed = 0;
+		for (const [id, entry] of Array.from(this.entries)) {
+			if (now - entry.timestamp > this.policy.maxAge) {
+				this.remove(id);
+				removed++;
+			}
+		}
+		this.expirations += removed;
+		return removed;
+	}
+
+	get size(): number {
+		return this.entries.size;
+	}
+
+	getStats(): CacheStats {
+		const entries = Array.from(this.entries.values());
+		const now = Date.now();
+
+		return {
+			totalEntries: entries.length,
+			avgAge:
+				entries.length > 0
+					? Math.round(
+							entries.reduce((sum, e) => sum + (now - e.timestamp), 0) /
+								entries.length /
+								1000
+						)
+					: 0,
+			sources: entries.reduce(
+				(acc, e) => {
+					acc[e.source] = (acc[e.source] || 0) + 1;
+					return acc;
+				},
+				{} as Record<string, number>
+			),
+			hits: this.hits,
+			misses: this.misses,
+			evictions: this.evictions,
+			expirations: this.expirations,
+			bytes: this.bytes,
+			maxBytes: this.policy.maxBytes,
+		};
+	}
+
+	private remove(id: string): boolean {
+		const entry = this.entries.get(id);
+		if (!entry) return false;
+
+		this.entries.delete(id);
+		this.bytes -= entry.size;
+		return true;
+	}
+
+	private enforceLimits(): void {
+		for (const [id, entry] of Array.from(this.entries)) {
+			if (
+				this.entries.size <= this.policy.maxSize &&
+				this.bytes <= this.policy.maxBytes
+			) {
+				break;
+			}
+			this.remove(id);
+			this.evictions++;
+			this.logger.debug("Evicted cached script", {
+				scriptId: id,
+				bytes: entry.size,
+			});
+		}
+	}
+}
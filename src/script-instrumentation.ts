@@ -0,0 +1,230 @@
+// script-instrumentation.ts
+import { parse } from "acorn";
+import { OperationLimitError } from "./errors";
+import type { ColumnShift } from "./script-stack";
+
+/**
+ * Names starting with this prefix are used by instrumented code. The
+ * validator rejects scripts that use them, so scripts cannot reach the meter.
+ */
+export const RESERVED_IDENTIFIER_PREFIX = "__synthase";
+
+/**
+ * Read-only global that gives each instrumented module its tick function.
+ * Worker isolation defines its own inside the worker.
+ */
+export const OPERATION_TICKER = `${RESERVED_IDENTIFIER_PREFIX}Operations`;
+
+const TICK = `${RESERVED_IDENTIFIER_PREFIX}Tick`;
+const TICKS = `${RESERVED_IDENTIFIER_PREFIX}Ticks`;
+
+// Appended on new lines so the line numbers of the script are unchanged.
+// The tick is created on first use, as top-level code may run before the footer.
+const footer = (limit: number) => `
+;var ${TICKS};
+function ${TICK}() { (${TICKS} ||= ${OPERATION_TICKER}(${limit}))(); }
+`;
+
+// Meter of the call whose script code is running, kept across awaits. Without
+// async context (browsers), calls of host-isolated scripts cannot be told
+// apart, so they are refused rather than metered together.
+const activeMeter =
+	typeof process !== "undefined" &&
+	typeof process.getBuiltinModule === "function"
+		? new (process.getBuiltinModule(
+				"node:async_hooks"
+			).AsyncLocalStorage)<OperationMeter>()
+		: null;
+
+const LOOPS = new Set([
+	"WhileStatement",
+	"DoWhileStatement",
+	"ForStatement",
+	"ForInStatement",
+	"ForOfStatement",
+]);
+
+const FUNCTIONS = new Set([
+	"FunctionDeclaration",
+	"FunctionExpression",
+	"ArrowFunctionExpression",
+]);
+
+interface Insertion {
+	offset: number;
+	text: string;
+	order: number; // Wrappers open outermost first and close innermost first
+}
+
+/**
+ * Instrumented code, with the insertions that map its columns to the script
+ */
+export interface InstrumentedScript {
+	code: string;
+	columnShifts: ColumnShift[];
+}
+
+/**
+ * Counts the operations of one execution and throws once the budget is spent.
+ * Every later tick throws again, so scripts cannot catch their way past it.
+ */
+export class OperationMeter {
+	count = 0;
+
+	constructor(readonly limit: number) {}
+
+	tick(): void {
+		if (++this.count > this.limit) throw this.error();
+	}
+
+	/**
+	 * Add operations counted elsewhere, e.g. by a worker
+	 */
+	add(count: number): void {
+		this.count += count;
+	}
+
+	get remaining(): number {
+		return Math.max(0, this.limit - this.count);
+	}
+
+	/**
+	 * Throw if the budget was exceeded, even when the script caught the error
+	 */
+	check(): void {
+		if (this.count > this.limit) throw this.error();
+	}
+
+	private error(): OperationLimitError {
+		return new OperationLimitError(
+			`Operation limit exceeded: maximum ${this.limit} operations per execution`,
+			{ limit: this.limit }
+		);
+	}
+}
+
+/**
+ * Run script code so its ticks count against `meter`, across awaits and
+ * concurrent calls of the same module. Throws when the runtime has no async
+ * context to keep the meter in.
+ */
+export function runWithOperationMeter<T>(
+	meter: OperationMeter | undefined,
+	run: () => T
+): T {
+	if (!meter) return run();
+	if (!activeMeter) {
+		throw new OperationLimitError(
+			"Operation limits need AsyncLocalStorage in host isolation; use worker isolation in this runtime",
+			{ limit: meter.limit }
+		);
+	}
+	return activeMeter.run(meter, run);
+}
+
+/**
+ * Define the global ticker of the host once. Ticks outside a call, such as
+ * module top-level code, count against a budget of their own module.
+ */
+function defineOperationTicker(): void {
+	if (OPERATION_TICKER in globalThis) return;
+	Object.defineProperty(globalThis, OPERATION_TICKER, {
+		value: (limit: number) => {
+			const topLevel = new OperationMeter(limit);
+			return () => (activeMeter?.getStore() ?? topLevel).tick();
+		},
+	});
+}
+
+/**
+ * Insert a budget tick at the start of every loop body and function body.
+ * Code is only inserted within lines, so line numbers stay the same. Scripts
+ * that do not parse are returned unchanged; the validator reports them.
+ */
+export function instrumentScript(content: string, limit: number): string {
+	return instrumentScriptWithMap(content, limit).code;
+}
+
+/**
+ * Instrument a script like instrumentScript(), also returning where code was
+ * inserted so stack trace columns can be mapped back to the script
+ */
+export function instrumentScriptWithMap(
+	content: string,
+	limit: number
+): InstrumentedScript {
+	let program: any;
+	try {
+		program = parse(content, { ecmaVersion: "latest", sourceType: "module" });
+	} catch {
+		return { code: content, columnShifts: [] };
+	}
+
+	const opening: Insertion[] = [];
+	const closing: Insertion[] = [];
+	let order = 0;
+
+	const wrap = (node: any, open: string, close: string) => {
+		order++;
+		opening.push({ offset: node.start, text: open, order });
+		closing.push({ offset: node.end, text: close, order: -order });
+	};
+
+	const visit = (node: any) => {
+		if (!node || typeof node.type !== "string") return;
+
+		const body =
+			LOOPS.has(node.type) || FUNCTIONS.has(node.type) ? node.body : null;
+		if (body?.type === "BlockStatement") {
+			opening.push({
+				offset: body.start + 1,
+				text: `${TICK}();`,
+				order: ++order,
+			});
+		} else if (body && LOOPS.has(node.type)) {
+			wrap(body, `{${TICK}();`, "}");
+		} else if (body) {
+			// Arrow function with an expression body
+			wrap(body, `(${TICK}(), `, ")");
+		}
+
+		for (const value of Object.values(node)) {
+			if (Array.isArray(value)) value.forEach(visit);
+			else if (value && typeof value === "object") visit(value);
+		}
+	};
+	visit(program);
+
+	// Close before opening at the same offset, then nest by order
+	const insertions = [...closing, ...opening].sort(
+		(a, b) =>
+			a.offset - b.offset ||
+			Number(a.order > 0) - Number(b.order > 0) ||
+			a.order - b.order
+	);
+
+	let instrumented = "";
+	let offset = 0;
+	let line = 1;
+	let lineStart = 0;
+	const columnShifts: ColumnShift[] = [];
+	for (const insertion of insertions) {
+		instrumented += content.slice(offset, insertion.offset) + insertion.text;
+		for (; offset < insertion.offset; offset++) {
+			if (content[offset] === "\n") {
+				line++;
+				lineStart = offset + 1;
+			}
+		}
+		columnShifts.push({
+			line,
+			column: insertion.offset - lineStart,
+			length: insertion.text.length,
+		});
+	}
+	defineOperationTicker();
+	return {
+		code: instrumented + content.slice(offset) + footer(limit),
+		columnShifts,
+	};
+}
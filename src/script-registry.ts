@@ -1,47 +1,142 @@
 // script-registry.ts
-import { ScriptRegistry } from "./types.js";
+import { ResolvedScript, ScriptRegistry } from "./types.js";
+import {
+	compareVersions,
+	isValidRange,
+	isValidVersion,
+	maxSatisfying,
+	parseSpecifier,
+} from "./semver.js";
+import { computeIntegrity } from "./content-hash.js";
+
+/**
+ * Resolve a specifier through any registry, using versioned resolution when
+ * supported, and address the result by the SHA-256 of its content
+ */
+export async function resolveScript(
+	registry: ScriptRegistry,
+	specifier: string
+): Promise<ResolvedScript> {
+	const resolved = registry.resolveVersioned
+		? await registry.resolveVersioned(specifier)
+		: { id: specifier, content: await registry.resolve(specifier) };
+
+	const source = { ...resolved, registry: resolved.registry ?? registry };
+	if (typeof source.content !== "string") return source;
+	return { ...source, integrity: await computeIntegrity(source.content) };
+}
+
 export class InMemoryScriptRegistry implements ScriptRegistry {
 	private scripts = new Map<string, string>();
+	private versions = new Map<string, Map<string, string>>();
 
 	/**
-	 * Register a script with content
+	 * Register a script with content, or publish it under a version.
+	 * Published versions are immutable.
 	 */
-	register(scriptId: string, content: string): void {
-		this.scripts.set(scriptId, content);
+	register(scriptId: string, content: string): void;
+	register(scriptId: string, version: string, content: string): void;
+	register(scriptId: string, versionOrContent: string, content?: string): void {
+		if (content === undefined) {
+			this.scripts.set(scriptId, versionOrContent);
+			return;
+		}
+
+		const version = versionOrContent;
+		if (!isValidVersion(version)) {
+			throw new Error(`Invalid version "${version}" for script ${scriptId}`);
+		}
+
+		const published = this.versions.get(scriptId) ?? new Map<string, string>();
+		const existing = published.get(version);
+		if (existing !== undefined && existing !== content) {
+			throw new Error(`Script ${scriptId}@${version} is already registered`);
+		}
+		published.set(version, content);
+		this.versions.set(scriptId, published);
 	}
 
 	/**
-	 * Resolve script ID to content
+	 * Resolve script ID, optionally with a version range, to content
 	 */
 	async resolve(scriptId: string): Promise<string> {
-		const content = this.scripts.get(scriptId);
-		if (!content) {
-			throw new Error(`Script not found: ${scriptId}`);
+		return (await this.resolveVersioned(scriptId)).content;
+	}
+
+	/**
+	 * Resolve "id" or "id@range" to the highest matching version.
+	 * A bare id prefers content registered without a version.
+	 */
+	async resolveVersioned(specifier: string): Promise<ResolvedScript> {
+		const direct = this.scripts.get(specifier);
+		if (direct !== undefined) {
+			return { id: specifier, content: direct };
 		}
-		return content;
+
+		const { id, range } = parseSpecifier(specifier);
+		const published = this.versions.get(id);
+
+		if (range === undefined) {
+			const unversioned = this.scripts.get(id);
+			if (unversioned !== undefined) return { id, content: unversioned };
+		} else if (!isValidRange(range)) {
+			throw new Error(`Invalid version range: ${specifier}`);
+		}
+
+		if (!published || published.size === 0) {
+			throw new Error(`Script not found: ${specifier}`);
+		}
+
+		const version = maxSatisfying(Array.from(published.keys()), range ?? "*");
+		if (version === undefined) {
+			throw new Error(
+				`No version of ${id} satisfies ${range} (available: ${this.versionsOf(id).join(", ")})`
+			);
+		}
+
+		return { id, version, content: published.get(version)! };
 	}
 
 	/**
 	 * List all registered scripts
 	 */
 	list(): string[] {
-		return Array.from(this.scripts.keys());
+		return Array.from(
+			new Set([...this.scripts.keys(), ...this.versions.keys()])
+		);
+	}
+
+	/**
+	 * Published versions of a script, lowest first
+	 */
+	versionsOf(scriptId: string): string[] {
+		return Array.from(this.versions.get(scriptId)?.keys() ?? []).sort(
+			compareVersions
+		);
 	}
 
 	/**
 	 * Check if script exists
 	 */
 	has(scriptId: string): boolean {
-		return this.scripts.has(scriptId);
+		return this.scripts.has(scriptId) || this.versions.has(scriptId);
 	}
 
 	/**
-	 * Remove a script
+	 * Remove a script, or a single published version of it
 	 */
-	unregister(scriptId: string): boolean {
+	unregister(scriptId: string, version?: string): boolean {
+		if (version !== undefined) {
+			const published = this.versions.get(scriptId);
+			const deleted = published?.delete(version) ?? false;
+			if (published?.size === 0) this.versions.delete(scriptId);
+			return deleted;
+		}
+
 		const deleted = this.scripts.delete(scriptId);
-		
-		return deleted;
+		const deletedVersions = this.versions.delete(scriptId);
+
+		return deleted || deletedVersions;
 	}
 
 	/**
@@ -49,6 +144,7 @@ export class InMemoryScriptRegistry implements ScriptRegistry {
 	 */
 	clear(): void {
 		this.scripts.clear();
+		this.versions.clear();
 	}
 }
 
@@ -130,6 +226,22 @@ export class CompositeScriptRegistry implements ScriptRegistry {
 			)}`
 		);
 	}
+
+	async resolveVersioned(specifier: string): Promise<ResolvedScript> {
+		const errors: string[] = [];
+
+		for (let i = 0; i < this.registries.length; i++) {
+			try {
+				return await resolveScript(this.registries[i], specifier);
+			} catch (error: any) {
+				errors.push(`Registry ${i + 1}: ${error.message}`);
+			}
+		}
+
+		throw new Error(
+			`Script not found in any registry: ${specifier}. Errors: ${errors.join("; ")}`
+		);
+	}
 }
 
 /**
@@ -171,13 +283,54 @@ export class FileSystemScriptRegistry implements ScriptRegistry {
 			);
 		}
 	}
+
+	/**
+	 * Watch the scripts directory and report the ids of changed scripts.
+	 * Changes arriving within `debounceMs` of each other are reported together.
+	 * Returns a function that stops watching.
+	 */
+	async watch(
+		onChange: (scriptIds: string[]) => void,
+		debounceMs: number = 50
+	): Promise<() => void> {
+		const fs = await import("fs");
+		const changed = new Set<string>();
+		let timer: ReturnType<typeof setTimeout> | null = null;
+
+		const watcher = fs.watch(this.scriptsDirectory, (_event, filename) => {
+			if (!filename) return;
+			changed.add(filename.toString());
+
+			if (timer) clearTimeout(timer);
+			timer = setTimeout(() => {
+				timer = null;
+				const scriptIds = Array.from(changed);
+				changed.clear();
+				onChange(scriptIds);
+			}, debounceMs);
+		});
+
+		return () => {
+			if (timer) clearTimeout(timer);
+			watcher.close();
+		};
+	}
 }
 
 /**
  * Cached registry wrapper - adds caching to any registry
  */
 export class CachedScriptRegistry implements ScriptRegistry {
-	private cache = new Map<string, { content: string; timestamp: number }>();
+	private cache = new Map<
+		string,
+		{
+			content: string;
+			version?: string;
+			integrity?: string;
+			registry?: ScriptRegistry;
+			timestamp: number;
+		}
+	>();
 	private ttl: number;
 
 	constructor(private baseRegistry: ScriptRegistry, ttlMinutes: number = 5) {
@@ -185,21 +338,39 @@ export class CachedScriptRegistry implements ScriptRegistry {
 	}
 
 	async resolve(scriptId: string): Promise<string> {
+		return (await this.resolveVersioned(scriptId)).content;
+	}
+
+	async resolveVersioned(specifier: string): Promise<ResolvedScript> {
+		const { id } = parseSpecifier(specifier);
+
 		// Check cache first
-		const cached = this.cache.get(scriptId);
+		const cached = this.cache.get(specifier);
 		const now = Date.now();
 
 		if (cached && now - cached.timestamp < this.ttl) {
-			return cached.content;
+			return {
+				id,
+				version: cached.version,
+				content: cached.content,
+				integrity: cached.integrity,
+				registry: cached.registry,
+			};
 		}
 
 		// Not in cache or expired - fetch from base registry
-		const content = await this.baseRegistry.resolve(scriptId);
+		const resolved = await resolveScript(this.baseRegistry, specifier);
 
 		// Store in cache
-		this.cache.set(scriptId, { content, timestamp: now });
-
-		return content;
+		this.cache.set(specifier, {
+			content: resolved.content,
+			version: resolved.version,
+			integrity: resolved.integrity,
+			registry: resolved.registry,
+			timestamp: now,
+		});
+
+		return resolved;
 	}
 
 	/**
@@ -312,6 +483,10 @@ export class EnvironmentScriptRegistry implements ScriptRegistry {
 		return this.registry.resolve(scriptId);
 	}
 
+	async resolveVersioned(specifier: string): Promise<ResolvedScript> {
+		return resolveScript(this.registry, specifier);
+	}
+
 	/**
 	 * Switch environment
 	 */
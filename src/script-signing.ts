@@ -0,0 +1,173 @@
+// script-signing.ts
+/**
+ * Ed25519 signatures for script content. A signed script ends with one comment
+ * line naming the signing key and carrying the signature of everything above it:
+ *
+ *   // @synthase-signature <keyId> <base64 signature>
+ *
+ * Signed scripts therefore still run unchanged and travel through any registry.
+ * Keys are generated and used locally with Web Crypto; nothing is fetched.
+ */
+
+/**
+ * A locally generated Ed25519 keypair, base64 encoded
+ */
+export interface SigningKeyPair {
+	publicKey: string; // Raw 32-byte public key
+	privateKey: string; // PKCS#8 private key - keep it secret
+}
+
+export interface ScriptSignature {
+	keyId: string;
+	signature: string; // Base64 Ed25519 signature of the script body
+}
+
+/**
+ * Result of checking a script against a set of trusted keys:
+ * - "valid": signed by a trusted key and unmodified
+ * - "unsigned": no signature line
+ * - "untrusted": signed by a key that is not in the trusted set
+ * - "invalid": signed by a trusted key, but the signature does not match
+ */
+export interface SignatureVerification {
+	status: "valid" | "unsigned" | "untrusted" | "invalid";
+	keyId?: string;
+}
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9._-]+$/;
+const SIGNATURE_PATTERN =
+	/(^|\n)\/\/ @synthase-signature ([A-Za-z0-9._-]+) ([A-Za-z0-9+/]+={0,2})[ \t]*\n?$/;
+
+/**
+ * Generate a new Ed25519 keypair for signing scripts
+ */
+export async function generateSigningKeyPair(): Promise<SigningKeyPair> {
+	const keyPair = (await crypto.subtle.generateKey({ name: "Ed25519" }, true, [
+		"sign",
+		"verify",
+	])) as CryptoKeyPair;
+
+	return {
+		publicKey: toBase64(
+			await crypto.subtle.exportKey("raw", keyPair.publicKey)
+		),
+		privateKey: toBase64(
+			await crypto.subtle.exportKey("pkcs8", keyPair.privateKey)
+		),
+	};
+}
+
+/**
+ * Split a script into its signed body and signature line, if any
+ */
+export function parseScriptSignature(content: string): {
+	body: string;
+	signature?: ScriptSignature;
+} {
+	const match = SIGNATURE_PATTERN.exec(content);
+	if (!match) return { body: content };
+
+	return {
+		body: content.slice(0, match.index + match[1].length),
+		signature: { keyId: match[2], signature: match[3] },
+	};
+}
+
+/**
+ * Sign a script, replacing any existing signature line
+ */
+export async function signScript(
+	content: string,
+	privateKey: string,
+	keyId: string
+): Promise<string> {
+	if (!KEY_ID_PATTERN.test(keyId)) {
+		throw new Error(
+			`Invalid key id: ${keyId} (use letters, digits, ".", "_" or "-")`
+		);
+	}
+
+	const { body } = parseScriptSignature(content);
+	const payload = body.endsWith("\n") || body === "" ? body : `${body}\n`;
+
+	let key: CryptoKey;
+	try {
+		key = await crypto.subtle.importKey(
+			"pkcs8",
+			fromBase64(privateKey),
+			{ name: "Ed25519" },
+			false,
+			["sign"]
+		);
+	} catch {
+		throw new Error(
+			"Invalid private key: expected a base64 Ed25519 PKCS#8 key"
+		);
+	}
+
+	const signature = await crypto.subtle.sign(
+		"Ed25519",
+		key,
+		new TextEncoder().encode(payload)
+	);
+	return `${payload}// @synthase-signature ${keyId} ${toBase64(signature)}\n`;
+}
+
+/**
+ * Check a script's signature against trusted public keys, keyed by key id
+ */
+export async function verifyScriptSignature(
+	content: string,
+	trustedKeys: Record<string, string>
+): Promise<SignatureVerification> {
+	const { body, signature } = parseScriptSignature(content);
+	if (!signature) return { status: "unsigned" };
+
+	const { keyId } = signature;
+	const publicKey = Object.prototype.hasOwnProperty.call(trustedKeys, keyId)
+		? trustedKeys[keyId]
+		: undefined;
+	if (publicKey === undefined) return { status: "untrusted", keyId };
+
+	let key: CryptoKey;
+	try {
+		key = await crypto.subtle.importKey(
+			"raw",
+			fromBase64(publicKey),
+			{ name: "Ed25519" },
+			false,
+			["verify"]
+		);
+	} catch {
+		throw new Error(
+			`Invalid public key for ${keyId}: expected a base64 Ed25519 key`
+		);
+	}
+
+	const valid = await crypto.subtle
+		.verify(
+			"Ed25519",
+			key,
+			fromBase64(signature.signature),
+			new TextEncoder().encode(body)
+		)
+		.catch(() => false); // Malformed signature bytes
+	return { status: valid ? "valid" : "invalid", keyId };
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+	let binary = "";
+	for (const byte of new Uint8Array(buffer)) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+	const binary = atob(text.trim());
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return bytes;
+}
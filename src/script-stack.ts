@@ -0,0 +1,168 @@
+// script-stack.ts
+/**
+ * Map stack traces of compiled scripts back to script ids and source lines.
+ * Scripts run from blob: or data: URLs, so each frame is looked up by URL.
+ */
+
+export interface ScriptStackFrame {
+	scriptId: string;
+	line: number; // 1-based
+	column: number; // 1-based
+	functionName?: string;
+}
+
+export interface ScriptSource {
+	scriptId: string;
+	content: string;
+	columnShifts?: ColumnShift[]; // Code inserted when compiling, e.g. operation ticks
+}
+
+/**
+ * Code inserted within a line of a script. Insertions never add lines, so
+ * only columns after them differ from the script's own.
+ */
+export interface ColumnShift {
+	line: number; // 1-based
+	column: number; // 0-based offset in the original line
+	length: number;
+}
+
+/**
+ * Where a script failed: the innermost script frame, its code frame excerpt
+ * and every script frame of the stack, innermost first
+ */
+export interface ScriptErrorLocation {
+	scriptId: string;
+	line: number;
+	column: number;
+	codeFrame: string;
+	frames: ScriptStackFrame[];
+}
+
+// "    at name (url:line:column)" or "    at url:line:column"
+const FRAME_PATTERN = /^\s*at (?:(.+?) \()?(.+):(\d+):(\d+)\)?$/;
+
+/**
+ * Find the frames of a stack trace that belong to known scripts
+ */
+export function parseScriptStack(
+	stack: string,
+	sourceFor: (url: string) => ScriptSource | undefined
+): ScriptStackFrame[] {
+	const frames: ScriptStackFrame[] = [];
+
+	for (const text of stack.split("\n")) {
+		const match = FRAME_PATTERN.exec(text);
+		if (!match) continue;
+
+		const source = sourceFor(match[2]);
+		if (!source) continue;
+
+		const functionName = match[1]?.replace(/^async /, "");
+		const line = Number(match[3]);
+		frames.push({
+			scriptId: source.scriptId,
+			line,
+			column: originalColumn(source.columnShifts, line, Number(match[4])),
+			...(functionName ? { functionName } : {}),
+		});
+	}
+
+	return frames;
+}
+
+/**
+ * Map a 1-based column of compiled code back to the script. Columns within
+ * inserted code map to the script code that follows it.
+ */
+export function originalColumn(
+	shifts: ColumnShift[] | undefined,
+	line: number,
+	column: number
+): number {
+	let shifted = 0;
+	for (const shift of shifts ?? []) {
+		if (shift.line !== line) continue;
+		const start = shift.column + shifted; // 0-based in compiled code
+		if (column - 1 < start) break;
+		if (column - 1 < start + shift.length) return shift.column + 1;
+		shifted += shift.length;
+	}
+	return column - shifted;
+}
+
+/**
+ * Locate a failure in script source, or return undefined when no frame of the
+ * stack belongs to a known script
+ */
+export function locateScriptError(
+	stack: string,
+	sourceFor: (url: string) => ScriptSource | undefined
+): ScriptErrorLocation | undefined {
+	const contents = new Map<string, string>();
+	const frames = parseScriptStack(stack, (url) => {
+		const source = sourceFor(url);
+		if (source) contents.set(source.scriptId, source.content);
+		return source;
+	});
+	if (frames.length === 0) return undefined;
+
+	const [{ scriptId, line, column }] = frames;
+	return {
+		scriptId,
+		line,
+		column,
+		codeFrame: formatCodeFrame(contents.get(scriptId)!, line, column),
+		frames,
+	};
+}
+
+/**
+ * Excerpt of the source around a line, with the column marked:
+ *
+ *     3 |   const a = 1;
+ *   > 4 |   helper();
+ *       |   ^
+ *     5 | }
+ */
+export function formatCodeFrame(
+	content: string,
+	line: number,
+	column: number,
+	contextLines: number = 2
+): string {
+	const lines = content.split("\n");
+	const first = Math.max(1, line - contextLines);
+	const last = Math.min(lines.length, line + contextLines);
+	const width = String(last).length;
+
+	const excerpt: string[] = [];
+	for (let number = first; number <= last; number++) {
+		const gutter = String(number).padStart(width);
+		const text = lines[number - 1].replace(/\s+$/, "");
+		excerpt.push(`${number === line ? ">" : " "} ${gutter} | ${text}`);
+		if (number === line) {
+			const indent = lines[number - 1]
+				.slice(0, Math.max(0, column - 1))
+				.replace(/[^\t]/g, " ");
+			excerpt.push(`  ${" ".repeat(width)} | ${indent}^`);
+		}
+	}
+	return excerpt.join("\n");
+}
+
+/**
+ * Render script frames like a regular stack trace, using script ids as file names
+ */
+export function formatScriptStack(
+	name: string,
+	message: string,
+	frames: ScriptStackFrame[]
+): string {
+	const lines = frames.map(({ scriptId, line, column, functionName }) =>
+		functionName
+			? `    at ${functionName} (${scriptId}:${line}:${column})`
+			: `    at ${scriptId}:${line}:${column}`
+	);
+	return [`${name}: ${message}`, ...lines].join("\n");
+}
@@ -1,8 +1,40 @@
 // script-validator.ts
+import {
+	ParameterUtils,
+	type ScriptValidatorConfig,
+	type ValidationFinding,
+	type ValidationMode,
+} from "./types";
+import {
+	AstScriptAnalyzer,
+	RESERVED_IDENTIFIER_MESSAGE,
+} from "./ast-script-analyzer";
+import { silentLogger, type SynthaseLogger } from "./logger";
+import { RESERVED_IDENTIFIER_PREFIX } from "./script-instrumentation";
+
+/**
+ * Version of the validation rules. Bump it whenever a rule changes, so results
+ * stored by older rules are not reused.
+ */
+export const VALIDATION_RULES_VERSION = 2;
+
 /**
  * Validates script content for safety and correctness
  */
 export class ScriptValidator {
+	private readonly mode: ValidationMode = "regex";
+	private astAnalyzer = new AstScriptAnalyzer();
+	private readonly logger: SynthaseLogger = silentLogger;
+
+	constructor(options?: ScriptValidatorConfig & { logger?: SynthaseLogger }) {
+		if (options?.mode) {
+			this.mode = options.mode;
+		}
+		if (options?.logger) {
+			this.logger = options.logger;
+		}
+	}
+
 	private dangerousPatterns = [
 		// Infinite loops
 		{
@@ -193,20 +225,29 @@ export class ScriptValidator {
 	}
 
 	/**
-	 * Validate script content
+	 * Validate script content. Modules pulled in through static `synthase:`
+	 * imports are checked like scripts but need no io or default export.
 	 */
-	validateScript(content: string): {
+	validateScript(
+		content: string,
+		kind: "script" | "module" = "script"
+	): {
 		valid: boolean;
 		errors: string[];
 		warnings: string[];
+		findings?: ValidationFinding[];
 	} {
+		if (this.mode === "ast") {
+			return this.validateScriptAST(content, kind);
+		}
+
 		const errors: string[] = [];
 		const warnings: string[] = [];
 
 		const strippedContent = this.stripComments(content);
 		const maskedContent = this.maskStrings(strippedContent);
 
-		for (const required of this.requiredPatterns) {
+		for (const required of kind === "script" ? this.requiredPatterns : []) {
 			if (!required.pattern.test(strippedContent)) {
 				errors.push(required.message);
 			}
@@ -218,6 +259,8 @@ export class ScriptValidator {
 			}
 		}
 
+		errors.push(...this.checkReservedIdentifiers(content, maskedContent));
+
 		this.validateStructure(content, errors, warnings);
 
 		this.validateIOSchema(strippedContent, errors, warnings);
@@ -229,6 +272,76 @@ export class ScriptValidator {
 		};
 	}
 
+	/**
+	 * Check that content does not use names reserved for instrumented code.
+	 * Cheap enough to run again on content whose full validation results were
+	 * loaded from a cache store.
+	 */
+	checkReservedIdentifiers(
+		content: string,
+		maskedContent = this.maskStrings(this.stripComments(content))
+	): string[] {
+		// Parsed, so names spelled with unicode escapes are caught as well
+		const reserved =
+			this.astAnalyzer.usesReservedIdentifier(content) ??
+			maskedContent.includes(RESERVED_IDENTIFIER_PREFIX);
+		return reserved ? [RESERVED_IDENTIFIER_MESSAGE] : [];
+	}
+
+	/**
+	 * Validate script content by walking its syntax tree
+	 */
+	private validateScriptAST(
+		content: string,
+		kind: "script" | "module"
+	): {
+		valid: boolean;
+		errors: string[];
+		warnings: string[];
+		findings: ValidationFinding[];
+	} {
+		const errors: string[] = [];
+		const warnings: string[] = [];
+		const analysis = this.astAnalyzer.analyze(content);
+
+		const findings = analysis.syntaxError
+			? [analysis.syntaxError]
+			: analysis.findings;
+
+		if (!analysis.syntaxError && kind === "script") {
+			if (!analysis.hasIoExport) {
+				errors.push("Missing required 'export const io = ...' declaration");
+			}
+			if (!analysis.hasDefaultExport) {
+				errors.push("Missing required 'export default function' declaration");
+			}
+		}
+
+		for (const finding of findings) {
+			errors.push(
+				`${finding.message} (line ${finding.line}, column ${finding.column})`
+			);
+		}
+
+		if (!analysis.syntaxError) {
+			this.collectStyleWarnings(content, warnings);
+
+			// The schema is built from literal nodes; script code is never evaluated
+			if (analysis.ioError) {
+				errors.push(`Invalid IO schema: ${analysis.ioError}`);
+			} else if (analysis.hasIoExport) {
+				this.validateIOSchemaValue(analysis.io, errors, warnings);
+			}
+		}
+
+		return {
+			valid: errors.length === 0,
+			errors,
+			warnings,
+			findings,
+		};
+	}
+
 	/**
 	 * Validate script structure
 	 */
@@ -252,6 +365,13 @@ export class ScriptValidator {
 			errors.push("Unmatched braces detected");
 		}
 
+		this.collectStyleWarnings(content, warnings);
+	}
+
+	/**
+	 * Warn about minified, deeply nested or oversized code
+	 */
+	private collectStyleWarnings(content: string, warnings: string[]): void {
 		const lines = content.split("\n");
 		for (let i = 0; i < lines.length; i++) {
 			if (lines[i].length > 1000) {
@@ -372,9 +492,38 @@ export class ScriptValidator {
 				: content.match(/export\s+const\s+io\s*=\s*(\{[\s\S]*?\})/)?.[1];
 			if (!ioText) return;
 
-			// DANGEROUS: but it's the whole point of this project
-			const ioSchema = (0, eval)(`(${ioText})`);
+			this.validateIOSchemaText(ioText, errors, warnings);
+		} catch (ioError: any) {
+			errors.push(`Invalid IO schema: ${ioError.message}`);
+		}
+	}
+
+	/**
+	 * Read the source of an IO schema object literal and validate it
+	 */
+	private validateIOSchemaText(
+		ioText: string,
+		errors: string[],
+		warnings: string[]
+	): void {
+		try {
+			// Built from the literal's nodes, so no script code runs in the host
+			const ioSchema = this.astAnalyzer.literalFromSource(ioText);
+			this.validateIOSchemaValue(ioSchema, errors, warnings);
+		} catch (ioError: any) {
+			errors.push(`Invalid IO schema: ${ioError.message}`);
+		}
+	}
 
+	/**
+	 * Validate an IO schema value
+	 */
+	private validateIOSchemaValue(
+		ioSchema: any,
+		errors: string[],
+		warnings: string[]
+	): void {
+		try {
 			if (typeof ioSchema !== "object" || ioSchema === null) {
 				errors.push("IO schema must be an object");
 				return;
@@ -419,24 +568,9 @@ export class ScriptValidator {
 		errors: string[],
 		warnings: string[]
 	): void {
-		const validTypes = [
-			"int",
-			"integer", // Allow both int and integer
-			"float",
-			"number", // Allow both float and number
-			"string",
-			"text", // Allow both string and text
-			"boolean",
-			"bool", // Allow both boolean and bool
-			"object",
-			"array",
-			"file", // NEW: File input support
-			"BlockId", // Keep existing custom type
-		];
-
 		for (const [key, param] of Object.entries(params)) {
 			if (typeof param === "string") {
-				if (!validTypes.includes(param)) {
+				if (!ParameterUtils.isKnownType(param)) {
 					errors.push(
 						`Invalid parameter type '${param}' for ${section}.${key}`
 					);
@@ -444,7 +578,7 @@ export class ScriptValidator {
 			} else if (typeof param === "object" && param !== null) {
 				const paramObj = param as any;
 
-				if (!paramObj.type || !validTypes.includes(paramObj.type)) {
+				if (!paramObj.type || !ParameterUtils.isKnownType(paramObj.type)) {
 					errors.push(
 						`Invalid parameter type '${
 							paramObj.type || "undefined"
@@ -505,6 +639,43 @@ export class ScriptValidator {
 					}
 				}
 
+				// BlockId format override must be a usable regular expression
+				if (paramObj.type === "BlockId" && paramObj.format !== undefined) {
+					try {
+						new RegExp(paramObj.format);
+					} catch {
+						errors.push(
+							`Invalid format for ${section}.${key}: not a regular expression`
+						);
+					}
+				}
+
+				// Nested object fields and typed array items
+				if (paramObj.properties !== undefined) {
+					if (
+						typeof paramObj.properties !== "object" ||
+						paramObj.properties === null ||
+						Array.isArray(paramObj.properties)
+					) {
+						errors.push(`Properties for ${section}.${key} must be an object`);
+					} else {
+						this.validateParameterDefinitions(
+							paramObj.properties,
+							`${section}.${key}`,
+							errors,
+							warnings
+						);
+					}
+				}
+				if (paramObj.items !== undefined) {
+					this.validateParameterDefinitions(
+						{ [`${key}[]`]: paramObj.items },
+						section,
+						errors,
+						warnings
+					);
+				}
+
 				// NEW: Basic conditional dependency validation
 				if (paramObj.dependsOn && typeof paramObj.dependsOn === "object") {
 					const allInputKeys = Object.keys(params);
@@ -640,7 +811,7 @@ export class ScriptValidator {
 	 */
 	addDangerousPattern(pattern: RegExp, message: string): void {
 		this.dangerousPatterns.push({ pattern, message });
-		console.log(`⚠️ Added dangerous pattern: ${message}`);
+		this.logger.debug("Added dangerous pattern", { message });
 	}
 
 	/**
@@ -652,7 +823,7 @@ export class ScriptValidator {
 		);
 		if (index >= 0) {
 			this.dangerousPatterns.splice(index, 1);
-			console.log(`✅ Removed dangerous pattern: ${message}`);
+			this.logger.debug("Removed dangerous pattern", { message });
 		}
 	}
 }
\ No newline at end of file
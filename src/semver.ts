@@ -0,0 +1,276 @@
+// semver.ts
+/**
+ * Minimal semantic versioning support for versioned script registries.
+ * Ranges support exact versions, comparators (>, >=, <, <=, =), caret (^),
+ * tilde (~), x-ranges (1.x, 1.2.*, *), hyphen ranges (1.0 - 2.0) and `||`.
+ */
+
+export interface SemVer {
+	major: number;
+	minor: number;
+	patch: number;
+	prerelease: string[];
+}
+
+/**
+ * A script id with an optional version or range, e.g. "noise@^1.2"
+ */
+export interface ScriptSpecifier {
+	id: string;
+	range?: string;
+}
+
+interface Comparator {
+	operator: "<" | "<=" | ">" | ">=" | "=";
+	version: SemVer;
+}
+
+const VERSION_PATTERN =
+	/^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+const PARTIAL_PATTERN =
+	/^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/;
+
+/**
+ * Split "noise@^1.2" into id and range. A leading "@" belongs to the id.
+ */
+export function parseSpecifier(specifier: string): ScriptSpecifier {
+	const at = specifier.lastIndexOf("@");
+	if (at <= 0) return { id: specifier };
+
+	const range = specifier.slice(at + 1).trim();
+	return { id: specifier.slice(0, at), range: range || undefined };
+}
+
+/**
+ * Join an id and version back into a specifier
+ */
+export function formatSpecifier(id: string, version?: string): string {
+	return version ? `${id}@${version}` : id;
+}
+
+/**
+ * Parse a full version such as "1.2.3" or "2.0.0-beta.1"
+ */
+export function parseVersion(version: string): SemVer | null {
+	const match = VERSION_PATTERN.exec(version.trim());
+	if (!match) return null;
+
+	return {
+		major: Number(match[1]),
+		minor: Number(match[2]),
+		patch: Number(match[3]),
+		prerelease: match[4] ? match[4].split(".") : [],
+	};
+}
+
+/**
+ * Whether a string is a valid full version
+ */
+export function isValidVersion(version: string): boolean {
+	return parseVersion(version) !== null;
+}
+
+/**
+ * Compare two versions: negative if a < b, positive if a > b, 0 if equal
+ */
+export function compareVersions(
+	a: string | SemVer,
+	b: string | SemVer
+): number {
+	const left = typeof a === "string" ? parseVersion(a) : a;
+	const right = typeof b === "string" ? parseVersion(b) : b;
+	if (!left || !right) {
+		throw new Error(`Invalid version: ${!left ? a : b}`);
+	}
+
+	return (
+		left.major - right.major ||
+		left.minor - right.minor ||
+		left.patch - right.patch ||
+		comparePrerelease(left.prerelease, right.prerelease)
+	);
+}
+
+/**
+ * Whether a version satisfies a range. Prereleases only match comparators
+ * that name a prerelease of the same major.minor.patch.
+ */
+export function satisfies(version: string, range: string): boolean {
+	const parsed = parseVersion(version);
+	if (!parsed) return false;
+
+	return parseRange(range).some((comparators) => {
+		if (!comparators.every((comparator) => test(parsed, comparator))) {
+			return false;
+		}
+		if (parsed.prerelease.length === 0) return true;
+
+		return comparators.some(
+			({ version: bound }) =>
+				bound.prerelease.length > 0 &&
+				bound.major === parsed.major &&
+				bound.minor === parsed.minor &&
+				bound.patch === parsed.patch
+		);
+	});
+}
+
+/**
+ * Highest version satisfying the range, if any
+ */
+export function maxSatisfying(
+	versions: string[],
+	range: string
+): string | undefined {
+	return versions
+		.filter((version) => satisfies(version, range))
+		.sort(compareVersions)
+		.pop();
+}
+
+/**
+ * Whether a range string can be parsed
+ */
+export function isValidRange(range: string): boolean {
+	try {
+		parseRange(range);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+function comparePrerelease(a: string[], b: string[]): number {
+	// A release sorts after any of its prereleases
+	if (a.length === 0 || b.length === 0) return b.length - a.length;
+
+	for (let i = 0; i < Math.max(a.length, b.length); i++) {
+		if (a[i] === undefined) return -1;
+		if (b[i] === undefined) return 1;
+		if (a[i] === b[i]) continue;
+
+		const left = /^\d+$/.test(a[i]) ? Number(a[i]) : NaN;
+		const right = /^\d+$/.test(b[i]) ? Number(b[i]) : NaN;
+		if (!isNaN(left) && !isNaN(right)) return left - right;
+		if (!isNaN(left)) return -1;
+		if (!isNaN(right)) return 1;
+		return a[i] < b[i] ? -1 : 1;
+	}
+	return 0;
+}
+
+function test(version: SemVer, { operator, version: bound }: Comparator) {
+	const order = compareVersions(version, bound);
+	switch (operator) {
+		case "<":
+			return order < 0;
+		case "<=":
+			return order <= 0;
+		case ">":
+			return order > 0;
+		case ">=":
+			return order >= 0;
+		default:
+			return order === 0;
+	}
+}
+
+/**
+ * Parse a range into alternatives (`||`) of comparator sets that must all hold
+ */
+function parseRange(range: string): Comparator[][] {
+	return range.split("||").map((alternative) => {
+		const text = alternative.trim();
+		const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(text);
+		if (hyphen) {
+			return [...expand(">=", hyphen[1]), ...expand("", hyphen[2], true)];
+		}
+
+		const tokens = text
+			.replace(/(<=|>=|<|>|=|\^|~)\s+/g, "$1")
+			.split(/\s+/)
+			.filter(Boolean);
+		if (tokens.length === 0) return [];
+
+		return tokens.flatMap((token) => {
+			const match = /^(<=|>=|<|>|=|\^|~)?(.+)$/.exec(token)!;
+			return expand(match[1] || "", match[2]);
+		});
+	});
+}
+
+/**
+ * Expand one operator and partial version into plain comparators
+ */
+function expand(
+	operator: string,
+	text: string,
+	upperBound = false
+): Comparator[] {
+	if (text === "latest") return [];
+
+	const match = PARTIAL_PATTERN.exec(text);
+	if (!match) throw new Error(`Invalid version range: ${text}`);
+
+	const isWild = (part?: string) => part === undefined || /^[xX*]$/.test(part);
+	const major = isWild(match[1]) ? undefined : Number(match[1]);
+	const minor = isWild(match[2]) ? undefined : Number(match[2]);
+	const patch = isWild(match[3]) ? undefined : Number(match[3]);
+	const prerelease = match[4] ? match[4].split(".") : [];
+	const at = (maj: number, min = 0, pat = 0, pre: string[] = []): SemVer => ({
+		major: maj,
+		minor: min,
+		patch: pat,
+		prerelease: pre,
+	});
+
+	if (major === undefined) {
+		return operator === "<" || operator === ">"
+			? [{ operator: "<", version: at(0) }]
+			: [];
+	}
+
+	const lower = at(major, minor, patch, prerelease);
+	const nextMinor = at(major, (minor ?? 0) + 1, 0, ["0"]);
+	const nextMajor = at(major + 1, 0, 0, ["0"]);
+	const partialUpper = minor === undefined ? nextMajor : nextMinor;
+
+	switch (operator) {
+		case "^": {
+			let upper: SemVer;
+			if (major > 0 || minor === undefined) upper = nextMajor;
+			else if (minor > 0 || patch === undefined) upper = nextMinor;
+			else upper = at(0, 0, patch + 1, ["0"]);
+			return [
+				{ operator: ">=", version: lower },
+				{ operator: "<", version: upper },
+			];
+		}
+		case "~":
+			return [
+				{ operator: ">=", version: lower },
+				{ operator: "<", version: partialUpper },
+			];
+		case ">":
+			return patch === undefined
+				? [{ operator: ">=", version: partialUpper }]
+				: [{ operator: ">", version: lower }];
+		case "<=":
+			return patch === undefined
+				? [{ operator: "<", version: partialUpper }]
+				: [{ operator: "<=", version: lower }];
+		case "<":
+		case ">=":
+			return [{ operator, version: lower }];
+		default:
+			if (patch !== undefined) {
+				return [{ operator: upperBound ? "<=" : "=", version: lower }];
+			}
+			if (upperBound) return [{ operator: "<", version: partialUpper }];
+			return [
+				{ operator: ">=", version: lower },
+				{ operator: "<", version: partialUpper },
+			];
+	}
+}
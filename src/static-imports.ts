@@ -0,0 +1,93 @@
+// static-imports.ts
+import { parse } from "acorn";
+
+/**
+ * Scheme marking static imports that resolve through the script registry,
+ * e.g. `import { fbm } from "synthase:geometry/noise@^1.0"`
+ */
+export const STATIC_IMPORT_SCHEME = "synthase:";
+
+export interface StaticImport {
+	specifier: string; // Registry specifier without the scheme
+	start: number; // Offsets of the string literal, quotes included
+	end: number;
+}
+
+/**
+ * Find `synthase:` specifiers in import and re-export declarations and in
+ * `import()` calls with a literal argument. Scripts that do not parse have no
+ * static imports; the validator reports their syntax errors.
+ */
+export function findStaticImports(content: string): StaticImport[] {
+	if (!content.includes(STATIC_IMPORT_SCHEME)) return [];
+
+	let program: any;
+	try {
+		program = parse(content, { ecmaVersion: "latest", sourceType: "module" });
+	} catch {
+		return [];
+	}
+
+	const imports: StaticImport[] = [];
+	const visit = (node: any) => {
+		if (!node || typeof node.type !== "string") return;
+
+		const isImport =
+			node.type === "ImportDeclaration" ||
+			node.type === "ImportExpression" ||
+			node.type === "ExportAllDeclaration" ||
+			node.type === "ExportNamedDeclaration";
+		const source = isImport ? node.source : null;
+		if (
+			source?.type === "Literal" &&
+			typeof source.value === "string" &&
+			source.value.startsWith(STATIC_IMPORT_SCHEME)
+		) {
+			imports.push({
+				specifier: source.value.slice(STATIC_IMPORT_SCHEME.length),
+				start: source.start,
+				end: source.end,
+			});
+		}
+
+		for (const value of Object.values(node)) {
+			if (Array.isArray(value)) value.forEach(visit);
+			else if (value && typeof value === "object") visit(value);
+		}
+	};
+	visit(program);
+
+	return imports.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Replace each static import specifier with the module URL returned for it.
+ * Specifiers are resolved one at a time, in source order.
+ */
+export async function rewriteStaticImports(
+	content: string,
+	imports: StaticImport[],
+	urlFor: (specifier: string) => Promise<string>
+): Promise<string> {
+	let rewritten = "";
+	let offset = 0;
+
+	for (const { specifier, start, end } of imports) {
+		rewritten += content.slice(offset, start);
+		rewritten += JSON.stringify(await urlFor(specifier));
+		offset = end;
+	}
+
+	return rewritten + content.slice(offset);
+}
+
+/**
+ * A self-contained data: URL for module source, importable from worker threads
+ */
+export function toModuleDataUrl(content: string): string {
+	let binary = "";
+	for (const byte of new TextEncoder().encode(content)) {
+		binary += String.fromCharCode(byte);
+	}
+	return `data:text/javascript;base64,${btoa(binary)}`;
+}
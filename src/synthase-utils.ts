@@ -1,9 +1,13 @@
 // synthase-utils.ts
 import { Synthase } from "./synthase";
+import { silentLogger } from "./logger";
+import { InputValidationError, ValidationError } from "./errors";
+import type { FileSystemScriptRegistry } from "./script-registry";
 import type {
 	ScriptContentResolver,
 	SynthaseConfig,
 	ParameterSpec,
+	CallOptions,
 } from "./types";
 
 /**
@@ -11,6 +15,23 @@ import type {
  */
 export interface QuickExecuteOptions extends SynthaseConfig {
 	strict?: boolean; // Whether to throw on validation warnings
+	signal?: AbortSignal; // Aborts the execution
+	detailed?: boolean; // Resolve with an ExecutionResult instead of the raw outputs
+}
+
+/**
+ * Reusable script instance returned by createReusable. Pass the interfaces
+ * generated by `synthase types` as Inputs and Outputs to type `execute`.
+ */
+export interface ReusableScript<
+	Inputs extends Record<string, any> = Record<string, any>,
+	Outputs = any,
+> {
+	synthase: Synthase;
+	execute: (inputs: Inputs, callOptions?: CallOptions) => Promise<Outputs>;
+	getIO: () => any;
+	getDependencies: () => string[];
+	dispose: () => void;
 }
 
 /**
@@ -22,7 +43,8 @@ export async function execute(
 	inputs: Record<string, any>,
 	options: QuickExecuteOptions = {}
 ): Promise<any> {
-	console.log("🚀 Quick execute: creating Synthase and running script");
+	const logger = options.logger ?? silentLogger;
+	logger.debug("Quick execute: creating Synthase and running script");
 
 	// Create Synthase instance with new config structure
 	const synthase = new Synthase(scriptContentOrResolver, options);
@@ -34,12 +56,15 @@ export async function execute(
 
 	try {
 		// Execute the script
-		const result = await synthase.call(inputs);
+		const callOptions = { signal: options.signal };
+		const result = options.detailed
+			? await synthase.callDetailed(inputs, callOptions)
+			: await synthase.call(inputs, callOptions);
 
-		console.log("✅ Quick execute completed successfully");
+		logger.debug("Quick execute completed successfully");
 		return result;
 	} catch (error: any) {
-		console.error("❌ Quick execute failed:", error.message);
+		logger.error("Quick execute failed", { error: error.message });
 		throw error;
 	} finally {
 		// Clean up resources
@@ -59,7 +84,8 @@ export async function validate(
 	dependencies: string[];
 	errors?: string[];
 }> {
-	console.log("🔍 Validating script");
+	const logger = options.logger ?? silentLogger;
+	logger.debug("Validating script");
 
 	const synthase = new Synthase(scriptContentOrResolver, options);
 
@@ -71,14 +97,14 @@ export async function validate(
 		const io = synthase.getIO();
 		const dependencies = synthase.getDependencies();
 
-		console.log("✅ Script validation completed");
+		logger.debug("Script validation completed");
 		return {
 			valid: true,
 			io,
 			dependencies,
 		};
 	} catch (error: any) {
-		console.log("❌ Script validation failed:", error.message);
+		logger.debug("Script validation failed", { error: error.message });
 		return {
 			valid: false,
 			io: null,
@@ -98,8 +124,10 @@ export async function executeWithValidation(
 	inputs: Record<string, any>,
 	options: QuickExecuteOptions = {}
 ): Promise<any> {
-	console.log("🔍 Execute with validation: validating script first");
-	console.log("🔍 Inputs received:", inputs);
+	const logger = options.logger ?? silentLogger;
+	logger.debug("Execute with validation: validating script first", {
+		inputs,
+	});
 
 	const synthase = new Synthase(scriptContentOrResolver, options);
 
@@ -111,35 +139,36 @@ export async function executeWithValidation(
 		await synthase.waitForInitialization();
 
 		const io = synthase.getIO();
-		console.log("🔍 IO Schema:", JSON.stringify(io, null, 2));
+		logger.debug("IO schema loaded", { io });
 
 		if (!io) {
-			throw new Error("No IO schema found in script");
+			throw new ValidationError("No IO schema found in script", {
+				errors: ["No IO schema found in script"],
+			});
 		}
 
+		let inputsWithDefaults: Record<string, any>;
 		try {
 			const { ParameterUtils } = await import("./types");
 
-			const inputsWithDefaults = ParameterUtils.applyDefaults(
-				inputs,
+			inputsWithDefaults = ParameterUtils.applyDefaults(
+				await ParameterUtils.readFileInputs(inputs, io.inputs),
 				io.inputs
 			);
 
-			console.log("🔍 Inputs with defaults:", inputsWithDefaults);
+			logger.debug("Inputs with defaults applied", {
+				inputs: inputsWithDefaults,
+			});
 
 			// Check for missing required inputs first
 			for (const [key, spec] of Object.entries(io.inputs)) {
 				const paramSpec = spec as ParameterSpec;
 
-				console.log(`🔍 Checking parameter: ${key}`, paramSpec);
-
 				// Skip conditional parameters that shouldn't be shown
 				const shouldShow = ParameterUtils.shouldShowParameter(
 					paramSpec,
 					inputsWithDefaults
 				);
-				console.log(`🔍 Should show parameter ${key}:`, shouldShow);
-
 				if (!shouldShow) continue;
 
 				// Check if parameter is required (no default value) and missing
@@ -149,13 +178,16 @@ export async function executeWithValidation(
 					"default" in paramSpec;
 				const isPresent = key in inputsWithDefaults;
 
-				console.log(
-					`🔍 Parameter ${key}: hasDefault=${hasDefault}, isPresent=${isPresent}`
-				);
+				logger.debug("Checking parameter", {
+					parameter: key,
+					hasDefault,
+					isPresent,
+				});
 
 				if (!isPresent && !hasDefault) {
-					console.log(`🔍 Missing required input detected: ${key}`);
-					throw new Error(`Missing required input: ${key}`);
+					throw new InputValidationError(`Missing required input: ${key}`, {
+						parameter: key,
+					});
 				}
 
 				// Validate parameter value if present
@@ -163,23 +195,29 @@ export async function executeWithValidation(
 					ParameterUtils.validateParameter(
 						inputsWithDefaults[key],
 						paramSpec,
-						key
+						key,
+						{ blockIdFormat: options.blockIdFormat }
 					);
 				}
 			}
 
-			console.log(
-				"✅ Input validation passed - this should not happen for missing required inputs"
-			);
-			const result = await synthase.call(inputsWithDefaults);
-			console.log("✅ Execute with validation completed successfully");
-			return result;
+			logger.debug("Input validation passed");
 		} catch (error: any) {
-			console.log("🔍 Validation error caught:", error.message);
-			throw new Error(`Input validation failed: ${error.message}`);
+			logger.debug("Input validation failed", { error: error.message });
+			throw new InputValidationError(
+				`Input validation failed: ${error.message}`,
+				{ parameter: error.details?.parameter },
+				error
+			);
 		}
+
+		const result = await synthase.call(inputsWithDefaults, {
+			signal: options.signal,
+		});
+		logger.debug("Execute with validation completed successfully");
+		return result;
 	} catch (error: any) {
-		console.error("❌ Execute with validation failed:", error.message);
+		logger.error("Execute with validation failed", { error: error.message });
 		throw error;
 	} finally {
 		synthase.dispose();
@@ -203,7 +241,8 @@ export async function executeBatch(
 		error?: string;
 	}>
 > {
-	console.log(`🚀 Batch execute: running ${scripts.length} scripts`);
+	const logger = options.logger ?? silentLogger;
+	logger.debug("Batch execute: running scripts", { count: scripts.length });
 
 	const results = [];
 
@@ -212,9 +251,11 @@ export async function executeBatch(
 		const scriptId = script.id || `script-${i}`;
 
 		try {
-			console.log(
-				`📝 Executing batch script ${i + 1}/${scripts.length}: ${scriptId}`
-			);
+			logger.debug("Executing batch script", {
+				scriptId,
+				index: i + 1,
+				count: scripts.length,
+			});
 
 			const result = await execute(script.content, script.inputs, options);
 
@@ -224,7 +265,7 @@ export async function executeBatch(
 				result,
 			});
 		} catch (error: any) {
-			console.error(`❌ Batch script ${scriptId} failed:`, error.message);
+			logger.error("Batch script failed", { scriptId, error: error.message });
 
 			results.push({
 				id: scriptId,
@@ -235,9 +276,10 @@ export async function executeBatch(
 	}
 
 	const successCount = results.filter((r) => r.success).length;
-	console.log(
-		`✅ Batch execute completed: ${successCount}/${scripts.length} successful`
-	);
+	logger.debug("Batch execute completed", {
+		successful: successCount,
+		count: scripts.length,
+	});
 
 	return results;
 }
@@ -246,17 +288,14 @@ export async function executeBatch(
  * Create a reusable Synthase instance with caching
  * Useful when you want to execute the same script multiple times with different inputs
  */
-export async function createReusable(
+export async function createReusable<
+	Inputs extends Record<string, any> = Record<string, any>,
+	Outputs = any,
+>(
 	scriptContentOrResolver: string | ScriptContentResolver,
 	options: QuickExecuteOptions = {}
-): Promise<{
-	synthase: Synthase;
-	execute: (inputs: Record<string, any>) => Promise<any>;
-	getIO: () => any;
-	getDependencies: () => string[];
-	dispose: () => void;
-}> {
-	console.log("🔧 Creating reusable Synthase instance");
+): Promise<ReusableScript<Inputs, Outputs>> {
+	(options.logger ?? silentLogger).debug("Creating reusable Synthase instance");
 
 	const synthase = new Synthase(scriptContentOrResolver, options);
 
@@ -272,7 +311,8 @@ export async function createReusable(
 	// Return convenient wrapper
 	return {
 		synthase,
-		execute: (inputs: Record<string, any>) => synthase.call(inputs),
+		execute: (inputs: Inputs, callOptions?: CallOptions) =>
+			synthase.call(inputs, callOptions) as Promise<Outputs>,
 		getIO: () => synthase.getIO(),
 		getDependencies: () => synthase.getDependencies(),
 		dispose: () => synthase.dispose(),
@@ -286,11 +326,15 @@ export async function createHotReloadable(
 	getScript: () => string | ScriptContentResolver,
 	options: QuickExecuteOptions = {}
 ): Promise<{
-	execute: (inputs: Record<string, any>) => Promise<any>;
+	execute: (
+		inputs: Record<string, any>,
+		callOptions?: CallOptions
+	) => Promise<any>;
 	reload: () => Promise<void>;
 	getIO: () => any;
 	dispose: () => void;
 }> {
+	const logger = options.logger ?? silentLogger;
 	let synthase = new Synthase(getScript(), options);
 
 	if (options.cachePolicy) {
@@ -298,10 +342,11 @@ export async function createHotReloadable(
 	}
 
 	return {
-		execute: (inputs: Record<string, any>) => synthase.call(inputs),
+		execute: (inputs: Record<string, any>, callOptions?: CallOptions) =>
+			synthase.call(inputs, callOptions),
 
 		reload: async () => {
-			console.log("🔄 Hot reloading script");
+			logger.debug("Hot reloading script");
 			synthase.dispose();
 
 			// Create new instance and let errors propagate
@@ -313,7 +358,7 @@ export async function createHotReloadable(
 			// Wait for initialization to complete so errors are thrown here
 			await synthase.waitForInitialization();
 
-			console.log("✅ Hot reload completed");
+			logger.debug("Hot reload completed");
 		},
 
 		getIO: () => synthase.getIO(),
@@ -322,6 +367,111 @@ export async function createHotReloadable(
 	};
 }
 
+/**
+ * Events emitted by a watched script
+ */
+export interface WatchEvents {
+	reloaded: { changed: string[]; invalidated: string[] };
+	reloadFailed: { changed: string[]; error: Error };
+}
+
+/**
+ * Listener for one watch event
+ */
+export type WatchListener<Event extends keyof WatchEvents> = (
+	payload: WatchEvents[Event]
+) => void;
+
+/**
+ * Script instance returned by watchScript
+ */
+export interface WatchedScript extends ReusableScript {
+	on<Event extends keyof WatchEvents>(
+		event: Event,
+		listener: WatchListener<Event>
+	): () => void;
+	reload: () => Promise<void>;
+}
+
+/**
+ * Watch mode for development: load a script from a file system registry and
+ * reload it whenever the script or one of its dependency files changes. Only
+ * the changed scripts and their dependents are invalidated, and when a change
+ * fails to load the last good version keeps serving.
+ */
+export async function watchScript(
+	scriptId: string,
+	registry: FileSystemScriptRegistry,
+	options: QuickExecuteOptions & { debounceMs?: number } = {}
+): Promise<WatchedScript> {
+	const logger = options.logger ?? silentLogger;
+	const listeners: {
+		[Event in keyof WatchEvents]: Set<WatchListener<Event>>;
+	} = { reloaded: new Set(), reloadFailed: new Set() };
+	const emit = <Event extends keyof WatchEvents>(
+		event: Event,
+		payload: WatchEvents[Event]
+	) => {
+		for (const listener of listeners[event]) {
+			try {
+				listener(payload);
+			} catch (error: any) {
+				logger.error("Watch listener failed", { event, error: error?.message });
+			}
+		}
+	};
+
+	const reusable = await createReusable(() => registry.resolve(scriptId), {
+		registry,
+		...options,
+	});
+	const { synthase } = reusable;
+
+	const reloadChanged = async (changed: string[]) => {
+		const invalidated = synthase.invalidateAffected(changed);
+		if (!changed.includes(scriptId) && invalidated.length === 0) return;
+
+		logger.debug("Reloading changed scripts", { changed, invalidated });
+		try {
+			await synthase.refresh();
+		} catch (error: any) {
+			logger.warn("Reload failed, keeping last good version", {
+				error: error?.message,
+			});
+			emit("reloadFailed", { changed, error });
+			throw error;
+		}
+		emit("reloaded", { changed, invalidated });
+	};
+
+	// Reloads run one at a time, in the order changes were seen
+	let queue: Promise<void> = Promise.resolve();
+	const enqueue = (changed: string[]) =>
+		(queue = queue.catch(() => {}).then(() => reloadChanged(changed)));
+
+	const stopWatching = await registry.watch((changed) => {
+		enqueue(changed).catch(() => {}); // Reported through reloadFailed
+	}, options.debounceMs);
+
+	return {
+		...reusable,
+		on: <Event extends keyof WatchEvents>(
+			event: Event,
+			listener: WatchListener<Event>
+		) => {
+			listeners[event].add(listener);
+			return () => listeners[event].delete(listener);
+		},
+		reload: () => enqueue([scriptId]),
+		dispose: () => {
+			stopWatching();
+			listeners.reloaded.clear();
+			listeners.reloadFailed.clear();
+			reusable.dispose();
+		},
+	};
+}
+
 /**
  * Performance benchmark helper
  */
@@ -337,7 +487,8 @@ export async function benchmark(
 	times: number[];
 	results: any[];
 }> {
-	console.log(`⏱️ Benchmarking script (${iterations} iterations)`);
+	const logger = options.logger ?? silentLogger;
+	logger.debug("Benchmarking script", { iterations });
 
 	const times: number[] = [];
 	const results: any[] = [];
@@ -355,7 +506,10 @@ export async function benchmark(
 			times.push(time);
 			results.push(result);
 
-			console.log(`Iteration ${i + 1}: ${time.toFixed(2)}ms`);
+			logger.debug("Benchmark iteration", {
+				iteration: i + 1,
+				timeMs: Number(time.toFixed(2)),
+			});
 		}
 
 		const averageTime = times.reduce((a, b) => a + b, 0) / times.length;
@@ -370,7 +524,7 @@ export async function benchmark(
 			results,
 		};
 
-		console.log("📊 Benchmark results:", benchmarkResults);
+		logger.debug("Benchmark results", benchmarkResults);
 		return benchmarkResults;
 	} finally {
 		reusable.dispose();
@@ -388,5 +542,6 @@ export const SynthaseUtils = {
 	executeBatch,
 	createReusable,
 	createHotReloadable,
+	watchScript,
 	benchmark,
 };
@@ -3,43 +3,155 @@ import type {
 	IOSchema,
 	LoadedScript,
 	CacheEntry,
+	CachePolicyConfig,
+	CacheStats,
 	ScriptContentResolver,
 	ImportedScript,
 	SynthaseConfig,
 	ScriptRegistry,
+	CallOptions,
+	ExecutionResult,
+	LogEntry,
+	ImportRecord,
+	LockedDependency,
+	ResolvedScript,
+	ScriptLockfile,
+	ImportOptions,
+	CachedScriptMetadata,
+	ContextProvider,
+	ExecutionLimitsConfig,
+	DependencyEdge,
+	DependencyGraph,
+	DependencyNode,
 } from "./types";
 import { ParameterUtils } from "./types";
 import { ExecutionLimits } from "./execution-limits";
-import { ScriptValidator } from "./script-validator";
-import { ResourceMonitor } from "./resource-monitor";
+import { ScriptValidator, VALIDATION_RULES_VERSION } from "./script-validator";
+import { ResourceMonitor, type ResourceSession } from "./resource-monitor";
+import { createContextHelpers } from "./context-helpers";
+import { ScriptCache } from "./script-cache";
+import {
+	OVERRIDDEN_HELPERS,
+	WORKER_SCRIPT_URL,
+	WorkerIsolation,
+} from "./worker-isolation";
+import { resolveScript } from "./script-registry";
+import { formatSpecifier, parseSpecifier } from "./semver";
+import { computeIntegrity } from "./content-hash";
+import { verifyScriptSignature } from "./script-signing";
+import { findDependencyCycle } from "./dependency-graph";
+import {
+	findStaticImports,
+	rewriteStaticImports,
+	toModuleDataUrl,
+} from "./static-imports";
+import { silentLogger, type SynthaseLogger } from "./logger";
+import {
+	DependencyResolutionError,
+	ImportLimitError,
+	InputValidationError,
+	ValidationError,
+	toScriptRuntimeError,
+} from "./errors";
+import {
+	locateScriptError,
+	type ColumnShift,
+	type ScriptSource,
+} from "./script-stack";
+import {
+	OperationMeter,
+	instrumentScriptWithMap,
+	runWithOperationMeter,
+} from "./script-instrumentation";
+import {
+	createAbortError,
+	makeProvidersAbortable,
+	raceWithSignal,
+	throwIfAborted,
+} from "./abort-utils";
+
+/**
+ * Logs, warnings and imports collected during one execution
+ */
+interface ExecutionTrace {
+	logs: LogEntry[];
+	warnings: string[];
+	imports: ImportRecord[];
+	scripts: Array<{ scriptId: string; source?: LoadedScript["source"] }>; // Scripts run so far, to map stack traces
+	runId: string;
+	limits: Required<ExecutionLimitsConfig>; // Instance limits, lowered by the call options
+	contextProviders: ContextProvider; // Instance providers merged with the call's own
+	importCount: number; // Scripts imported so far, at any depth
+	monitoring: ResourceSession; // Memory limits and statistics of this execution
+	operations?: OperationMeter; // Budget of instrumented scripts, when maxOperations is set
+}
+
+/**
+ * A "synthase:" module linked into the scripts of an instance
+ */
+interface LinkedModule {
+	url: string;
+	imports: string[]; // Specifiers of its own static imports
+	content: string;
+	columnShifts?: ColumnShift[]; // Code inserted when compiling
+}
+
+// Worker threads get data: URLs, which need no cleanup
+function revokeModuleUrl(linked: LinkedModule): void {
+	if (linked.url.startsWith("blob:")) URL.revokeObjectURL(linked.url);
+}
 
 export class Synthase {
-	private scriptCache = new Map<string, CacheEntry>();
-	private cachePolicy = {
-		maxAge: 5 * 60 * 1000, // 5 minutes
-		maxSize: 100, // max cached scripts
-	};
+	private scriptCache: ScriptCache;
 
 	private loadedScript: LoadedScript | null = null;
+	private validationWarnings: string[] = [];
 	private isInitialized = false;
 	private initializationPromise: Promise<void> | null = null;
 	private executionLimits = new ExecutionLimits();
-	private scriptValidator = new ScriptValidator();
-	private resourceMonitor = new ResourceMonitor();
+	private scriptValidator: ScriptValidator;
+	private resourceMonitor: ResourceMonitor;
 	private registry?: ScriptRegistry;
+	private pinnedSpecifiers = new Map<string, string>(); // Requested specifier -> exact version picked at load time
+	private lockEntries = new Map<string, LockedDependency>(); // Registry dependencies resolved so far
+	private dependencyGraph: DependencyGraph | null = null; // From the latest load attempt
+	private staticModules = new Map<string, LinkedModule>(); // Linked "synthase:" modules
+	private invalidated = new Map<
+		string,
+		{ entry?: CacheEntry; module?: LinkedModule }
+	>(); // Dropped by invalidateAffected, restored if the next refresh fails
+	private workerIsolation: WorkerIsolation | null = null;
+	private logger: SynthaseLogger = silentLogger;
 
 	constructor(
 		private scriptContentOrResolver: string | ScriptContentResolver,
 		private config?: SynthaseConfig
 	) {
 		// Apply configuration
+		if (config?.logger) {
+			this.logger = config.logger;
+		}
 		if (config?.limits) {
 			this.executionLimits = new ExecutionLimits(config.limits);
 		}
-		if (config?.resourceMonitor) {
-			this.resourceMonitor = new ResourceMonitor(config.resourceMonitor);
-		}
+		this.scriptCache = new ScriptCache({
+			...config?.cachePolicy,
+			logger: this.logger,
+		});
+		this.resourceMonitor = new ResourceMonitor({
+			...config?.resourceMonitor,
+			logger: this.logger,
+		});
+		this.scriptValidator = new ScriptValidator({
+			...config?.validator,
+			logger: this.logger,
+		});
 		this.registry = config?.registry;
+		if (config?.isolation === "worker") {
+			this.workerIsolation = new WorkerIsolation({
+				overriddenHelpers: Object.keys(config.contextProviders || {}),
+			});
+		}
 
 		// Start initialization immediately but don't block constructor
 		this.initializationPromise = this.initialize();
@@ -48,9 +160,11 @@ export class Synthase {
 	/**
 	 * Configure cache policy
 	 */
-	setCachePolicy(policy: Partial<typeof this.cachePolicy>): void {
-		this.cachePolicy = { ...this.cachePolicy, ...policy };
-		console.log(`⚙️ Cache policy updated:`, this.cachePolicy);
+	setCachePolicy(policy: CachePolicyConfig): void {
+		this.scriptCache.setPolicy(policy);
+		this.logger.debug("Cache policy updated", {
+			...this.scriptCache.getPolicy(),
+		});
 	}
 
 	/**
@@ -59,7 +173,7 @@ export class Synthase {
 	async waitForInitialization(): Promise<void> {
 		if (!this.isInitialized) {
 			if (!this.initializationPromise) {
-				throw new Error("Synthase initialization failed");
+				throw new DependencyResolutionError("Synthase initialization failed");
 			}
 			await this.initializationPromise;
 		}
@@ -70,7 +184,7 @@ export class Synthase {
 	 */
 	private async initialize(): Promise<void> {
 		try {
-			console.log(`🔍 Initializing Synthase...`);
+			this.logger.debug("Initializing Synthase");
 
 			// Clean up expired cache entries
 			this.cleanupCache();
@@ -80,33 +194,28 @@ export class Synthase {
 			if (typeof this.scriptContentOrResolver === "string") {
 				scriptContent = this.scriptContentOrResolver;
 			} else {
-				console.log(`🔄 Resolving script content via callback`);
+				this.logger.debug("Resolving script content via callback");
 				scriptContent = await this.scriptContentOrResolver();
+				await this.checkTrust(scriptContent, "main script");
 			}
 
-			// Validate script before planning
-			const validation = this.scriptValidator.validateScript(scriptContent);
-			if (!validation.valid) {
-				throw new Error(
-					`Script validation failed: ${validation.errors.join(", ")}`
-				);
-			}
-
-			// Plan the main script
+			// Plan the main script (validated in loadScriptTree)
 			const scriptId = `main-${Date.now()}-${Math.random()
 				.toString(36)
 				.substr(2, 9)}`;
 			this.loadedScript = await this.loadScriptTree(scriptContent, scriptId);
 
-			console.log(`📋 Main script planned: ${scriptId}`);
-			console.log(
-				`🔗 Total dependencies loaded: ${this.loadedScript.deps.length}`
-			);
-			console.log(`💾 Cache entries: ${this.scriptCache.size}`);
+			this.logger.debug("Main script planned", {
+				scriptId,
+				dependencies: this.loadedScript.deps.length,
+				cacheEntries: this.scriptCache.size,
+			});
 
 			this.isInitialized = true;
 		} catch (error: any) {
-			console.error(`❌ Synthase initialization failed:`, error);
+			this.logger.error("Synthase initialization failed", {
+				error: error?.message,
+			});
 			throw error;
 		}
 	}
@@ -114,40 +223,124 @@ export class Synthase {
 	/**
 	 * Execute the script with given inputs
 	 */
-	async call(inputs: Record<string, any>): Promise<any> {
+	async call(
+		inputs: Record<string, any>,
+		options: CallOptions = {}
+	): Promise<any> {
+		const result = await this.callDetailed(inputs, options);
+		return result.outputs;
+	}
+
+	/**
+	 * Execute the script and return its outputs together with the logs,
+	 * warnings, imports and resource statistics of the run
+	 */
+	async callDetailed(
+		inputs: Record<string, any>,
+		options: CallOptions = {}
+	): Promise<ExecutionResult> {
+		const { signal: callerSignal } = options;
+
 		// Wait for initialization if not complete
 		await this.waitForInitialization();
 
 		if (!this.loadedScript) {
-			throw new Error("No script loaded");
+			throw new DependencyResolutionError("No script loaded");
 		}
 
-		console.log("🚀 Executing script with inputs:", inputs);
+		throwIfAborted(callerSignal);
 
-		// Start resource monitoring
-		this.resourceMonitor.start();
+		const runId = options.runId ?? crypto.randomUUID();
+		const limits = this.executionLimits.capped(options);
+		this.logger.debug("Executing script", { runId, inputs, ...limits });
 
+		// Aborted by the caller, on timeout, or with a MemoryLimitError by the
+		// resource monitor. Worker-isolated scripts of this execution stop with it.
+		const execution = new AbortController();
+		const signal = execution.signal;
+
+		// Monitoring of this execution only; concurrent calls have their own
+		const monitoring = this.resourceMonitor.start(limits.maxMemory, (error) =>
+			execution.abort(error)
+		);
+		const onCallerAbort = () => execution.abort(callerSignal!.reason);
+		callerSignal?.addEventListener("abort", onCallerAbort, { once: true });
+
+		const startTime = performance.now();
+		const trace: ExecutionTrace = {
+			logs: [],
+			warnings: [...this.validationWarnings],
+			imports: [],
+			scripts: [],
+			runId,
+			limits,
+			contextProviders: {
+				...this.config?.contextProviders,
+				...options.contextProviders,
+			},
+			importCount: 0,
+			monitoring,
+			operations: this.instrumented
+				? new OperationMeter(limits.maxOperations)
+				: undefined,
+		};
+
+		let outputs: any;
 		try {
 			// Validate inputs
-			const validatedInputs = this.validateInputs(inputs, this.loadedScript.io);
+			const validatedInputs = await this.validateInputs(
+				inputs,
+				this.loadedScript.io
+			);
 
 			// Create execution context
-			const context = await this.createExecutionContext();
+			const context = await this.createExecutionContext(
+				this.loadedScript.id,
+				trace,
+				signal
+			);
 
 			// Execute with timeout and resource monitoring
-			const result = await this.executionLimits.executeWithTimeout(
-				() => this.loadedScript!.defaultFunction(validatedInputs, context),
-				this.executionLimits.timeout
+			outputs = await this.executionLimits.executeWithTimeout(
+				() =>
+					raceWithSignal(
+						this.runScript(
+							this.loadedScript!,
+							validatedInputs,
+							context,
+							trace,
+							"main"
+						),
+						signal
+					),
+				limits.timeout,
+				// Stops the workers of this execution only
+				() => execution.abort("Script execution timed out")
 			);
 
-			console.log("✅ Script executed successfully");
-			return result;
+			this.checkOutputs(outputs, this.loadedScript.io, trace);
+
+			this.logger.debug("Script executed successfully", { runId });
 		} catch (error: any) {
-			console.error("❌ Script execution failed:", error);
+			this.logger.error("Script execution failed", {
+				runId,
+				error: error?.message,
+			});
 			throw error;
 		} finally {
-			this.resourceMonitor.stop();
+			callerSignal?.removeEventListener("abort", onCallerAbort);
+			monitoring.stop();
 		}
+
+		return {
+			outputs,
+			logs: trace.logs,
+			warnings: trace.warnings,
+			stats: monitoring.getStats(),
+			imports: trace.imports,
+			durationMs: performance.now() - startTime,
+			runId,
+		};
 	}
 
 	/**
@@ -164,18 +357,182 @@ export class Synthase {
 		return this.loadedScript?.deps || [];
 	}
 
+	/**
+	 * Get the dependency graph from the latest load attempt, including nodes
+	 * that failed to resolve. Empty until the first load attempt.
+	 */
+	getDependencyGraph(): DependencyGraph {
+		if (!this.dependencyGraph) {
+			return { root: "", nodes: [], edges: [] };
+		}
+		return structuredClone(this.dependencyGraph);
+	}
+
 	/**
 	 * Reload the script (for hot reloading)
 	 */
 	async reload(): Promise<void> {
-		console.log("🔄 Reloading script...");
+		this.logger.debug("Reloading script");
 		this.isInitialized = false;
 		this.loadedScript = null;
+		this.pinnedSpecifiers.clear();
+		this.lockEntries.clear();
+		this.dependencyGraph = null;
+		this.releaseModules(this.staticModules.keys());
+		this.discardInvalidated();
 		this.clearCache(); // Clear cache to force fresh load
 		this.initializationPromise = this.initialize();
 		await this.initializationPromise;
 	}
 
+	/**
+	 * Re-initialize from the current sources while keeping cache entries that
+	 * were not invalidated. If loading fails, the previous version keeps
+	 * serving calls and the error is rethrown.
+	 */
+	async refresh(): Promise<void> {
+		this.logger.debug("Refreshing script");
+		const previous = {
+			loadedScript: this.loadedScript,
+			validationWarnings: this.validationWarnings,
+			pinnedSpecifiers: this.pinnedSpecifiers,
+			lockEntries: this.lockEntries,
+		};
+		this.pinnedSpecifiers = new Map();
+		this.lockEntries = new Map();
+
+		const refreshing = this.initialize();
+		if (!this.isInitialized) {
+			this.initializationPromise = refreshing;
+		}
+
+		try {
+			await refreshing;
+		} catch (error) {
+			this.validationWarnings = previous.validationWarnings;
+			this.pinnedSpecifiers = previous.pinnedSpecifiers;
+			this.lockEntries = previous.lockEntries;
+			this.restoreInvalidated();
+			throw error;
+		}
+
+		this.discardInvalidated();
+		if (previous.loadedScript) {
+			this.invalidateScript(previous.loadedScript.id);
+		}
+	}
+
+	/**
+	 * Invalidate cached scripts whose registry id is in `scriptIds`, together
+	 * with every loaded script that depends on them, directly or indirectly.
+	 * Returns the invalidated specifiers.
+	 */
+	invalidateAffected(scriptIds: string[]): string[] {
+		const changed = new Set(scriptIds);
+		const graph = new Map<string, string[]>(
+			this.dependencyGraph?.nodes.map((node) => [node.id, []]) ?? []
+		);
+		for (const { from, to } of this.dependencyGraph?.edges ?? []) {
+			graph.set(from, [...(graph.get(from) ?? []), to]);
+		}
+		for (const [specifier, linked] of this.staticModules) {
+			graph.set(specifier, linked.imports);
+		}
+		const affected = new Set(
+			Array.from(graph.keys()).filter((specifier) =>
+				changed.has(parseSpecifier(specifier).id)
+			)
+		);
+
+		// Follow dependency edges backwards until no new dependents are found
+		let grew = affected.size > 0;
+		while (grew) {
+			grew = false;
+			for (const [specifier, deps] of graph) {
+				if (!affected.has(specifier) && deps.some((dep) => affected.has(dep))) {
+					affected.add(specifier);
+					grew = true;
+				}
+			}
+		}
+
+		// Keep the dropped entries until a refresh loads their replacements
+		for (const specifier of affected) {
+			const entry = this.scriptCache.peek(specifier);
+			const module = this.staticModules.get(specifier);
+			if ((entry || module) && !this.invalidated.has(specifier)) {
+				this.invalidated.set(specifier, { entry, module });
+			}
+			this.invalidateScript(specifier);
+			this.staticModules.delete(specifier);
+		}
+		return Array.from(affected);
+	}
+
+	/**
+	 * Put back the cache entries and modules dropped by invalidateAffected, so
+	 * the last good version keeps serving after a failed refresh
+	 */
+	private restoreInvalidated(): void {
+		for (const [specifier, { entry, module }] of this.invalidated) {
+			if (entry) this.scriptCache.set(specifier, entry);
+			if (module) {
+				this.releaseModules([specifier]);
+				this.staticModules.set(specifier, module);
+			}
+		}
+		this.invalidated.clear();
+	}
+
+	/**
+	 * Forget the entries kept by invalidateAffected once they are replaced
+	 */
+	private discardInvalidated(): void {
+		for (const { module } of this.invalidated.values()) {
+			if (module) revokeModuleUrl(module);
+		}
+		this.invalidated.clear();
+	}
+
+	/**
+	 * Complete the nodes collected while loading with linked static modules and
+	 * with targets that were never reached
+	 */
+	private buildDependencyGraph(
+		root: string,
+		nodes: Map<string, DependencyNode>,
+		edges: DependencyEdge[]
+	): DependencyGraph {
+		const allEdges = [...edges];
+		const pending = edges.map((edge) => edge.to);
+		const seenModules = new Set<string>();
+
+		while (pending.length > 0) {
+			const id = pending.shift()!;
+			if (nodes.has(id)) continue;
+
+			const linked = this.staticModules.get(id);
+			const isModule = allEdges.some(
+				(edge) => edge.to === id && edge.kind === "static"
+			);
+			nodes.set(id, {
+				id,
+				kind: isModule ? "module" : "script",
+				status: linked ? "resolved" : "pending",
+			});
+
+			if (linked && !seenModules.has(id)) {
+				seenModules.add(id);
+				for (const target of linked.imports) {
+					allEdges.push({ from: id, to: target, kind: "static" });
+					pending.push(target);
+				}
+			}
+		}
+
+		return { root, nodes: Array.from(nodes.values()), edges: allEdges };
+	}
+
 	/**
 	 * Load script and all dependencies
 	 */
@@ -188,184 +545,465 @@ export class Synthase {
 			{ id: scriptId, content: scriptContent },
 		];
 		const processed = new Set<string>();
+		const nodes = new Map<string, DependencyNode>();
+		const edges: DependencyEdge[] = [];
 
-		while (loadingQueue.length > 0) {
-			const { id, content } = loadingQueue.shift()!;
-			if (processed.has(id)) continue;
-
-			console.log(`🔧 Loading script: ${id}`);
-
-			let loadedScript: LoadedScript;
-
-			if (content) {
-				// Main script - always process fresh but check cache for content changes
-				const contentHash = this.hashContent(content);
-				const cached = this.getCachedScript(id);
-
-				if (cached && cached.contentHash === contentHash) {
-					console.log(`✅ Using cached script (content unchanged): ${id}`);
-					loadedScript = cached.script;
-				} else {
-					loadedScript = await this.processScript(id, content); // Now async
-					this.cacheScript(id, loadedScript, content, "main");
-				}
-			} else {
-				// Dependency - check cache first
-				const cached = this.getCachedScript(id);
-				if (cached) {
-					console.log(`✅ Using cached script: ${id}`);
-					loadedScript = cached.script;
-				} else {
-					// Not cached - resolve and process
-					if (!this.config?.registry) {
-						console.warn(
-							`⚠️  No registry configured, skipping dependency: ${id}`
-						);
-						continue;
+		try {
+			while (loadingQueue.length > 0) {
+				const { id, content } = loadingQueue.shift()!;
+				if (processed.has(id)) continue;
+
+				this.logger.debug("Loading script", { scriptId: id });
+
+				let loadedScript: LoadedScript;
+				const node: DependencyNode = {
+					id,
+					kind: content ? "main" : "script",
+					status: "resolved",
+				};
+				nodes.set(id, node);
+
+				if (content) {
+					// Main script - always validate but check cache for content changes
+					const contentHash = await computeIntegrity(content);
+					node.integrity = contentHash;
+					const validated = await this.validateContent(
+						content,
+						contentHash,
+						"Script"
+					).catch((error) => {
+						node.status = "failed";
+						node.error = error.message;
+						throw error;
+					});
+					this.validationWarnings = validated.warnings;
+					const cached = this.getCachedScript(id);
+
+					if (cached && cached.contentHash === contentHash) {
+						this.logger.debug("Using cached script (content unchanged)", {
+							scriptId: id,
+						});
+						loadedScript = cached.script;
+						node.status = "cached";
+					} else {
+						loadedScript = await this.loadContent(
+							id,
+							content,
+							contentHash,
+							validated
+						).catch((error) => {
+							node.status = "failed";
+							node.error = error.message;
+							throw error;
+						});
+						this.cacheScript(id, loadedScript, content, contentHash, "main");
 					}
+				} else {
+					// Dependency - check cache first
+					const cached = this.getCachedScript(id);
+					if (cached) {
+						this.logger.debug("Using cached script", { scriptId: id });
+						loadedScript = cached.script;
+						node.status = "cached";
+						node.version = loadedScript.version;
+						node.integrity = cached.contentHash;
+						this.lockEntries.set(id, {
+							id: parseSpecifier(id).id,
+							...(loadedScript.version
+								? { version: loadedScript.version }
+								: {}),
+							integrity: cached.contentHash,
+						});
+					} else {
+						// Not cached - resolve and process
+						if (!this.config?.registry) {
+							this.logger.warn("No registry configured, skipping dependency", {
+								scriptId: id,
+							});
+							node.status = "skipped";
+							continue;
+						}
 
-					try {
-						const depContent = await this.config.registry.resolve(id);
+						try {
+							const resolved = await this.resolveLocked(
+								this.config.registry,
+								id
+							);
+							const depContent = resolved.content;
+							node.version = resolved.version;
+							await this.checkTrust(depContent, id, resolved.registry);
+
+							const contentHash =
+								resolved.integrity ?? (await computeIntegrity(depContent));
+							node.integrity = contentHash;
+							const validated = await this.validateContent(
+								depContent,
+								contentHash,
+								"Dependency"
+							);
 
-						// Validate dependency
-						const validation = this.scriptValidator.validateScript(depContent);
-						if (!validation.valid) {
-							throw new Error(
-								`Dependency validation failed: ${validation.errors.join(", ")}`
+							loadedScript = await this.loadContent(
+								id,
+								depContent,
+								contentHash,
+								validated
+							);
+							loadedScript.version = resolved.version;
+							this.cacheScript(
+								id,
+								loadedScript,
+								depContent,
+								contentHash,
+								"dependency",
+								validated.warnings
+							);
+						} catch (error: any) {
+							node.status = "failed";
+							node.error = error.message;
+							throw new DependencyResolutionError(
+								`Failed to load dependency ${id}: ${error.message}`,
+								{ specifier: id },
+								error
 							);
 						}
+					}
+				}
 
-						loadedScript = await this.processScript(id, depContent); // Now async
-						this.cacheScript(id, loadedScript, depContent, "dependency");
-					} catch (error: any) {
-						throw new Error(
-							`Failed to load dependency ${id}: ${error.message}`
-						);
+				loadedScripts.set(id, loadedScript);
+				processed.add(id);
+
+				for (const module of loadedScript.modules ?? []) {
+					edges.push({ from: id, to: module, kind: "static" });
+				}
+
+				// Queue dependencies
+				for (const depId of loadedScript.deps) {
+					edges.push({ from: id, to: depId, kind: "import" });
+					if (!processed.has(depId) && !loadedScripts.has(depId)) {
+						loadingQueue.push({ id: depId });
 					}
 				}
 			}
+		} finally {
+			this.dependencyGraph = this.buildDependencyGraph(scriptId, nodes, edges);
+		}
 
-			loadedScripts.set(id, loadedScript);
-			processed.add(id);
+		const cycle = findDependencyCycle(
+			this.dependencyGraph.edges.filter((edge) => edge.kind === "import")
+		);
+		if (cycle) {
+			throw new DependencyResolutionError(
+				`Circular dependency: ${cycle.join(" -> ")}`,
+				{ specifier: cycle[0], cycle }
+			);
+		}
 
-			// Queue dependencies
-			for (const depId of loadedScript.deps) {
-				if (!processed.has(depId) && !loadedScripts.has(depId)) {
-					loadingQueue.push({ id: depId });
-				}
+		// Pin every dependency to the exact version that was picked
+		for (const [specifier, loadedScript] of loadedScripts) {
+			if (specifier !== scriptId && loadedScript.version) {
+				this.pinnedSpecifiers.set(
+					specifier,
+					formatSpecifier(parseSpecifier(specifier).id, loadedScript.version)
+				);
 			}
 		}
 
 		const mainScript = loadedScripts.get(scriptId);
 		if (!mainScript) {
-			throw new Error(`Main script not found: ${scriptId}`);
+			throw new DependencyResolutionError(
+				`Main script not found: ${scriptId}`,
+				{ specifier: scriptId }
+			);
 		}
 
-		return mainScript;
+		// Cached scripts keep the requested specifiers; only the returned copy is pinned
+		return {
+			...mainScript,
+			deps: mainScript.deps.map((dep) => this.pinnedSpecifiers.get(dep) ?? dep),
+		};
+	}
+
+	/**
+	 * Get a lockfile recording the exact version and hash of every registry
+	 * dependency resolved so far. Serialize it with JSON.stringify and pass it
+	 * back as `config.lockfile` to make later loads reproducible.
+	 */
+	getLockfile(): ScriptLockfile {
+		const specifiers = Array.from(this.lockEntries.keys()).sort();
+		return {
+			lockfileVersion: 1,
+			dependencies: Object.fromEntries(
+				specifiers.map((specifier) => [
+					specifier,
+					{ ...this.lockEntries.get(specifier)! },
+				])
+			),
+		};
+	}
+
+	/**
+	 * Resolve a registry dependency, honouring and recording the lockfile
+	 */
+	private async resolveLocked(
+		registry: ScriptRegistry,
+		specifier: string
+	): Promise<ResolvedScript> {
+		const resolved = await resolveScript(
+			registry,
+			this.lockedSpecifier(specifier)
+		);
+		await this.recordLock(specifier, resolved);
+		return resolved;
+	}
+
+	/**
+	 * The exact specifier to resolve when a lockfile pins this dependency
+	 */
+	private lockedSpecifier(specifier: string): string {
+		const locked = this.config?.lockfile?.dependencies[specifier];
+		return locked ? formatSpecifier(locked.id, locked.version) : specifier;
+	}
+
+	/**
+	 * Check resolved content against the lockfile and remember it for getLockfile()
+	 */
+	private async recordLock(
+		specifier: string,
+		resolved: ResolvedScript
+	): Promise<void> {
+		const integrity =
+			resolved.integrity ?? (await computeIntegrity(resolved.content));
+		const lockfile = this.config?.lockfile;
+
+		if (lockfile) {
+			const locked = lockfile.dependencies[specifier];
+			if (!locked) {
+				throw new DependencyResolutionError(
+					`Dependency ${specifier} is not in the lockfile`,
+					{ specifier }
+				);
+			}
+			if (locked.integrity !== integrity) {
+				throw new DependencyResolutionError(
+					`Lockfile mismatch for ${specifier}: expected ${locked.integrity}, got ${integrity}`,
+					{ specifier }
+				);
+			}
+		}
+
+		this.lockEntries.set(specifier, {
+			id: resolved.id,
+			...(resolved.version ? { version: resolved.version } : {}),
+			integrity,
+		});
+	}
+
+	/**
+	 * Enforce config.trust on content from a registry or a resolver. The
+	 * registry's own trust entry wins over the policy-wide keys.
+	 */
+	private async checkTrust(
+		content: string,
+		label: string,
+		registry?: ScriptRegistry
+	): Promise<void> {
+		const trust = this.config?.trust;
+		if (!trust) return;
+
+		const entry = registry
+			? trust.registries?.find((candidate) => candidate.registry === registry)
+			: undefined;
+		const required =
+			entry?.requireSignatures ?? trust.requireSignatures ?? false;
+		const { status, keyId } = await verifyScriptSignature(
+			content,
+			entry?.keys ?? trust.keys ?? {}
+		);
+
+		if (status === "invalid") {
+			throw new DependencyResolutionError(
+				`Invalid signature for ${label} (key ${keyId})`,
+				{ specifier: label }
+			);
+		}
+		if (status === "untrusted" && required) {
+			throw new DependencyResolutionError(
+				`Untrusted signature for ${label}: unknown key ${keyId}`,
+				{ specifier: label }
+			);
+		}
+		if (status === "unsigned" && required) {
+			throw new DependencyResolutionError(`Unsigned script refused: ${label}`, {
+				specifier: label,
+			});
+		}
+	}
+
+	/**
+	 * Reject content whose SHA-256 does not match an expected integrity string.
+	 * Like Subresource Integrity, several space-separated hashes may be given.
+	 */
+	private checkIntegrity(
+		expected: string,
+		actual: string,
+		label: string
+	): void {
+		const hashes = expected
+			.split(/\s+/)
+			.filter((hash) => hash.startsWith("sha256-"));
+		if (hashes.length === 0) {
+			throw new DependencyResolutionError(
+				`Unsupported integrity for ${label}: expected a "sha256-..." hash`,
+				{ specifier: label }
+			);
+		}
+		if (!hashes.includes(actual)) {
+			throw new DependencyResolutionError(
+				`Integrity mismatch for ${label}: expected ${expected}, got ${actual}`,
+				{ specifier: label }
+			);
+		}
 	}
 
 	/**
 	 * Create execution context with injectable dependencies
 	 */
-	private async createExecutionContext(): Promise<any> {
-		// Track imports for this execution
-		const importTracker = {
-			importCount: 0,
-			importStack: [] as string[],
-			importedScripts: new Set<string>(),
+	private async createExecutionContext(
+		scriptId: string,
+		trace: ExecutionTrace,
+		signal?: AbortSignal,
+		importChain: string[] = [] // Content hashes of the imports that led to this script
+	): Promise<any> {
+		const { limits } = trace;
+
+		// Route to the configured logger and record the entry in the execution trace
+		const log = (level: LogEntry["level"], message: string) => {
+			const fields = { runId: trace.runId, scriptId, source: "script" };
+			if (level === "success") {
+				this.logger.info(message, { ...fields, success: true });
+			} else {
+				this.logger[level](message, fields);
+			}
+			trace.logs.push({ level, message, timestamp: Date.now(), scriptId });
 		};
 
 		// Base context - always available
 		const baseContext = {
 			Logger: {
-				info: (message: string) => console.log("ℹ️  INFO:", message),
-				success: (message: string) => console.log("✅ SUCCESS:", message),
-				warn: (message: string) => console.log("⚠️  WARN:", message),
-				error: (message: string) => console.log("❌ ERROR:", message),
+				info: (message: string) => log("info", message),
+				success: (message: string) => log("success", message),
+				warn: (message: string) => log("warn", message),
+				error: (message: string) => log("error", message),
 			},
 
-			Calculator: {
-				enhance: (value: number) => value * 1.1,
-				sum: (array: number[]) => array.reduce((a, b) => a + b, 0),
-				average: (array: number[]) =>
-					array.length > 0
-						? array.reduce((a, b) => a + b, 0) / array.length
-						: 0,
-				multiply: (numbers: number[]) => numbers.reduce((a, b) => a * b, 1),
-			},
+			...createContextHelpers(signal, () => createAbortError(signal)),
 
-			Utils: {
-				formatNumber: (num: number, decimals = 0) =>
-					parseFloat(num.toFixed(decimals)),
-				capitalize: (str: string) => str.charAt(0).toUpperCase() + str.slice(1),
-				delay: (ms: number) =>
-					new Promise((resolve) => setTimeout(resolve, ms)),
-				randomInt: (min: number, max: number) =>
-					Math.floor(Math.random() * (max - min + 1)) + min,
-				shuffleArray: (array: any[]) => {
-					const result = [...array];
-					for (let i = result.length - 1; i > 0; i--) {
-						const j = Math.floor(Math.random() * (i + 1));
-						[result[i], result[j]] = [result[j], result[i]];
-					}
-					return result;
-				},
-				randomChoice: (array: any[]) =>
-					array[Math.floor(Math.random() * array.length)],
-			},
+			// Fires when the caller cancels this execution or it exceeds a memory limit
+			signal,
+
+			// Identifies this call in logs and results
+			runId: trace.runId,
 
 			// Enhanced importScript with safety checks
 			importScript: async (
-				contentOrResolver: string | ScriptContentResolver
+				contentOrResolver: string | ScriptContentResolver,
+				options: ImportOptions = {}
 			): Promise<ImportedScript> => {
-				console.log(
-					`📦 Importing script (${importTracker.importCount + 1}/${
-						this.executionLimits.maxImportedScripts
-					})`
-				);
+				throwIfAborted(signal);
+
+				this.logger.debug("Importing script", {
+					runId: trace.runId,
+					importNumber: trace.importCount + 1,
+					maxImportedScripts: limits.maxImportedScripts,
+				});
 
 				/* ─── hard-limits ──────────────────────────────────────────────── */
-				if (
-					importTracker.importCount >= this.executionLimits.maxImportedScripts
-				) {
-					throw new Error(
-						`Import limit exceeded: maximum ${this.executionLimits.maxImportedScripts} scripts per execution`
+				if (trace.importCount >= limits.maxImportedScripts) {
+					throw new ImportLimitError(
+						`Import limit exceeded: maximum ${limits.maxImportedScripts} scripts per execution`,
+						{
+							setting: "maxImportedScripts",
+							limit: limits.maxImportedScripts,
+							scriptId,
+						}
 					);
 				}
-				if (
-					importTracker.importStack.length >=
-					this.executionLimits.maxRecursionDepth
-				) {
-					throw new Error(
-						`Recursion depth limit exceeded: maximum ${this.executionLimits.maxRecursionDepth} levels`
+				if (importChain.length >= limits.maxRecursionDepth) {
+					throw new ImportLimitError(
+						`Recursion depth limit exceeded: maximum ${limits.maxRecursionDepth} levels`,
+						{
+							setting: "maxRecursionDepth",
+							limit: limits.maxRecursionDepth,
+							scriptId,
+						}
 					);
 				}
 
-				this.resourceMonitor.check();
+				trace.monitoring.check();
 
 				/* ─── resolve actual script source ─────────────────────────────── */
-				let scriptContent: string;
-
-				if (typeof contentOrResolver === "function") {
+				let scriptContent = ""; // Not needed for preloaded scripts
+				let importRecord: Omit<ImportRecord, "id" | "integrity">;
+				const preloaded =
+					typeof contentOrResolver === "string"
+						? this.getPreloadedScript(contentOrResolver)
+						: null;
+
+				if (preloaded) {
+					// Resolved, checked and compiled when the script tree was loaded
+					importRecord = {
+						source: "registry",
+						specifier: contentOrResolver as string,
+						version: preloaded.script.version,
+					};
+				} else if (typeof contentOrResolver === "function") {
+					importRecord = { source: "resolver" };
 					/* resolver callback (unchanged) */
 					try {
 						scriptContent = await contentOrResolver();
 					} catch (err: any) {
-						throw new Error(`Failed to resolve script content: ${err.message}`);
+						throw new DependencyResolutionError(
+							`Failed to resolve script content: ${err.message}`,
+							{},
+							err
+						);
 					}
+					await this.checkTrust(scriptContent, "resolved script");
 				} else {
 					/* STRING: try registry first, then treat as raw code */
 					const registryId = contentOrResolver;
 					let resolved: unknown;
+					let version: string | undefined;
 
 					if (this.registry) {
+						let result: ResolvedScript | undefined;
 						try {
-							resolved = await this.registry.resolve(registryId);
+							// Use the version pinned when the script tree was loaded
+							result = await resolveScript(
+								this.registry,
+								this.pinnedSpecifiers.get(registryId) ??
+									this.lockedSpecifier(registryId)
+							);
 						} catch {
 							/* not found – fall through to raw code */
 						}
+						if (result) {
+							await this.recordLock(registryId, result);
+							await this.checkTrust(
+								result.content,
+								registryId,
+								result.registry
+							);
+							resolved = result.content;
+							version = result.version;
+						}
 					}
 
+					importRecord =
+						resolved === undefined
+							? { source: "content" }
+							: { source: "registry", specifier: registryId, version };
+
 					if (typeof resolved === "string") {
 						scriptContent = resolved;
 					} else if (
@@ -376,82 +1014,175 @@ export class Synthase {
 					} else if (resolved && typeof (resolved as any).script === "string") {
 						scriptContent = (resolved as any).script;
 					} else if (resolved !== undefined) {
-						throw new Error(
-							`Registry returned unsupported value for "${registryId}" (expected string)`
+						throw new DependencyResolutionError(
+							`Registry returned unsupported value for "${registryId}" (expected string)`,
+							{ specifier: registryId }
 						);
 					} else {
 						/* treat the incoming string itself as code */
 						scriptContent = registryId;
+						await this.checkTrust(scriptContent, "imported script");
 					}
 				}
 
-				/* ─── anti-recursive & validation checks ───────────────────────── */
-				const contentHash = this.hashContent(scriptContent);
-				if (importTracker.importedScripts.has(contentHash)) {
-					throw new Error(
-						"Recursive import detected: script content already imported in this execution"
+				throwIfAborted(signal);
+
+				/* ─── integrity, anti-recursive & validation checks ───────────── */
+				const contentHash =
+					preloaded?.contentHash ?? (await computeIntegrity(scriptContent));
+				if (options.integrity !== undefined) {
+					this.checkIntegrity(
+						options.integrity,
+						contentHash,
+						typeof contentOrResolver === "string" &&
+							importRecord.source === "registry"
+							? contentOrResolver
+							: "imported script"
 					);
 				}
-
-				const validation = this.scriptValidator.validateScript(scriptContent);
-				if (!validation.valid) {
-					throw new Error(
-						`Imported script validation failed: ${validation.errors.join(", ")}`
+				// Importing the same script again is fine, unless it is still running
+				if (importChain.includes(contentHash)) {
+					throw new DependencyResolutionError(
+						"Recursive import detected: script imports itself through its own imports",
+						{ specifier: importRecord.specifier, scriptId }
 					);
 				}
 
+				const validated = preloaded
+					? { warnings: preloaded.warnings ?? [] }
+					: await this.validateContent(
+							scriptContent,
+							contentHash,
+							"Imported script"
+						);
+
 				/* ─── bookkeeping ─────────────────────────────────────────────── */
-				const scriptId = `imported-${Date.now()}-${Math.random()
+				const importedId = `imported-${Date.now()}-${Math.random()
 					.toString(36)
 					.substr(2, 9)}`;
 
-				importTracker.importCount++;
-				importTracker.importStack.push(scriptId);
-				importTracker.importedScripts.add(contentHash);
-
-				try {
-					/* ─── compile & wrap ─────────────────────────────────────────── */
-					const loadedScript = await this.processScript(scriptId, scriptContent);
+				trace.imports.push({
+					id: importedId,
+					...importRecord,
+					integrity: contentHash,
+				});
+				trace.warnings.push(
+					...validated.warnings.map((warning) => `${importedId}: ${warning}`)
+				);
 
-					const importedScript = async (
-						inputs: Record<string, any>
-					): Promise<any> => {
-						console.log(
-							`🚀 Executing imported script ${scriptId} with:`,
-							inputs
-						);
+				trace.importCount++;
+
+				/* ─── compile & wrap ─────────────────────────────────────────── */
+				let loadedScript: LoadedScript;
+				if (preloaded) {
+					loadedScript = preloaded.script;
+				} else if (importRecord.source === "registry") {
+					// Cache under the specifier so later imports reuse it
+					const specifier = contentOrResolver as string;
+					loadedScript = await raceWithSignal(
+						this.loadContent(specifier, scriptContent, contentHash, validated),
+						signal
+					);
+					loadedScript.version = importRecord.version;
+					this.cacheScript(
+						specifier,
+						loadedScript,
+						scriptContent,
+						contentHash,
+						"import",
+						validated.warnings
+					);
+				} else {
+					loadedScript = await raceWithSignal(
+						this.loadContent(importedId, scriptContent, contentHash, validated),
+						signal
+					);
+				}
 
-						const validatedInputs = this.validateInputs(
-							inputs,
-							loadedScript.io
-						);
-						const context = await this.createExecutionContext();
-						return await loadedScript.defaultFunction(validatedInputs, context);
-					};
+				const importedScript = async (
+					inputs: Record<string, any>
+				): Promise<any> => {
+					throwIfAborted(signal);
 
-					Object.assign(importedScript, {
-						io: loadedScript.io,
-						deps: loadedScript.deps,
-						id: scriptId,
+					this.logger.debug("Executing imported script", {
+						scriptId: importedId,
+						inputs,
 					});
 
-					console.log(`✅ Script imported successfully: ${scriptId}`);
-					return importedScript as ImportedScript;
-				} finally {
-					importTracker.importStack.pop();
-				}
+					const validatedInputs = await this.validateInputs(
+						inputs,
+						loadedScript.io
+					);
+					const context = await this.createExecutionContext(
+						importedId,
+						trace,
+						signal,
+						[...importChain, contentHash]
+					);
+					const outputs = await raceWithSignal(
+						this.runScript(
+							loadedScript,
+							validatedInputs,
+							context,
+							trace,
+							importRecord.specifier ?? importedId
+						),
+						signal
+					);
+
+					this.checkOutputs(outputs, loadedScript.io, trace, importedId);
+					return outputs;
+				};
+
+				Object.assign(importedScript, {
+					io: loadedScript.io,
+					deps: loadedScript.deps,
+					id: importedId,
+					version: importRecord.version,
+				});
+
+				this.logger.debug("Script imported successfully", {
+					scriptId: importedId,
+				});
+				return importedScript as ImportedScript;
 			},
 		};
 
 		// Merge base context with injected context providers
 		const context = {
 			...baseContext,
-			...(this.config?.contextProviders || {}), // Inject custom dependencies
+			// Inject custom dependencies, cancelled together with the execution
+			...makeProvidersAbortable(trace.contextProviders, signal),
 		};
 
+		// Helpers replaced for this call only must reach the script from the host
+		Object.defineProperty(context, OVERRIDDEN_HELPERS, {
+			value: Object.keys(trace.contextProviders),
+		});
+
 		return context;
 	}
 
+	/**
+	 * Whether scripts are compiled with operation budget checks
+	 */
+	private get instrumented(): boolean {
+		return Number.isFinite(this.executionLimits.maxOperations);
+	}
+
+	/**
+	 * Compile linked script or module source, with budget checks when
+	 * operations are limited
+	 */
+	private compile(source: string): {
+		code: string;
+		columnShifts?: ColumnShift[];
+	} {
+		return this.instrumented
+			? instrumentScriptWithMap(source, this.executionLimits.maxOperations)
+			: { code: source };
+	}
+
 	/**
 	 * Process script content into LoadedScript
 	 */
@@ -459,27 +1190,258 @@ export class Synthase {
 		id: string,
 		content: string
 	): Promise<LoadedScript> {
-		const module = this.createModule(content);
+		const modules = findStaticImports(content).map((imp) => imp.specifier);
+		const { code, columnShifts } = this.compile(
+			await this.linkStaticImports(content)
+		);
+
+		if (this.workerIsolation) {
+			const { io, deps, defaultFunction } = await this.introspectInWorker(code);
+			const source = { content, url: WORKER_SCRIPT_URL, columnShifts };
+			return { id, io, deps, defaultFunction, modules, source };
+		}
+
+		const module = this.createModule(code);
 		const { io, deps, defaultFunction } = await this.introspectModule(module);
-		return { id, io, deps, defaultFunction };
+		const source = { content, url: module.url, columnShifts };
+		return { id, io, deps, defaultFunction, modules, source };
+	}
+
+	/**
+	 * Rewrite static `synthase:` imports to module URLs. Each module is
+	 * resolved through the registry once per instance; `chain` holds the
+	 * modules being linked, to report import cycles.
+	 */
+	private async linkStaticImports(
+		content: string,
+		chain: string[] = []
+	): Promise<string> {
+		const imports = findStaticImports(content);
+		if (imports.length === 0) return content;
+
+		return rewriteStaticImports(content, imports, async (specifier) => {
+			if (chain.includes(specifier)) {
+				throw new DependencyResolutionError(
+					`Circular static import: ${[...chain, specifier].join(" -> ")}`,
+					{ specifier, cycle: [...chain, specifier] }
+				);
+			}
+
+			const linked = this.staticModules.get(specifier);
+			if (linked) return linked.url;
+
+			if (!this.registry) {
+				throw new DependencyResolutionError(
+					`Cannot resolve static import "synthase:${specifier}": no registry configured`,
+					{ specifier }
+				);
+			}
+
+			let resolved: ResolvedScript;
+			try {
+				resolved = await this.resolveLocked(this.registry, specifier);
+			} catch (error: any) {
+				throw new DependencyResolutionError(
+					`Failed to resolve static import "synthase:${specifier}": ${error.message}`,
+					{ specifier },
+					error
+				);
+			}
+			await this.checkTrust(resolved.content, specifier, resolved.registry);
+
+			const validation = this.scriptValidator.validateScript(
+				resolved.content,
+				"module"
+			);
+			if (!validation.valid) {
+				throw new ValidationError(
+					`Module ${specifier} validation failed: ${validation.errors.join(", ")}`,
+					{ scriptId: specifier, errors: validation.errors }
+				);
+			}
+
+			const { code, columnShifts } = this.compile(
+				await this.linkStaticImports(resolved.content, [...chain, specifier])
+			);
+			// Worker threads cannot import blob: URLs created in the host
+			const url = this.workerIsolation
+				? toModuleDataUrl(code)
+				: URL.createObjectURL(
+						new Blob([code], { type: "application/javascript" })
+					);
+
+			this.staticModules.set(specifier, {
+				url,
+				content: resolved.content,
+				columnShifts,
+				imports: findStaticImports(resolved.content).map(
+					(imp) => imp.specifier
+				),
+			});
+			this.logger.debug("Linked static import", { specifier });
+			return url;
+		});
+	}
+
+	/**
+	 * Forget linked modules so they are resolved again on next use
+	 */
+	private releaseModules(specifiers: Iterable<string>): void {
+		for (const specifier of Array.from(specifiers)) {
+			const linked = this.staticModules.get(specifier);
+			if (!linked) continue;
+
+			revokeModuleUrl(linked);
+			this.staticModules.delete(specifier);
+		}
+	}
+
+	/**
+	 * Validate script content, reusing the results in the cache store when
+	 * this exact content was validated before
+	 */
+	private async validateContent(
+		content: string,
+		contentHash: string,
+		label: string
+	): Promise<{ warnings: string[]; metadata?: CachedScriptMetadata }> {
+		const metadata = await this.readCacheStore(contentHash);
+		let validation: { valid: boolean; errors: string[]; warnings: string[] };
+		if (metadata) {
+			// Stores can be shared or persisted, so the checks instrumentation
+			// relies on run again even when the stored results are reused
+			const errors = this.scriptValidator.checkReservedIdentifiers(content);
+			validation = {
+				valid: errors.length === 0,
+				errors,
+				warnings: metadata.warnings,
+			};
+		} else {
+			validation = this.scriptValidator.validateScript(content);
+		}
+		if (!validation.valid) {
+			throw new ValidationError(
+				`${label} validation failed: ${validation.errors.join(", ")}`,
+				{ errors: validation.errors }
+			);
+		}
+		return { warnings: validation.warnings, metadata };
+	}
+
+	/**
+	 * Process validated content. With stored metadata, io and deps are known
+	 * up front and the module is only compiled when the script is first called.
+	 */
+	private async loadContent(
+		id: string,
+		content: string,
+		contentHash: string,
+		validated: { warnings: string[]; metadata?: CachedScriptMetadata }
+	): Promise<LoadedScript> {
+		const { metadata } = validated;
+		if (metadata) {
+			let compiled: Promise<LoadedScript["defaultFunction"]> | null = null;
+			const source: LoadedScript["source"] = { content };
+			const defaultFunction = (...args: any[]) => {
+				compiled ??= this.processScript(id, content).then(
+					(script) => {
+						source.url = script.source?.url;
+						source.columnShifts = script.source?.columnShifts;
+						return script.defaultFunction;
+					},
+					(error) => {
+						compiled = null;
+						throw error;
+					}
+				);
+				return compiled.then((fn) => fn(...args));
+			};
+			return {
+				id,
+				io: metadata.io,
+				deps: [...metadata.deps],
+				defaultFunction,
+				modules: findStaticImports(content).map((imp) => imp.specifier),
+				source,
+			};
+		}
+
+		const script = await this.processScript(id, content);
+		await this.writeCacheStore({
+			contentHash,
+			validator: this.config?.validator?.mode ?? "regex",
+			rules: VALIDATION_RULES_VERSION,
+			warnings: validated.warnings,
+			io: script.io,
+			deps: [...script.deps],
+			timestamp: Date.now(),
+		});
+		return script;
+	}
+
+	/**
+	 * Look up stored metadata produced under the current validation mode and
+	 * rules. Store failures are logged and treated as misses.
+	 */
+	private async readCacheStore(
+		contentHash: string
+	): Promise<CachedScriptMetadata | undefined> {
+		const store = this.config?.cacheStore;
+		if (!store) return undefined;
+
+		try {
+			const metadata = await store.get(contentHash);
+			if (
+				metadata?.contentHash === contentHash &&
+				metadata.validator === (this.config?.validator?.mode ?? "regex") &&
+				metadata.rules === VALIDATION_RULES_VERSION
+			) {
+				this.logger.debug("Using stored script metadata", {
+					hash: contentHash.substring(0, 15),
+				});
+				return metadata;
+			}
+		} catch (error: any) {
+			this.logger.warn("Cache store read failed", { error: error?.message });
+		}
+		return undefined;
+	}
+
+	private async writeCacheStore(metadata: CachedScriptMetadata): Promise<void> {
+		try {
+			await this.config?.cacheStore?.set(metadata.contentHash, metadata);
+		} catch (error: any) {
+			this.logger.warn("Cache store write failed", { error: error?.message });
+		}
 	}
 
 	/**
-	 * Validate inputs against IO schema
+	 * Read file inputs and validate inputs against IO schema
 	 */
-	private validateInputs(
+	private async validateInputs(
 		inputs: Record<string, any>,
 		io: IOSchema
-	): Record<string, any> {
-		const inputsWithDefaults = ParameterUtils.applyDefaults(inputs, io.inputs);
+	): Promise<Record<string, any>> {
+		const inputsWithDefaults = ParameterUtils.applyDefaults(
+			await ParameterUtils.readFileInputs(inputs, io.inputs),
+			io.inputs
+		);
+		const options = { blockIdFormat: this.config?.blockIdFormat };
 
 		for (const [key, spec] of Object.entries(io.inputs)) {
 			if (!ParameterUtils.shouldShowParameter(spec, inputsWithDefaults))
 				continue;
 			if (key in inputsWithDefaults) {
-				ParameterUtils.validateParameter(inputsWithDefaults[key], spec, key);
+				ParameterUtils.validateParameter(
+					inputsWithDefaults[key],
+					spec,
+					key,
+					options
+				);
 			} else {
-				throw new Error(`Missing required input: ${key}`);
+				throw new InputValidationError(`Missing required input: ${key}`, {
+					parameter: key,
+				});
 			}
 		}
 
@@ -487,49 +1449,139 @@ export class Synthase {
 	}
 
 	/**
-	 * Check if script is cached and still valid
+	 * Run a script's default function. Failures of the script's own code are
+	 * reported as ScriptRuntimeError, located in the scripts of this execution.
 	 */
-	private getCachedScript(scriptId: string): CacheEntry | null {
-		const entry = this.scriptCache.get(scriptId);
-		if (!entry) return null;
-
-		// Check if expired
-		const age = Date.now() - entry.timestamp;
-		if (age > this.cachePolicy.maxAge) {
-			console.log(
-				`⏰ Cache expired for ${scriptId} (${Math.round(age / 1000)}s old)`
+	private async runScript(
+		script: LoadedScript,
+		inputs: Record<string, any>,
+		context: Record<string, any>,
+		trace: ExecutionTrace,
+		scriptId: string = script.id
+	): Promise<any> {
+		trace.scripts.push({ scriptId, source: script.source });
+		try {
+			// The meter stays in the host: workers get its remaining budget, host
+			// scripts only reach it through their ticks
+			const outputs = await (this.workerIsolation
+				? script.defaultFunction(inputs, context, trace.operations)
+				: runWithOperationMeter(trace.operations, () =>
+						script.defaultFunction(inputs, context)
+					));
+			trace.operations?.check();
+			return outputs;
+		} catch (error) {
+			throw toScriptRuntimeError(error, scriptId, (stack) =>
+				locateScriptError(stack, (url) =>
+					this.findScriptSource(url, script, scriptId, trace)
+				)
+			);
+		}
+	}
+
+	/**
+	 * Find the script compiled to a module URL. The failing script comes first:
+	 * every worker reports its own script under the same URL.
+	 */
+	private findScriptSource(
+		url: string,
+		script: LoadedScript,
+		scriptId: string,
+		trace: ExecutionTrace
+	): ScriptSource | undefined {
+		if (script.source?.url === url) {
+			const { content, columnShifts } = script.source;
+			return { scriptId, content, columnShifts };
+		}
+		for (const { scriptId: id, source } of trace.scripts) {
+			if (source?.url === url) {
+				const { content, columnShifts } = source;
+				return { scriptId: id, content, columnShifts };
+			}
+		}
+		for (const [specifier, linked] of this.staticModules) {
+			if (linked.url === url) {
+				const { content, columnShifts } = linked;
+				return { scriptId: specifier, content, columnShifts };
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Check outputs against the IO schema according to the output validation mode
+	 */
+	private checkOutputs(
+		outputs: any,
+		io: IOSchema,
+		trace: ExecutionTrace,
+		scriptId?: string
+	): void {
+		const mode = this.config?.outputValidation ?? "off";
+		if (mode === "off") return;
+
+		const errors = ParameterUtils.validateOutputs(outputs, io.outputs, {
+			blockIdFormat: this.config?.blockIdFormat,
+		});
+		if (errors.length === 0) return;
+
+		if (mode === "strict") {
+			throw new ValidationError(
+				`Output validation failed: ${errors.join(", ")}`,
+				{ scriptId, errors }
 			);
-			this.scriptCache.delete(scriptId);
-			return null;
 		}
 
-		return entry;
+		for (const error of errors) {
+			const warning = scriptId ? `${scriptId}: ${error}` : error;
+			this.logger.warn("Output validation failed", { scriptId, error });
+			trace.warnings.push(warning);
+		}
+	}
+
+	/**
+	 * Check if script is cached and still valid
+	 */
+	private getCachedScript(scriptId: string): CacheEntry | null {
+		return this.scriptCache.get(scriptId);
 	}
 
 	/**
-	 * Cache a processed script
+	 * Cache a processed script, weighted by the byte size of its source
 	 */
 	private cacheScript(
 		id: string,
 		script: LoadedScript,
 		content: string,
-		source: string
+		contentHash: string,
+		source: string,
+		warnings: string[] = []
 	): void {
-		const contentHash = this.hashContent(content);
 		const entry: CacheEntry = {
 			script,
 			timestamp: Date.now(),
 			contentHash,
 			source,
+			size: new TextEncoder().encode(content).byteLength,
+			warnings,
 		};
 
 		this.scriptCache.set(id, entry);
-		console.log(
-			`💾 Cached script: ${id} (${source}, hash: ${contentHash.substring(
-				0,
-				8
-			)})`
-		);
+		this.logger.debug("Cached script", {
+			scriptId: id,
+			source,
+			hash: contentHash.substring(0, 15),
+			bytes: entry.size,
+		});
+	}
+
+	/**
+	 * Compiled registry script cached under the requested specifier, by
+	 * loadScriptTree or an earlier import
+	 */
+	private getPreloadedScript(specifier: string): CacheEntry | null {
+		if (!this.registry || !this.scriptCache.peek(specifier)) return null;
+		return this.getCachedScript(specifier);
 	}
 
 	/**
@@ -538,118 +1590,50 @@ export class Synthase {
 	invalidateScript(scriptId: string): void {
 		const deleted = this.scriptCache.delete(scriptId);
 		if (deleted) {
-			console.log(`🗑️ Invalidated cache for: ${scriptId}`);
+			this.logger.debug("Invalidated cache", { scriptId });
 		}
 	}
 
 	/**
 	 * Invalidate cache by content (call this when script content changes)
 	 */
-	invalidateByContent(scriptId: string, newContent: string): void {
-		const entry = this.scriptCache.get(scriptId);
+	async invalidateByContent(
+		scriptId: string,
+		newContent: string
+	): Promise<void> {
+		const entry = this.scriptCache.peek(scriptId);
 		if (!entry) return;
 
-		const newHash = this.hashContent(newContent);
+		const newHash = await computeIntegrity(newContent);
 		if (entry.contentHash !== newHash) {
-			console.log(`🔄 Content changed for ${scriptId}, invalidating cache`);
+			this.logger.debug("Content changed, invalidating cache", { scriptId });
 			this.invalidateScript(scriptId);
 		}
 	}
 
 	/**
-	 * Clean up old cache entries
+	 * Clean up expired cache entries
 	 */
 	private cleanupCache(): void {
-		const entries = Array.from(this.scriptCache.entries());
-
-		// Remove expired entries
-		const now = Date.now();
-		let cleaned = 0;
-		for (const [id, entry] of entries) {
-			if (now - entry.timestamp > this.cachePolicy.maxAge) {
-				this.scriptCache.delete(id);
-				cleaned++;
-			}
-		}
-
-		// Remove excess entries (LRU)
-		const remaining = Array.from(this.scriptCache.entries());
-		if (remaining.length > this.cachePolicy.maxSize) {
-			remaining
-				.sort((a, b) => a[1].timestamp - b[1].timestamp)
-				.slice(0, remaining.length - this.cachePolicy.maxSize)
-				.forEach(([id]) => {
-					this.scriptCache.delete(id);
-					cleaned++;
-				});
-		}
-
+		const cleaned = this.scriptCache.removeExpired();
 		if (cleaned > 0) {
-			console.log(`🧹 Cleaned up ${cleaned} cache entries`);
+			this.logger.debug("Cleaned up cache entries", { count: cleaned });
 		}
 	}
 
 	/**
-	 * Get cache statistics
+	 * Get cache statistics: entries, hit/miss counts, evictions and cached bytes
 	 */
-	getCacheStats() {
-		const entries = Array.from(this.scriptCache.values());
-		const now = Date.now();
-
-		return {
-			totalEntries: entries.length,
-			avgAge:
-				entries.length > 0
-					? Math.round(
-							entries.reduce((sum, e) => sum + (now - e.timestamp), 0) /
-								entries.length /
-								1000
-						)
-					: 0,
-			sources: entries.reduce(
-				(acc, e) => {
-					acc[e.source] = (acc[e.source] || 0) + 1;
-					return acc;
-				},
-				{} as Record<string, number>
-			),
-		};
-	}
-
-	/**
-	 * Better content hashing for cache invalidation
-	 */
-	private hashContent(content: string): string {
-		let hash = 0;
-		if (content.length === 0) return hash.toString(36);
-
-		for (let i = 0; i < content.length; i++) {
-			const char = content.charCodeAt(i);
-			hash = (hash << 5) - hash + char;
-			hash = hash & hash;
-		}
-
-		hash = hash ^ content.length;
-
-		const hashStr = Math.abs(hash).toString(36);
-
-		const checksum =
-			content.length > 0
-				? (
-						content.charCodeAt(0) + content.charCodeAt(content.length - 1)
-					).toString(36)
-				: "0";
-
-		return `${hashStr}_${checksum}_${content.length}`;
+	getCacheStats(): CacheStats {
+		return this.scriptCache.getStats();
 	}
 
 	/**
 	 * Clear all caches
 	 */
 	clearCache(): void {
-		const count = this.scriptCache.size;
-		this.scriptCache.clear();
-		console.log(`🗑️ Cleared ${count} cache entries`);
+		const count = this.scriptCache.clear();
+		this.logger.debug("Cleared cache entries", { count });
 	}
 
 	/**
@@ -669,7 +1653,7 @@ export class Synthase {
 	 * Fixed version that properly imports the module to preserve function scope
 	 */
 	private async introspectModule(moduleInfo: { url: string; content: string }) {
-		console.log("🔧 Introspecting module exports...");
+		this.logger.debug("Introspecting module exports");
 
 		try {
 			// Import the module as a proper ES6 module to preserve all scope
@@ -699,27 +1683,85 @@ export class Synthase {
 
 			// If it's an import error, try to give a more helpful message
 			if (error.message.includes("import")) {
-				throw new Error(
-					`Script import failed: ${error.message}. Make sure your script exports are valid ES6 module syntax.`
+				throw new ValidationError(
+					`Script import failed: ${error.message}. Make sure your script exports are valid ES6 module syntax.`,
+					{ errors: [error.message] },
+					error
 				);
 			}
 
-			throw new Error(`Script introspection failed: ${error.message}`);
+			throw new ValidationError(
+				`Script introspection failed: ${error.message}`,
+				{ errors: [error.message] },
+				error
+			);
 		}
 	}
 
 	/**
-	 * Extract dependencies from script content
+	 * Introspect a script inside a worker; the returned default function
+	 * executes the script in a fresh worker on every call
+	 */
+	private async introspectInWorker(content: string) {
+		this.logger.debug("Introspecting module exports in worker");
+
+		const isolation = this.workerIsolation!;
+		const introspection = new AbortController();
+		let exports: { io: IOSchema | undefined; hasDefault: boolean };
+
+		try {
+			exports = await this.executionLimits.executeWithTimeout(
+				() => isolation.introspect(content, introspection.signal),
+				this.executionLimits.timeout,
+				() => introspection.abort("Script introspection timed out")
+			);
+		} catch (error: any) {
+			throw new ValidationError(
+				`Script introspection failed: ${error.message}`,
+				{ errors: [error.message] },
+				error
+			);
+		}
+
+		if (!exports.io) {
+			throw new ValidationError(
+				"Script introspection failed: No 'io' export found in script",
+				{ errors: ["No 'io' export found in script"] }
+			);
+		}
+		if (!exports.hasDefault) {
+			throw new ValidationError(
+				"Script introspection failed: No default function export found in script",
+				{ errors: ["No default function export found in script"] }
+			);
+		}
+
+		const defaultFunction = (
+			inputs: Record<string, any>,
+			context: Record<string, any>,
+			meter?: OperationMeter
+		) => isolation.run(content, inputs, context, meter);
+
+		return {
+			io: exports.io,
+			deps: this.extractDependencies(content),
+			defaultFunction,
+		};
+	}
+
+	/**
+	 * Extract dependency specifiers ("id" or "id@range") from script content
 	 */
 	private extractDependencies(scriptContent: string): string[] {
 		const importMatches =
-			scriptContent.match(/importScript\s*\(\s*["']([^"']+)["']\s*\)/g) || [];
-		return importMatches
+			scriptContent.match(/importScript\s*\(\s*["']([^"']+)["']\s*[,)]/g) || [];
+		const specifiers = importMatches
 			.map((match) => {
 				const urlMatch = match.match(/["']([^"']+)["']/);
 				return urlMatch ? urlMatch[1] : "";
 			})
 			.filter(Boolean);
+		return Array.from(new Set(specifiers));
 	}
 
 	/**
@@ -727,6 +1769,9 @@ export class Synthase {
 	 */
 	dispose() {
 		this.clearCache();
+		this.releaseModules(this.staticModules.keys());
+		this.discardInvalidated();
 		this.resourceMonitor.dispose();
+		this.workerIsolation?.terminateAll("Synthase instance disposed");
 	}
 }
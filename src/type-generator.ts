@@ -0,0 +1,169 @@
+// type-generator.ts
+import { validate, type QuickExecuteOptions } from "./synthase-utils";
+import { AstScriptAnalyzer } from "./ast-script-analyzer";
+import { ScriptValidator } from "./script-validator";
+import {
+	ParameterUtils,
+	type IOSchema,
+	type ParameterSpec,
+	type ScriptContentResolver,
+} from "./types";
+
+/**
+ * Options for generating type declarations
+ */
+export interface TypeGeneratorOptions {
+	name?: string; // Interface name prefix, e.g. "Cuboid" -> CuboidInputs (default "Script")
+}
+
+/**
+ * Emit `.d.ts` source declaring `<Name>Inputs` and `<Name>Outputs` for an io schema.
+ * Inputs with a default or a `dependsOn` condition are optional.
+ */
+export function generateTypeDeclarations(
+	io: IOSchema,
+	options: TypeGeneratorOptions = {}
+): string {
+	const name = toTypeName(options.name ?? "Script");
+	const inputs = renderObject(io.inputs, "inputs", 0);
+	const outputs = renderObject(io.outputs, "outputs", 0);
+	const usesFiles = [inputs, outputs].some((body) =>
+		body.includes("FileInput")
+	);
+
+	return [
+		"// Generated by synthase from the script's io schema. Do not edit.",
+		...(usesFiles ? ['import type { FileInput } from "synthase";', ""] : []),
+		`export interface ${name}Inputs ${inputs}`,
+		"",
+		`export interface ${name}Outputs ${outputs}`,
+		"",
+	].join("\n");
+}
+
+/**
+ * Load a script and emit type declarations for its io schema
+ */
+export async function generateTypesForScript(
+	scriptContentOrResolver: string | ScriptContentResolver,
+	options: QuickExecuteOptions & TypeGeneratorOptions = {}
+): Promise<string> {
+	const result = await validate(scriptContentOrResolver, options);
+	if (!result.valid || !result.io) {
+		throw new Error(
+			`Cannot generate types: ${(result.errors || ["no io schema"]).join(", ")}`
+		);
+	}
+	return generateTypeDeclarations(result.io, options);
+}
+
+/**
+ * Emit type declarations for script source without running it. The io
+ * literal is read statically, so this works in runtimes like Node that
+ * cannot import the blob: URLs scripts are loaded from.
+ */
+export function generateTypesForSource(
+	content: string,
+	options: TypeGeneratorOptions = {}
+): string {
+	const result = new ScriptValidator().validateScript(content);
+	if (!result.valid) {
+		throw new Error(`Cannot generate types: ${result.errors.join(", ")}`);
+	}
+	const { io, ioError } = new AstScriptAnalyzer().analyze(content);
+	if (io === undefined) {
+		throw new Error(`Cannot generate types: ${ioError ?? "no io schema"}`);
+	}
+	return generateTypeDeclarations(io as IOSchema, options);
+}
+
+/**
+ * Turn a script name such as "cuboid-generator" into "CuboidGenerator"
+ */
+function toTypeName(name: string): string {
+	const pascal = name
+		.split(/[^A-Za-z0-9]+/)
+		.filter(Boolean)
+		.map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+		.join("");
+	return /^[A-Za-z_$]/.test(pascal) ? pascal : `_${pascal}`;
+}
+
+function renderObject(
+	params: Record<string, ParameterSpec>,
+	direction: "inputs" | "outputs",
+	depth: number
+): string {
+	const entries = Object.entries(params);
+	if (entries.length === 0) return "{}";
+
+	const indent = "\t".repeat(depth + 1);
+	const lines: string[] = ["{"];
+
+	for (const [key, spec] of entries) {
+		const param = ParameterUtils.normalize(spec);
+		const optional =
+			param.dependsOn !== undefined ||
+			(direction === "inputs" && param.default !== undefined);
+
+		if (param.description) {
+			lines.push(
+				`${indent}/** ${param.description.replace(/\*\//g, "*\\/")} */`
+			);
+		}
+		lines.push(
+			`${indent}${renderKey(key)}${optional ? "?" : ""}: ${renderType(
+				param,
+				direction,
+				depth + 1
+			)};`
+		);
+	}
+
+	lines.push(`${"\t".repeat(depth)}}`);
+	return lines.join("\n");
+}
+
+function renderType(
+	spec: ParameterSpec,
+	direction: "inputs" | "outputs",
+	depth: number
+): string {
+	const param = ParameterUtils.normalize(spec);
+
+	if (param.options && param.options.length > 0) {
+		return param.options.map((option) => JSON.stringify(option)).join(" | ");
+	}
+
+	switch (param.type) {
+		case "int":
+		case "float":
+			return "number";
+		case "string":
+		case "BlockId":
+			return "string";
+		case "boolean":
+			return "boolean";
+		case "object":
+			return param.properties
+				? renderObject(param.properties, direction, depth)
+				: "Record<string, any>";
+		case "array": {
+			const itemSpec = ParameterUtils.getItemSpec(param);
+			if (!itemSpec) return "any[]";
+			const itemType = renderType(itemSpec, direction, depth);
+			return /^[\w.<>, ]+$/.test(itemType)
+				? `${itemType}[]`
+				: `Array<${itemType}>`;
+		}
+		case "file":
+			// Callers may pass a File/Blob, which is read before the script runs
+			return direction === "inputs" ? "FileInput | Blob" : "FileInput";
+		default:
+			return "any";
+	}
+}
+
+function renderKey(key: string): string {
+	return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
@@ -1,17 +1,87 @@
 // types.ts
+import type { SynthaseLogger } from "./logger";
+import type { ColumnShift } from "./script-stack";
+import { InputValidationError } from "./errors";
+import {
+	checkFileConstraints,
+	checkFileContent,
+	fileInputSize,
+	isBlob,
+	readFileInput,
+} from "./file-inputs";
+import {
+	ioFromJSONSchema,
+	ioToJSONSchema,
+	type IOJSONSchema,
+} from "./json-schema";
+
+// Parameter types checked at runtime
+export type ParameterType =
+	| "int"
+	| "float"
+	| "string"
+	| "boolean"
+	| "object"
+	| "array"
+	| "file"
+	| "BlockId";
+
+// Alternative spellings, normalized to a ParameterType
+export type ParameterTypeAlias = "integer" | "number" | "text" | "bool";
+
+export const PARAMETER_TYPE_ALIASES: Record<ParameterTypeAlias, ParameterType> =
+	{
+		integer: "int",
+		number: "float",
+		text: "string",
+		bool: "boolean",
+	};
+
+// How a file input's content is read
+export type FileReadMode =
+	| "text"
+	| "json"
+	| "dataURL"
+	| "arrayBuffer"
+	| "binaryString";
+
+// Value of a file input as seen by scripts
+export interface FileInput {
+	name: string;
+	type?: string; // MIME type
+	size: number; // Bytes
+	content: any; // Shaped by the parameter's readAs mode
+}
+
+// Default BlockId format: optional namespace, path and optional block states,
+// e.g. "stone", "minecraft:oak_log[axis=y]"
+export const DEFAULT_BLOCK_ID_FORMAT =
+	/^(?:[a-z0-9_.-]+:)?[a-z0-9_./-]+(?:\[[a-z0-9_]+=[a-z0-9_]+(?:,[a-z0-9_]+=[a-z0-9_]+)*\])?$/;
+
+// Options that tune runtime parameter validation
+export interface ParameterValidationOptions {
+	blockIdFormat?: RegExp; // Format for BlockId parameters without their own `format`
+}
+
 // Enhanced parameter definition
 export interface ParameterDef {
-	type: "int" | "float" | "string" | "boolean" | "object" | "array";
+	type: ParameterType | ParameterTypeAlias;
 	default?: any;
 	min?: number;
 	max?: number;
 	step?: number;
 	options?: any[];
-	itemType?: string; // For arrays
+	itemType?: string; // For arrays (legacy, prefer `items`)
+	items?: ParameterSpec; // Spec every array element must satisfy
+	properties?: Record<string, ParameterSpec>; // Fields of an object parameter
 	description?: string;
 	placeholder?: string;
 	group?: string;
 	dependsOn?: Record<string, any>; // Conditional visibility
+	accept?: string; // File inputs: accepted extensions/MIME types, e.g. ".json,image/*"
+	maxSize?: number; // File inputs: maximum size in bytes
+	readAs?: FileReadMode; // File inputs: how content is read (default "text")
+	format?: string | RegExp; // BlockId inputs: overrides the configured format
 }
 
 export interface ContextProvider {
@@ -22,18 +92,112 @@ export interface SynthaseConfig {
 	registry?: ScriptRegistry;
 	limits?: ExecutionLimitsConfig;
 	resourceMonitor?: ResourceMonitorConfig;
-	cachePolicy?: {
-		maxAge?: number;
-		maxSize?: number;
-	};
+	validator?: ScriptValidatorConfig;
+	cachePolicy?: CachePolicyConfig;
 	contextProviders?: ContextProvider; // Injectable dependencies
+	isolation?: IsolationMode; // Where scripts are loaded and executed
+	logger?: SynthaseLogger; // Receives engine diagnostics and script logs (silent by default)
+	outputValidation?: OutputValidationMode; // Check returned values against io.outputs
+	blockIdFormat?: RegExp; // Format BlockId parameters must match (DEFAULT_BLOCK_ID_FORMAT)
+	lockfile?: ScriptLockfile; // Registry dependencies must match these exact versions and hashes
+	trust?: TrustPolicy; // Signers accepted for registry and resolver content
+	cacheStore?: CacheStore; // Shares validation results and io/deps across instances
+}
+
+/**
+ * Which Ed25519 keys may sign imported scripts. Content with a bad signature is
+ * always refused; unsigned content only when signatures are required.
+ */
+export interface TrustPolicy {
+	keys?: TrustedKeys; // Used for registries without their own entry and for resolvers
+	registries?: RegistryTrust[];
+	requireSignatures?: boolean; // Refuse unsigned content (default false)
 }
 
+// Key id -> base64 Ed25519 public key
+export type TrustedKeys = Record<string, string>;
+
+export interface RegistryTrust {
+	registry: ScriptRegistry; // Matched against the registry that served the content
+	keys: TrustedKeys;
+	requireSignatures?: boolean; // Overrides the policy default for this registry
+}
+
+// Resolved registry dependencies of a script tree, written by Synthase.getLockfile()
+export interface ScriptLockfile {
+	lockfileVersion: 1;
+	dependencies: Record<string, LockedDependency>; // Keyed by the specifier scripts import
+}
+
+export interface LockedDependency {
+	id: string;
+	version?: string; // Exact version, for versioned registries
+	integrity: string; // SHA-256 of the content, "sha256-<base64>"
+}
+
+/**
+ * How script return values are checked against io.outputs:
+ * - "off": outputs are returned unchecked (default)
+ * - "warn": problems are logged and added to the execution warnings
+ * - "strict": problems reject the call
+ */
+export type OutputValidationMode = "off" | "warn" | "strict";
+
+/**
+ * Execution backend for scripts:
+ * - "none": scripts run in the host realm (default)
+ * - "worker": scripts run in a worker thread that is terminated on timeout;
+ *   context provider calls are marshalled over message passing
+ */
+export type IsolationMode = "none" | "worker";
+
 export interface CacheEntry {
 	script: LoadedScript;
 	timestamp: number;
-	contentHash: string;
+	contentHash: string; // SHA-256 integrity of the content
 	source: string;
+	size: number; // Source size in bytes
+	warnings?: string[]; // Validation warnings, reported again when imported
+}
+
+// Per-call options for Synthase.call. Limits are capped by the instance limits.
+export interface CallOptions extends ExecutionLimitsConfig {
+	signal?: AbortSignal; // Aborts the execution, exposed to scripts as context.signal
+	contextProviders?: ContextProvider; // Added to the instance providers for this call, overriding same-named ones
+	runId?: string; // Identifies the call in logs and the result (generated when omitted)
+}
+
+// A message written by a script through the Logger context
+export interface LogEntry {
+	level: "info" | "success" | "warn" | "error";
+	message: string;
+	timestamp: number;
+	scriptId: string; // Main or imported script that wrote the entry
+}
+
+// A script imported through importScript during an execution
+export interface ImportRecord {
+	id: string;
+	source: "registry" | "content" | "resolver";
+	specifier?: string; // Registry id, when resolved through the registry
+	version?: string; // Exact version picked by a versioned registry
+	integrity: string; // SHA-256 of the imported content, "sha256-<base64>"
+}
+
+// Options for importScript
+export interface ImportOptions {
+	integrity?: string; // Expected SHA-256 of the content ("sha256-<base64>"); a mismatch is rejected
+}
+
+// Detailed outcome of an execution, returned by Synthase.callDetailed
+export interface ExecutionResult<T = any> {
+	outputs: T;
+	logs: LogEntry[];
+	warnings: string[];
+	stats: ResourceStats;
+	imports: ImportRecord[];
+	durationMs: number;
+	runId: string;
 }
 
 // Execution context for imported scripts
@@ -42,17 +206,71 @@ export interface ImportedScript {
 	io: IOSchema;
 	deps: string[];
 	id: string;
+	version?: string;
 }
 
 export interface ScriptRegistry {
 	resolve(scriptId: string): Promise<string>;
+	/**
+	 * Resolve a specifier such as "noise@^1.2" to the exact version picked
+	 */
+	resolveVersioned?(specifier: string): Promise<ResolvedScript>;
+}
+
+// A script resolved from a registry, with the exact version picked (if versioned)
+export interface ResolvedScript {
+	id: string;
+	version?: string;
+	content: string;
+	integrity?: string; // SHA-256 of the content, "sha256-<base64>"
+	registry?: ScriptRegistry; // Registry that served the content, inside any wrappers
 }
 
 export interface LoadedScript {
 	id: string;
 	io: IOSchema;
-	deps: string[];
+	deps: string[]; // Dependency specifiers, pinned to exact versions once resolved
 	defaultFunction: Function;
+	version?: string; // Exact version, for scripts resolved from a versioned registry
+	modules?: string[]; // Registry specifiers of static "synthase:" imports
+	source?: { content: string; url?: string; columnShifts?: ColumnShift[] }; // Module URL once compiled, to map stack traces
+}
+
+/**
+ * How a script in the dependency graph was obtained during the last load:
+ * - "resolved": fetched from the registry and compiled
+ * - "cached": served from the compiled script cache
+ * - "pending": a static import that is linked when its importer compiles
+ * - "skipped": not loaded because no registry is configured
+ * - "failed": resolution, validation or compilation failed (see `error`)
+ */
+export type DependencyStatus =
+	| "resolved"
+	| "cached"
+	| "pending"
+	| "skipped"
+	| "failed";
+
+export interface DependencyNode {
+	id: string; // Specifier as requested; the main script uses its generated id
+	kind: "main" | "script" | "module";
+	status: DependencyStatus;
+	version?: string; // Exact version picked, for versioned registries
+	integrity?: string; // SHA-256 of the content
+	error?: string;
+}
+
+export interface DependencyEdge {
+	from: string;
+	to: string;
+	kind: "import" | "static"; // importScript() call or static "synthase:" import
+}
+
+// Scripts and modules reachable from the main script
+export interface DependencyGraph {
+	root: string;
+	nodes: DependencyNode[];
+	edges: DependencyEdge[];
 }
 
 // Backward compatibility: support both string and ParameterDef
@@ -89,11 +307,22 @@ export interface ExecutionContext {
 		randomChoice: (array: any[]) => any;
 	};
 
+	/**
+	 * Fires when the caller cancels the execution
+	 */
+	signal?: AbortSignal;
+
+	/**
+	 * Identifies the current call, shared by imported scripts
+	 */
+	runId: string;
+
 	/**
 	 * Import script function that returns callable script
 	 */
 	importScript: (
-		contentOrResolver: string | ScriptContentResolver
+		contentOrResolver: string | ScriptContentResolver,
+		options?: ImportOptions
 	) => Promise<ImportedScript>;
 }
 
@@ -103,6 +332,7 @@ export interface ImportedScript {
 	io: IOSchema;
 	deps: string[];
 	id: string;
+	version?: string;
 }
 
 // Validation result interface
@@ -110,14 +340,66 @@ export interface ValidationResult {
 	valid: boolean;
 	errors: string[];
 	warnings?: string[];
+	findings?: ValidationFinding[]; // Located errors (AST mode only)
+}
+
+// A validation error located in the script source (1-based line and column)
+export interface ValidationFinding {
+	message: string;
+	line: number;
+	column: number;
 }
 
 // Cache entry interface
 export interface CacheEntry {
 	script: LoadedScript;
 	timestamp: number;
-	contentHash: string;
+	contentHash: string; // SHA-256 integrity of the content
 	source: string;
+	size: number; // Source size in bytes, counted against maxBytes
+	warnings?: string[]; // Validation warnings, reported again when imported
+}
+
+// Limits for the compiled script cache
+export interface CachePolicyConfig {
+	maxAge?: number; // Entry lifetime in ms (default 5 minutes)
+	maxSize?: number; // Max cached scripts (default 100)
+	maxBytes?: number; // Max total source bytes of cached scripts (default 50MB)
+}
+
+// Compiled script cache statistics
+export interface CacheStats {
+	totalEntries: number;
+	avgAge: number; // Seconds
+	sources: Record<string, number>;
+	hits: number;
+	misses: number;
+	evictions: number; // Entries dropped to stay within maxSize or maxBytes
+	expirations: number; // Entries dropped after maxAge
+	bytes: number;
+	maxBytes: number;
+}
+
+/**
+ * Validation and introspection results for one script, keyed by content hash.
+ * A hit lets Synthase skip validation and defer compiling until first call.
+ */
+export interface CachedScriptMetadata {
+	contentHash: string; // SHA-256 integrity of the content
+	validator: ValidationMode; // Mode that produced the warnings
+	rules: number; // VALIDATION_RULES_VERSION that produced the warnings
+	warnings: string[];
+	io: IOSchema;
+	deps: string[]; // Dependency specifiers as written in the script
+	timestamp: number;
+}
+
+// Storage for script metadata that outlives a Synthase instance
+export interface CacheStore {
+	get(contentHash: string): Promise<CachedScriptMetadata | undefined>;
+	set(contentHash: string, metadata: CachedScriptMetadata): Promise<void>;
+	delete(contentHash: string): Promise<boolean>;
+	clear(): Promise<void>;
 }
 
 // Resource monitoring stats
@@ -128,19 +410,48 @@ export interface ResourceStats {
 	memoryPercentage: number;
 	duration: number;
 	checksPerformed: number;
+	memoryBackend: MemoryBackend;
+	peakMemory: MemoryUsage; // Highest growth of each measured metric, in bytes
 }
 
+/**
+ * Memory metrics, measured as growth since monitoring started:
+ * - "heapUsed": JavaScript heap in use (`usedJSHeapSize` in browsers)
+ * - "rss": resident set size of the process
+ * - "arrayBuffers": memory held by ArrayBuffers and SharedArrayBuffers
+ */
+export type MemoryMetric = "heapUsed" | "rss" | "arrayBuffers";
+
+export type MemoryUsage = Partial<Record<MemoryMetric, number>>;
+
+// Source of memory measurements: process.memoryUsage() (Node, Bun), performance.memory (Chrome) or none
+export type MemoryBackend = "process" | "performance" | "none";
+
 // Execution limits configuration
 export interface ExecutionLimitsConfig {
 	timeout?: number;
 	maxRecursionDepth?: number;
 	maxImportedScripts?: number;
 	maxMemory?: number;
+	maxOperations?: number; // Loop iterations and function calls; scripts are instrumented when set
+}
+
+// Script validator configuration
+export interface ScriptValidatorConfig {
+	mode?: ValidationMode;
 }
 
+/**
+ * How scripts are scanned for unsafe code:
+ * - "regex": pattern heuristics over comment-stripped text (default)
+ * - "ast": rules evaluated on a parsed JavaScript syntax tree
+ */
+export type ValidationMode = "regex" | "ast";
+
 // Resource monitor configuration
 export interface ResourceMonitorConfig {
-	maxMemory?: number;
+	maxMemory?: number; // Limit for heapUsed
+	memoryLimits?: MemoryUsage; // Limits per metric, in bytes
 	checkIntervalMs?: number;
 }
 
@@ -149,15 +460,40 @@ export class ParameterUtils {
 	static normalize(spec: ParameterSpec): ParameterDef {
 		if (typeof spec === "string") {
 			// Legacy format: just a type string
-			return { type: spec as any };
+			return { type: this.canonicalType(spec) as any };
 		}
-		return spec;
+		const type = this.canonicalType(spec.type);
+		return type === spec.type ? spec : { ...spec, type: type as ParameterType };
+	}
+
+	/**
+	 * Map a type alias such as "integer" to its canonical type
+	 */
+	static canonicalType(type: string): string {
+		return PARAMETER_TYPE_ALIASES[type as ParameterTypeAlias] ?? type;
+	}
+
+	/**
+	 * Whether a type name is a canonical type or an alias
+	 */
+	static isKnownType(type: string): boolean {
+		const known: ParameterType[] = [
+			"int",
+			"float",
+			"string",
+			"boolean",
+			"object",
+			"array",
+			"file",
+			"BlockId",
+		];
+		return known.includes(this.canonicalType(type) as ParameterType);
 	}
 
 	static getDefault(spec: ParameterSpec): any {
 		const param = this.normalize(spec);
 		if (param.default !== undefined) {
-			return param.default;
+			return this.applyNestedDefaults(param.default, param);
 		}
 
 		// Sensible defaults based on type
@@ -171,9 +507,11 @@ export class ParameterUtils {
 			case "boolean":
 				return false;
 			case "object":
-				return {};
+				return param.properties ? this.applyDefaults({}, param.properties) : {};
 			case "array":
 				return [];
+			case "BlockId":
+				return "minecraft:air";
 			default:
 				return null;
 		}
@@ -188,6 +526,59 @@ export class ParameterUtils {
 		for (const [key, spec] of Object.entries(schema)) {
 			if (!(key in result)) {
 				result[key] = this.getDefault(spec);
+			} else {
+				result[key] = this.applyNestedDefaults(result[key], spec);
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Fill defaults inside object properties and array items, without mutating the value
+	 */
+	static applyNestedDefaults(value: any, spec: ParameterSpec): any {
+		const param = this.normalize(spec);
+
+		if (
+			param.type === "object" &&
+			param.properties &&
+			typeof value === "object" &&
+			value !== null &&
+			!Array.isArray(value)
+		) {
+			return this.applyDefaults(value, param.properties);
+		}
+
+		const itemSpec = this.getItemSpec(param);
+		if (param.type === "array" && itemSpec && Array.isArray(value)) {
+			return value.map((item) => this.applyNestedDefaults(item, itemSpec));
+		}
+
+		return value;
+	}
+
+	/**
+	 * Spec of array elements, from `items` or the legacy `itemType`
+	 */
+	static getItemSpec(spec: ParameterSpec): ParameterSpec | undefined {
+		const param = this.normalize(spec);
+		return param.items ?? param.itemType;
+	}
+
+	/**
+	 * Read Blob/File values of file inputs into FileInput records
+	 */
+	static async readFileInputs(
+		inputs: Record<string, any>,
+		schema: Record<string, ParameterSpec>
+	): Promise<Record<string, any>> {
+		const result = { ...inputs };
+
+		for (const [key, spec] of Object.entries(schema)) {
+			const param = this.normalize(spec);
+			if (param.type === "file" && isBlob(result[key])) {
+				result[key] = await readFileInput(result[key], param, key);
 			}
 		}
 
@@ -197,7 +588,8 @@ export class ParameterUtils {
 	static validateParameter(
 		value: any,
 		spec: ParameterSpec,
-		paramName: string
+		paramName: string,
+		options: ParameterValidationOptions = {}
 	): void {
 		const param = this.normalize(spec);
 
@@ -205,81 +597,225 @@ export class ParameterUtils {
 		switch (param.type) {
 			case "int":
 				if (!Number.isInteger(value)) {
-					throw new Error(
-						`${paramName} must be an integer, got: ${typeof value}`
+					throw new InputValidationError(
+						`${paramName} must be an integer, got: ${typeof value}`,
+						{ parameter: paramName }
 					);
 				}
 				if (param.min !== undefined && value < param.min) {
-					throw new Error(
-						`${paramName} must be >= ${param.min}, got: ${value}`
+					throw new InputValidationError(
+						`${paramName} must be >= ${param.min}, got: ${value}`,
+						{ parameter: paramName }
 					);
 				}
 				if (param.max !== undefined && value > param.max) {
-					throw new Error(
-						`${paramName} must be <= ${param.max}, got: ${value}`
+					throw new InputValidationError(
+						`${paramName} must be <= ${param.max}, got: ${value}`,
+						{ parameter: paramName }
 					);
 				}
 				break;
 
 			case "float":
 				if (typeof value !== "number") {
-					throw new Error(
-						`${paramName} must be a number, got: ${typeof value}`
+					throw new InputValidationError(
+						`${paramName} must be a number, got: ${typeof value}`,
+						{ parameter: paramName }
 					);
 				}
 				if (param.min !== undefined && value < param.min) {
-					throw new Error(
-						`${paramName} must be >= ${param.min}, got: ${value}`
+					throw new InputValidationError(
+						`${paramName} must be >= ${param.min}, got: ${value}`,
+						{ parameter: paramName }
 					);
 				}
 				if (param.max !== undefined && value > param.max) {
-					throw new Error(
-						`${paramName} must be <= ${param.max}, got: ${value}`
+					throw new InputValidationError(
+						`${paramName} must be <= ${param.max}, got: ${value}`,
+						{ parameter: paramName }
 					);
 				}
 				break;
 
 			case "string":
 				if (typeof value !== "string") {
-					throw new Error(
-						`${paramName} must be a string, got: ${typeof value}`
+					throw new InputValidationError(
+						`${paramName} must be a string, got: ${typeof value}`,
+						{ parameter: paramName }
 					);
 				}
 				if (param.options && !param.options.includes(value)) {
-					throw new Error(
+					throw new InputValidationError(
 						`${paramName} must be one of: ${param.options.join(
 							", "
-						)}, got: ${value}`
+						)}, got: ${value}`,
+						{ parameter: paramName }
 					);
 				}
 				break;
 
 			case "boolean":
 				if (typeof value !== "boolean") {
-					throw new Error(
-						`${paramName} must be a boolean, got: ${typeof value}`
+					throw new InputValidationError(
+						`${paramName} must be a boolean, got: ${typeof value}`,
+						{ parameter: paramName }
 					);
 				}
 				break;
 
 			case "object":
 				if (typeof value !== "object" || value === null) {
-					throw new Error(
-						`${paramName} must be an object, got: ${typeof value}`
+					throw new InputValidationError(
+						`${paramName} must be an object, got: ${typeof value}`,
+						{ parameter: paramName }
 					);
 				}
+				if (param.properties) {
+					for (const [key, propertySpec] of Object.entries(param.properties)) {
+						if (!this.shouldShowParameter(propertySpec, value)) continue;
+
+						const path = `${paramName}.${key}`;
+						if (value[key] === undefined) {
+							throw new InputValidationError(
+								`Missing required property: ${path}`,
+								{ parameter: path }
+							);
+						}
+						this.validateParameter(value[key], propertySpec, path, options);
+					}
+				}
 				break;
 
-			case "array":
+			case "array": {
 				if (!Array.isArray(value)) {
-					throw new Error(
-						`${paramName} must be an array, got: ${typeof value}`
+					throw new InputValidationError(
+						`${paramName} must be an array, got: ${typeof value}`,
+						{ parameter: paramName }
+					);
+				}
+				const itemSpec = this.getItemSpec(param);
+				if (itemSpec) {
+					value.forEach((item, index) =>
+						this.validateParameter(
+							item,
+							itemSpec,
+							`${paramName}[${index}]`,
+							options
+						)
+					);
+				}
+				break;
+			}
+
+			case "file": {
+				if (
+					typeof value !== "object" ||
+					value === null ||
+					typeof value.name !== "string"
+				) {
+					throw new InputValidationError(
+						`${paramName} must be a file, got: ${value === null ? "null" : typeof value}`,
+						{ parameter: paramName }
 					);
 				}
+				const readAs = param.readAs ?? "text";
+				checkFileConstraints(
+					{
+						name: value.name,
+						type: value.type,
+						size: fileInputSize(value, readAs),
+					},
+					param,
+					paramName
+				);
+				checkFileContent(value.content, readAs, paramName);
 				break;
+			}
+
+			case "BlockId": {
+				if (typeof value !== "string") {
+					throw new InputValidationError(
+						`${paramName} must be a block id, got: ${typeof value}`,
+						{ parameter: paramName }
+					);
+				}
+				const format =
+					param.format !== undefined
+						? new RegExp(param.format)
+						: (options.blockIdFormat ?? DEFAULT_BLOCK_ID_FORMAT);
+				if (!format.test(value)) {
+					throw new InputValidationError(
+						`${paramName} must be a valid block id, got: ${value}`,
+						{ parameter: paramName }
+					);
+				}
+				break;
+			}
 		}
 	}
 
+	/**
+	 * Check script outputs against an output schema.
+	 * Returns one message per problem, naming the output concerned.
+	 */
+	static validateOutputs(
+		outputs: any,
+		schema: Record<string, ParameterSpec>,
+		options: ParameterValidationOptions = {}
+	): string[] {
+		if (
+			typeof outputs !== "object" ||
+			outputs === null ||
+			Array.isArray(outputs)
+		) {
+			const actual = Array.isArray(outputs)
+				? "array"
+				: outputs === null
+					? "null"
+					: typeof outputs;
+			return [`Script must return an object of outputs, got: ${actual}`];
+		}
+
+		const errors: string[] = [];
+
+		for (const [key, spec] of Object.entries(schema)) {
+			if (!this.shouldShowParameter(spec, outputs)) continue;
+
+			if (outputs[key] === undefined) {
+				errors.push(`Missing output: ${key}`);
+				continue;
+			}
+
+			try {
+				this.validateParameter(outputs[key], spec, key, options);
+			} catch (error: any) {
+				errors.push(error.message);
+			}
+		}
+
+		for (const key of Object.keys(outputs)) {
+			if (!(key in schema)) {
+				errors.push(`Undeclared output: ${key}`);
+			}
+		}
+
+		return errors;
+	}
+
+	/**
+	 * Describe inputs and outputs as draft 2020-12 JSON Schemas
+	 */
+	static toJSONSchema(io: IOSchema): IOJSONSchema {
+		return ioToJSONSchema(io);
+	}
+
+	/**
+	 * Build an IOSchema from JSON Schemas for inputs and outputs
+	 */
+	static fromJSONSchema(schema: IOJSONSchema): IOSchema {
+		return ioFromJSONSchema(schema);
+	}
+
 	static shouldShowParameter(
 		spec: ParameterSpec,
 		allInputs: Record<string, any>
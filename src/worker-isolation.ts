@@ -0,0 +1,494 @@
+// worker-isolation.ts
+import type { IOSchema } from "./types";
+import { restoreError } from "./errors";
+import { createAbortError } from "./abort-utils";
+import { createContextHelpers } from "./context-helpers";
+import {
+	OPERATION_TICKER,
+	type OperationMeter,
+} from "./script-instrumentation";
+
+/**
+ * Stands in for the worker's private module URL in stack traces, so the host
+ * can map frames of the script it sent
+ */
+export const WORKER_SCRIPT_URL = "synthase-worker:script";
+
+/**
+ * Source of the worker bootstrap. It runs inside a Web Worker (Bun, Deno,
+ * browsers) or a `worker_threads` worker (Node), loads the user script there
+ * and forwards every context call back to the host over message passing.
+ */
+const WORKER_BOOTSTRAP = `
+const isNodeWorker = typeof self === "undefined";
+const port = isNodeWorker ? require("node:worker_threads").parentPort : self;
+const post = (message) => port.postMessage(message);
+const onMessage = (handler) => {
+	if (isNodeWorker) port.on("message", handler);
+	else self.onmessage = (event) => handler(event.data);
+};
+
+const pending = new Map();
+let nextCallId = 0;
+let moduleUrl = null;
+
+const serializeError = (error) => ({
+	name: error && error.name ? error.name : "Error",
+	message: error && error.message !== undefined ? error.message : String(error),
+	stack: error && typeof error.stack === "string" && moduleUrl
+		? error.stack.split(moduleUrl).join(${JSON.stringify(WORKER_SCRIPT_URL)})
+		: error && error.stack,
+	code: error && error.code,
+	details: error && error.details,
+});
+
+const request = (message) =>
+	new Promise((resolve, reject) => {
+		const callId = ++nextCallId;
+		pending.set(callId, { resolve, reject });
+		try {
+			post({ ...message, callId });
+		} catch (error) {
+			pending.delete(callId);
+			reject(error);
+		}
+	});
+
+const revive = (value) => {
+	if (value && typeof value === "object" && value.__synthaseHandle !== undefined) {
+		const fn = (...args) => request({ type: "invoke", handle: value.__synthaseHandle, args }).then(revive);
+		return Object.assign(fn, value.props);
+	}
+	return value;
+};
+
+const buildProxy = (shape, path) => {
+	if (shape.kind === "function") {
+		return (...args) => request({ type: "call", path, args }).then(revive);
+	}
+	if (shape.kind === "object") {
+		const result = {};
+		for (const [key, child] of Object.entries(shape.props)) {
+			result[key] = buildProxy(child, [...path, key]);
+		}
+		return result;
+	}
+	return shape.value;
+};
+
+const abortController = new AbortController();
+
+const createAbortError = () => {
+	const error = new Error("Script execution aborted");
+	error.name = "AbortError";
+	return error;
+};
+
+const localHelpers = (${createContextHelpers.toString()})(abortController.signal, createAbortError);
+
+// Counts the operations left to this worker; the host adds them to its meter
+const createMeter = ({ remaining, limit }) => ({
+	count: 0,
+	tick() {
+		if (++this.count > remaining) throw this.error();
+	},
+	check() {
+		if (this.count > remaining) throw this.error();
+	},
+	error() {
+		const error = new Error("Operation limit exceeded: maximum " + limit + " operations per execution");
+		error.name = "OperationLimitError";
+		error.code = "OPERATION_LIMIT";
+		error.details = { limit };
+		return error;
+	},
+});
+
+// Each worker runs one session. Instrumented scripts tick through this
+// read-only global; introspection only runs top-level code, on its own budget.
+let sessionMeter = null;
+Object.defineProperty(globalThis, ${JSON.stringify(OPERATION_TICKER)}, {
+	value: (limit) => {
+		let topLevel = null;
+		return () => (sessionMeter || (topLevel ||= createMeter({ remaining: limit, limit }))).tick();
+	},
+});
+
+const loadModule = async (source) => {
+	if (isNodeWorker) {
+		moduleUrl = "data:text/javascript;base64," + Buffer.from(source).toString("base64");
+		return import(moduleUrl);
+	}
+	moduleUrl = URL.createObjectURL(new Blob([source], { type: "application/javascript" }));
+	try {
+		return await import(moduleUrl);
+	} finally {
+		URL.revokeObjectURL(moduleUrl);
+	}
+};
+
+onMessage(async (message) => {
+	if (message.type === "reply") {
+		const call = pending.get(message.callId);
+		if (!call) return;
+		pending.delete(message.callId);
+		if (message.error) {
+			const error = new Error(message.error.message);
+			error.name = message.error.name;
+			if (message.error.stack) error.stack = message.error.stack;
+			if (message.error.code) {
+				error.code = message.error.code;
+				error.details = message.error.details;
+			}
+			call.reject(error);
+		} else {
+			call.resolve(message.value);
+		}
+		return;
+	}
+
+	if (message.type === "abort") {
+		abortController.abort(message.reason);
+		return;
+	}
+
+	const meter = message.operations ? createMeter(message.operations) : null;
+	sessionMeter = meter;
+	try {
+		const module = await loadModule(message.source);
+
+		if (message.type === "introspect") {
+			post({
+				type: "done",
+				value: { io: module.io, hasDefault: typeof module.default === "function" },
+			});
+			return;
+		}
+
+		const context = buildProxy(message.context, []);
+		for (const key of message.localHelpers) {
+			context[key] = localHelpers[key];
+		}
+		if (message.hasSignal) {
+			context.signal = abortController.signal;
+		}
+
+		const value = await module.default(message.inputs, context);
+		if (meter) meter.check();
+		post({ type: "done", value, operations: meter && meter.count });
+	} catch (error) {
+		post({
+			type: "failed",
+			error: serializeError(error),
+			operations: meter && meter.count,
+		});
+	}
+});
+`;
+
+/**
+ * Serializable description of a context value, rebuilt as proxies in the worker
+ */
+type ContextShape =
+	| { kind: "function" }
+	| { kind: "object"; props: Record<string, ContextShape> }
+	| { kind: "value"; value: any };
+
+/**
+ * Minimal common surface of Web Workers and `worker_threads` workers
+ */
+interface WorkerHandle {
+	post(message: any): void;
+	terminate(): void;
+}
+
+/**
+ * Base context helpers that have a local implementation inside the worker
+ */
+const LOCAL_HELPERS = ["Calculator", "Utils"];
+
+/**
+ * Context key listing helpers replaced by per-call context providers, which
+ * must be forwarded to the host instead of using the local implementation
+ */
+export const OVERRIDDEN_HELPERS = Symbol("synthase.overriddenHelpers");
+
+/**
+ * Runs scripts inside worker threads instead of the host realm.
+ *
+ * Each introspection or execution gets its own worker, so a runaway script
+ * can be stopped for real: aborting the signal of a session terminates its
+ * worker, and `terminateAll()` stops every worker of the instance. Inputs and return values are
+ * structured-cloned; context provider functions are invoked on the host via
+ * message passing and therefore always return Promises inside the worker.
+ */
+export class WorkerIsolation {
+	private activeWorkers = new Set<{
+		handle: WorkerHandle;
+		reject: (error: Error) => void;
+	}>();
+	private readonly localHelpers: string[];
+
+	constructor(options?: { overriddenHelpers?: string[] }) {
+		const overridden = options?.overriddenHelpers || [];
+		this.localHelpers = LOCAL_HELPERS.filter(
+			(key) => !overridden.includes(key)
+		);
+	}
+
+	/**
+	 * Load a script in a worker and read its exports. Aborting the signal
+	 * terminates the worker.
+	 */
+	async introspect(
+		source: string,
+		signal?: AbortSignal
+	): Promise<{ io: IOSchema | undefined; hasDefault: boolean }> {
+		return this.runSession({ type: "introspect", source }, {}, signal);
+	}
+
+	/**
+	 * Execute a script's default export in a worker. Aborting `context.signal`
+	 * terminates this worker only.
+	 */
+	async run(
+		source: string,
+		inputs: Record<string, any>,
+		context: Record<string, any>,
+		meter?: OperationMeter
+	): Promise<any> {
+		const { signal, ...members } = context;
+		const overridden: string[] = context[OVERRIDDEN_HELPERS as any] ?? [];
+		const localHelpers = this.localHelpers.filter(
+			(key) => !overridden.includes(key)
+		);
+		const shape = this.describe(
+			Object.fromEntries(
+				Object.entries(members).filter(([key]) => !localHelpers.includes(key))
+			),
+			0
+		);
+
+		return this.runSession(
+			{
+				type: "execute",
+				source,
+				inputs,
+				context: shape,
+				localHelpers,
+				hasSignal: signal instanceof AbortSignal,
+				operations: meter && {
+					remaining: meter.remaining,
+					limit: meter.limit,
+				},
+			},
+			members,
+			signal instanceof AbortSignal ? signal : undefined,
+			meter
+		);
+	}
+
+	/**
+	 * Terminate every worker spawned by this instance
+	 */
+	terminateAll(reason = "Script worker terminated"): void {
+		for (const worker of Array.from(this.activeWorkers)) {
+			worker.handle.terminate();
+			worker.reject(new Error(reason));
+		}
+		this.activeWorkers.clear();
+	}
+
+	/**
+	 * Spawn a worker, send it one request and serve its context calls until it settles
+	 */
+	private async runSession(
+		request: Record<string, any>,
+		context: Record<string, any> = {},
+		signal?: AbortSignal,
+		meter?: OperationMeter
+	): Promise<any> {
+		const handles = new Map<number, Function>();
+		let nextHandle = 0;
+
+		return new Promise((resolve, reject) => {
+			let entry: {
+				handle: WorkerHandle;
+				reject: (error: Error) => void;
+			} | null = null;
+			let settled = false;
+
+			// Stop this session's worker; other sessions keep running
+			const onAbort = () => {
+				entry?.handle.post({
+					type: "abort",
+					reason: String(signal?.reason ?? "aborted"),
+				});
+				settle(() => reject(createAbortError(signal)));
+			};
+
+			const settle = (fn: () => void) => {
+				if (settled) return;
+				settled = true;
+				signal?.removeEventListener("abort", onAbort);
+				if (entry) {
+					this.activeWorkers.delete(entry);
+					entry.handle.terminate();
+				}
+				fn();
+			};
+
+			const serveCall = async (message: any, handle: WorkerHandle) => {
+				try {
+					const target =
+						message.type === "invoke"
+							? handles.get(message.handle)
+							: this.lookup(context, message.path);
+					if (typeof target !== "function") {
+						throw new Error(
+							`Context member is not callable: ${(message.path || []).join(".")}`
+						);
+					}
+
+					let value = await target(...message.args);
+					if (typeof value === "function") {
+						const id = nextHandle++;
+						handles.set(id, value);
+						value = { __synthaseHandle: id, props: { ...value } };
+					}
+
+					handle.post({ type: "reply", callId: message.callId, value });
+				} catch (error: any) {
+					handle.post({
+						type: "reply",
+						callId: message.callId,
+						error: {
+							name: error?.name,
+							message: error?.message ?? String(error),
+							stack: error?.stack,
+							code: error?.code,
+							details: error?.details,
+						},
+					});
+				}
+			};
+
+			this.spawnWorker(
+				(message) => {
+					if (message.type === "call" || message.type === "invoke") {
+						void serveCall(message, entry!.handle);
+					} else if (message.type === "done") {
+						meter?.add(message.operations ?? 0);
+						settle(() => resolve(message.value));
+					} else if (message.type === "failed") {
+						meter?.add(message.operations ?? 0);
+						// Synthase errors raised through the context keep their class
+						settle(() => reject(restoreError(message.error)));
+					}
+				},
+				(error) => settle(() => reject(error))
+			)
+				.then((handle) => {
+					entry = {
+						handle,
+						reject: (error) => settle(() => reject(error)),
+					};
+					this.activeWorkers.add(entry);
+					handle.post(request);
+					if (signal?.aborted) onAbort();
+					else signal?.addEventListener("abort", onAbort, { once: true });
+				})
+				.catch((error) => settle(() => reject(error)));
+		});
+	}
+
+	/**
+	 * Describe a context object so the worker can rebuild it as proxies
+	 */
+	private describe(value: any, depth: number): ContextShape {
+		if (typeof value === "function") {
+			return { kind: "function" };
+		}
+
+		if (
+			value !== null &&
+			typeof value === "object" &&
+			!Array.isArray(value) &&
+			depth < 4
+		) {
+			const props: Record<string, ContextShape> = {};
+			const keys = new Set<string>(Object.keys(value));
+
+			// Include methods of class instances, which live on the prototype
+			let proto = Object.getPrototypeOf(value);
+			while (proto && proto !== Object.prototype) {
+				for (const key of Object.getOwnPropertyNames(proto)) {
+					if (key !== "constructor" && typeof value[key] === "function") {
+						keys.add(key);
+					}
+				}
+				proto = Object.getPrototypeOf(proto);
+			}
+
+			for (const key of keys) {
+				props[key] = this.describe(value[key], depth + 1);
+			}
+			return { kind: "object", props };
+		}
+
+		return { kind: "value", value };
+	}
+
+	/**
+	 * Resolve a property path on the host context, keeping `this` bound
+	 */
+	private lookup(context: Record<string, any>, path: string[]): any {
+		let owner: any = undefined;
+		let current: any = context;
+		for (const key of path) {
+			if (current === null || current === undefined) return undefined;
+			owner = current;
+			current = current[key];
+		}
+		return typeof current === "function" ? current.bind(owner) : current;
+	}
+
+	/**
+	 * Create a worker using the Web Worker API, falling back to `worker_threads`
+	 */
+	private async spawnWorker(
+		onMessage: (message: any) => void,
+		onError: (error: Error) => void
+	): Promise<WorkerHandle> {
+		if (typeof Worker !== "undefined") {
+			const url = URL.createObjectURL(
+				new Blob([WORKER_BOOTSTRAP], { type: "application/javascript" })
+			);
+			const worker = new Worker(url, { type: "module" });
+
+			worker.onmessage = (event: MessageEvent) => onMessage(event.data);
+			worker.onerror = (event: any) => {
+				event.preventDefault?.();
+				onError(new Error(event.message || "Script worker failed"));
+			};
+
+			return {
+				post: (message) => worker.postMessage(message),
+				terminate: () => {
+					worker.terminate();
+					URL.revokeObjectURL(url);
+				},
+			};
+		}
+
+		const { Worker: ThreadWorker } = await import("worker_threads");
+		const worker = new ThreadWorker(WORKER_BOOTSTRAP, { eval: true });
+		worker.on("message", onMessage);
+		worker.on("error", onError);
+
+		return {
+			post: (message) => worker.postMessage(message),
+			terminate: () => void worker.terminate(),
+		};
+	}
+}
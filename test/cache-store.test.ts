@@ -0,0 +1,203 @@
+// test/cache-store.test.ts
+import { describe, it, expect, afterEach, spyOn } from "bun:test";
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileSystemCacheStore, MemoryCacheStore } from "../src/cache-store";
+import { Synthase } from "../src/synthase";
+import {
+	ScriptValidator,
+	VALIDATION_RULES_VERSION,
+} from "../src/script-validator";
+import { InMemoryScriptRegistry } from "../src/script-registry";
+import { computeIntegrity } from "../src/content-hash";
+import type { CachedScriptMetadata } from "../src/types";
+
+const metadata = (contentHash: string): CachedScriptMetadata => ({
+	contentHash,
+	validator: "regex",
+	rules: VALIDATION_RULES_VERSION,
+	warnings: ["Use of setInterval is discouraged"],
+	io: {
+		inputs: { block: { type: "BlockId", format: /^[a-z:]+$/i } },
+		outputs: {},
+	},
+	deps: ["helper"],
+	timestamp: 1,
+});
+
+describe("Cache Stores", () => {
+	describe("MemoryCacheStore", () => {
+		it("should store copies of metadata", async () => {
+			const store = new MemoryCacheStore();
+			const entry = metadata("sha256-abc");
+			await store.set(entry.contentHash, entry);
+			entry.deps.push("mutated");
+
+			const stored = await store.get("sha256-abc");
+			expect(stored?.deps).toEqual(["helper"]);
+			expect(store.size).toBe(1);
+			expect(await store.delete("sha256-abc")).toBe(true);
+			expect(await store.get("sha256-abc")).toBeUndefined();
+		});
+	});
+
+	describe("FileSystemCacheStore", () => {
+		let dir: string;
+
+		afterEach(async () => {
+			if (dir) await rm(dir, { recursive: true, force: true });
+		});
+
+		it("should persist metadata across store instances", async () => {
+			dir = await mkdtemp(join(tmpdir(), "synthase-cache-"));
+			const hash = await computeIntegrity("content");
+			await new FileSystemCacheStore(dir).set(hash, metadata(hash));
+
+			const stored = await new FileSystemCacheStore(dir).get(hash);
+			expect(stored?.deps).toEqual(["helper"]);
+			expect((stored?.io.inputs.block as any).format).toEqual(/^[a-z:]+$/i);
+			expect(await readdir(dir)).toEqual([`${encodeURIComponent(hash)}.json`]);
+		});
+
+		it("should treat missing and corrupt entries as misses", async () => {
+			dir = await mkdtemp(join(tmpdir(), "synthase-cache-"));
+			const store = new FileSystemCacheStore(dir);
+
+			expect(await store.get("sha256-missing")).toBeUndefined();
+			await writeFile(join(dir, "sha256-corrupt.json"), "{");
+			expect(await store.get("sha256-corrupt")).toBeUndefined();
+
+			await store.clear();
+			expect(await readdir(dir)).toEqual([]);
+		});
+	});
+
+	describe("Synthase integration", () => {
+		const helper = `
+      export const io = { inputs: {}, outputs: { value: { type: 'int' } } };
+      export default async function() { return { value: 2 }; }
+    `;
+		const script = `
+      export const io = {
+        inputs: { x: { type: 'int', default: 1 } },
+        outputs: { result: { type: 'int' } }
+      };
+      export default async function({ x }, { importScript }) {
+        const helper = await importScript("helper");
+        return { result: x * (await helper({})).value };
+      }
+    `;
+		let instances: Synthase[] = [];
+
+		afterEach(() => {
+			instances.forEach((instance) => instance.dispose());
+			instances = [];
+		});
+
+		const create = (config: ConstructorParameters<typeof Synthase>[1]) => {
+			const instance = new Synthase(script, config);
+			instances.push(instance);
+			return instance;
+		};
+
+		it("should share validation results between instances", async () => {
+			const registry = new InMemoryScriptRegistry();
+			registry.register("helper", helper);
+			const cacheStore = new MemoryCacheStore();
+
+			expect(await create({ registry, cacheStore }).call({ x: 3 })).toEqual({
+				result: 6,
+			});
+			expect(cacheStore.size).toBe(2);
+
+			const validate = spyOn(ScriptValidator.prototype, "validateScript");
+			try {
+				const second = create({ registry, cacheStore });
+				await second.waitForInitialization();
+				expect(second.getIO()?.inputs.x).toEqual({ type: "int", default: 1 });
+				expect(second.getDependencies()).toEqual(["helper"]);
+				expect(await second.call({ x: 4 })).toEqual({ result: 8 });
+				expect(validate).not.toHaveBeenCalled();
+			} finally {
+				validate.mockRestore();
+			}
+		});
+
+		it("should not reuse results from another validation mode", async () => {
+			const registry = new InMemoryScriptRegistry();
+			registry.register("helper", helper);
+			const cacheStore = new MemoryCacheStore();
+			await create({ registry, cacheStore }).waitForInitialization();
+
+			const validate = spyOn(ScriptValidator.prototype, "validateScript");
+			try {
+				await create({
+					registry,
+					cacheStore,
+					validator: { mode: "ast" },
+				}).waitForInitialization();
+				expect(validate).toHaveBeenCalled();
+			} finally {
+				validate.mockRestore();
+			}
+		});
+
+		it("should not reuse results from older validation rules", async () => {
+			const cacheStore = new MemoryCacheStore();
+			const hash = await computeIntegrity(script);
+			await cacheStore.set(hash, { ...metadata(hash), rules: 0 });
+
+			const registry = new InMemoryScriptRegistry();
+			registry.register("helper", helper);
+			const validate = spyOn(ScriptValidator.prototype, "validateScript");
+			try {
+				await create({ registry, cacheStore }).waitForInitialization();
+				expect(validate).toHaveBeenCalled();
+			} finally {
+				validate.mockRestore();
+			}
+			expect((await cacheStore.get(hash))?.rules).toBe(
+				VALIDATION_RULES_VERSION
+			);
+		});
+
+		it("should check reserved names in content with stored results", async () => {
+			const tampered = script.replace(
+				"return {",
+				"__synthaseTick = () => {}; return {"
+			);
+			const cacheStore = new MemoryCacheStore();
+			const hash = await computeIntegrity(tampered);
+			await cacheStore.set(hash, metadata(hash));
+
+			const instance = new Synthase(tampered, { cacheStore });
+			instances.push(instance);
+			await expect(instance.waitForInitialization()).rejects.toThrow(
+				"Identifiers starting with __synthase are reserved"
+			);
+		});
+
+		it("should survive restarts with a file system store", async () => {
+			const dir = await mkdtemp(join(tmpdir(), "synthase-cache-"));
+			try {
+				const registry = new InMemoryScriptRegistry();
+				registry.register("helper", helper);
+
+				await create({
+					registry,
+					cacheStore: new FileSystemCacheStore(dir),
+				}).waitForInitialization();
+				expect(await readdir(dir)).toHaveLength(2);
+
+				const restarted = create({
+					registry,
+					cacheStore: new FileSystemCacheStore(dir),
+				});
+				expect(await restarted.call({ x: 5 })).toEqual({ result: 10 });
+			} finally {
+				await rm(dir, { recursive: true, force: true });
+			}
+		});
+	});
+});
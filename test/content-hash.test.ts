@@ -0,0 +1,20 @@
+// test/content-hash.test.ts
+import { describe, it, expect } from "bun:test";
+import { computeIntegrity } from "../src/content-hash";
+
+describe("computeIntegrity()", () => {
+	it("should return SHA-256 digests in integrity format", async () => {
+		expect(await computeIntegrity("")).toBe(
+			"sha256-47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU="
+		);
+		expect(await computeIntegrity("abc")).toBe(
+			"sha256-ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0="
+		);
+	});
+
+	it("should distinguish contents that share length and endpoints", async () => {
+		expect(await computeIntegrity("a-b-c")).not.toBe(
+			await computeIntegrity("a+b+c")
+		);
+	});
+});
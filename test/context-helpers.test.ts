@@ -0,0 +1,18 @@
+// test/context-helpers.test.ts
+import { describe, it, expect } from "bun:test";
+import { createContextHelpers } from "../src/context-helpers";
+
+describe("Context helpers", () => {
+	it("should work when rebuilt from their source, as in workers", async () => {
+		const rebuilt = new Function(`return ${createContextHelpers.toString()}`)();
+		const controller = new AbortController();
+		const helpers = rebuilt(controller.signal, () => new Error("aborted"));
+
+		expect(helpers.Calculator.sum([1, 2, 3])).toBe(6);
+		expect(helpers.Utils.capitalize("stone")).toBe("Stone");
+
+		const delayed = helpers.Utils.delay(1000);
+		controller.abort();
+		await expect(delayed).rejects.toThrow("aborted");
+	});
+});
@@ -0,0 +1,58 @@
+// test/dependency-graph.test.ts
+import { describe, it, expect } from "bun:test";
+import {
+	dependencyGraphToDot,
+	dependencyGraphToJSON,
+	findDependencyCycle,
+} from "../src/dependency-graph";
+import type { DependencyGraph } from "../src/types";
+
+describe("Dependency graph", () => {
+	const graph: DependencyGraph = {
+		root: "main-1",
+		nodes: [
+			{ id: "main-1", kind: "main", status: "resolved" },
+			{ id: "noise@^1.0", kind: "script", status: "cached", version: "1.2.0" },
+			{ id: "vector", kind: "module", status: "resolved" },
+			{ id: "broken", kind: "script", status: "failed", error: 'Bad "io"' },
+		],
+		edges: [
+			{ from: "main-1", to: "noise@^1.0", kind: "import" },
+			{ from: "main-1", to: "broken", kind: "import" },
+			{ from: "noise@^1.0", to: "vector", kind: "static" },
+		],
+	};
+
+	it("should find the full cycle path", () => {
+		expect(findDependencyCycle(graph.edges)).toBeNull();
+		expect(
+			findDependencyCycle([
+				{ from: "main", to: "a", kind: "import" },
+				{ from: "a", to: "b", kind: "import" },
+				{ from: "b", to: "c", kind: "import" },
+				{ from: "c", to: "a", kind: "import" },
+			])
+		).toEqual(["a", "b", "c", "a"]);
+		expect(
+			findDependencyCycle([{ from: "a", to: "a", kind: "import" }])
+		).toEqual(["a", "a"]);
+	});
+
+	it("should export DOT", () => {
+		const dot = dependencyGraphToDot(graph);
+
+		expect(dot.startsWith("digraph dependencies {\n")).toBe(true);
+		expect(dot).toContain(
+			'"main-1" [label="main", shape=box, color=black, style=bold];'
+		);
+		expect(dot).toContain('label="noise@^1.0\\n1.2.0"');
+		expect(dot).toContain('"vector" [label="vector", shape=ellipse');
+		expect(dot).toContain('color=red, tooltip="Bad \\"io\\""');
+		expect(dot).toContain('"noise@^1.0" -> "vector" [style=dashed];');
+		expect(dot.trimEnd().endsWith("}")).toBe(true);
+	});
+
+	it("should export JSON", () => {
+		expect(JSON.parse(dependencyGraphToJSON(graph))).toEqual(graph);
+	});
+});
@@ -0,0 +1,74 @@
+// test/errors.test.ts
+import { describe, it, expect } from "bun:test";
+import {
+	DependencyResolutionError,
+	ImportLimitError,
+	ScriptRuntimeError,
+	SynthaseError,
+	restoreError,
+	toScriptRuntimeError,
+} from "../src/errors";
+
+describe("Errors", () => {
+	it("should carry a code, details and cause", () => {
+		const cause = new Error("not found");
+		const error = new DependencyResolutionError(
+			"Failed to load dependency noise: not found",
+			{ specifier: "noise" },
+			cause
+		);
+
+		expect(error).toBeInstanceOf(SynthaseError);
+		expect(error).toBeInstanceOf(Error);
+		expect(error.name).toBe("DependencyResolutionError");
+		expect(error.code).toBe("DEPENDENCY_RESOLUTION");
+		expect(error.details.specifier).toBe("noise");
+		expect(error.cause).toBe(cause);
+		expect(JSON.parse(JSON.stringify(error))).toEqual({
+			name: "DependencyResolutionError",
+			code: "DEPENDENCY_RESOLUTION",
+			message: "Failed to load dependency noise: not found",
+			details: { specifier: "noise" },
+		});
+	});
+
+	it("should wrap script failures but keep typed errors and aborts", () => {
+		const thrown = new TypeError("x is not a function");
+		const wrapped = toScriptRuntimeError(thrown, "main");
+		expect(wrapped).toBeInstanceOf(ScriptRuntimeError);
+		expect(wrapped.message).toBe("x is not a function");
+		expect((wrapped as ScriptRuntimeError).details).toEqual({
+			scriptId: "main",
+		});
+		expect((wrapped as ScriptRuntimeError).cause).toBe(thrown);
+
+		expect(toScriptRuntimeError("plain string", "main").message).toBe(
+			"plain string"
+		);
+
+		const limit = new ImportLimitError("Import limit exceeded", {
+			setting: "maxImportedScripts",
+			limit: 1,
+		});
+		expect(toScriptRuntimeError(limit, "main")).toBe(limit);
+
+		const abort = new Error("Script execution aborted");
+		abort.name = "AbortError";
+		expect(toScriptRuntimeError(abort, "main")).toBe(abort);
+	});
+
+	it("should restore errors posted across a worker boundary", () => {
+		const restored = restoreError({
+			name: "ImportLimitError",
+			message: "Import limit exceeded",
+			code: "IMPORT_LIMIT",
+			details: { setting: "maxImportedScripts", limit: 1 },
+		});
+		expect(restored).toBeInstanceOf(ImportLimitError);
+		expect((restored as ImportLimitError).details.limit).toBe(1);
+
+		const plain = restoreError({ name: "RangeError", message: "too big" });
+		expect(plain).not.toBeInstanceOf(SynthaseError);
+		expect(plain.name).toBe("RangeError");
+	});
+});
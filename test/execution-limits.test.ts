@@ -221,6 +221,37 @@ describe("ExecutionLimits", () => {
 		});
 	});
 
+	describe("capped()", () => {
+		it("should apply lower overrides", () => {
+			expect(limits.capped({ timeout: 1000, maxImportedScripts: 5 })).toEqual({
+				timeout: 1000,
+				maxRecursionDepth: 10,
+				maxImportedScripts: 5,
+				maxMemory: limits.maxMemory,
+				maxOperations: Infinity,
+			});
+		});
+
+		it("should never raise the instance limits", () => {
+			const capped = limits.capped({
+				timeout: limits.timeout * 2,
+				maxRecursionDepth: 100,
+			});
+			expect(capped.timeout).toBe(limits.timeout);
+			expect(capped.maxRecursionDepth).toBe(10);
+		});
+
+		it("should return the instance limits without overrides", () => {
+			expect(limits.capped()).toEqual({
+				timeout: limits.timeout,
+				maxRecursionDepth: limits.maxRecursionDepth,
+				maxImportedScripts: limits.maxImportedScripts,
+				maxMemory: limits.maxMemory,
+				maxOperations: limits.maxOperations,
+			});
+		});
+	});
+
 	describe("Integration Tests", () => {
 		it("should work with realistic timeout scenarios", async () => {
 			// Simulate script that takes varying amounts of time
@@ -0,0 +1,127 @@
+// test/logger.test.ts
+import { describe, it, expect, afterEach, spyOn } from "bun:test";
+import {
+	ConsoleLogger,
+	silentLogger,
+	type SynthaseLogger,
+} from "../src/logger";
+import { Synthase } from "../src/synthase";
+
+function createRecordingLogger() {
+	const entries: Array<{
+		level: string;
+		message: string;
+		fields?: Record<string, any>;
+	}> = [];
+	const record =
+		(level: string) => (message: string, fields?: Record<string, any>) =>
+			entries.push({ level, message, fields });
+
+	const logger: SynthaseLogger = {
+		debug: record("debug"),
+		info: record("info"),
+		warn: record("warn"),
+		error: record("error"),
+	};
+	return { logger, entries };
+}
+
+describe("Logger", () => {
+	describe("ConsoleLogger", () => {
+		it("should drop messages below the configured level", () => {
+			const info = spyOn(console, "info").mockImplementation(() => {});
+			const warn = spyOn(console, "warn").mockImplementation(() => {});
+			const debug = spyOn(console, "debug").mockImplementation(() => {});
+
+			try {
+				const logger = new ConsoleLogger({ level: "info" });
+				logger.debug("hidden");
+				logger.info("shown", { scriptId: "main" });
+				logger.warn("also shown");
+
+				expect(debug).not.toHaveBeenCalled();
+				expect(info).toHaveBeenCalledWith("[synthase] INFO shown", {
+					scriptId: "main",
+				});
+				expect(warn).toHaveBeenCalledWith("[synthase] WARN also shown");
+			} finally {
+				info.mockRestore();
+				warn.mockRestore();
+				debug.mockRestore();
+			}
+		});
+	});
+
+	describe("Synthase integration", () => {
+		let synthase: Synthase;
+
+		afterEach(() => {
+			synthase?.dispose();
+		});
+
+		const script = `
+      export const io = { inputs: {}, outputs: {} };
+      export default async function({}, { Logger }) {
+        Logger.info('from script');
+        Logger.success('all good');
+        Logger.error('something broke');
+        return {};
+      }
+    `;
+
+		it("should be silent by default", async () => {
+			const spies = (["log", "info", "warn", "error", "debug"] as const).map(
+				(method) => spyOn(console, method).mockImplementation(() => {})
+			);
+
+			try {
+				synthase = new Synthase(script);
+				await synthase.call({});
+
+				for (const spy of spies) {
+					expect(spy).not.toHaveBeenCalled();
+				}
+			} finally {
+				spies.forEach((spy) => spy.mockRestore());
+			}
+		});
+
+		it("should route script logs with structured fields", async () => {
+			const { logger, entries } = createRecordingLogger();
+
+			synthase = new Synthase(script, { logger });
+			await synthase.call({});
+
+			const scriptEntries = entries.filter(
+				(entry) => entry.fields?.source === "script"
+			);
+			expect(
+				scriptEntries.map((entry) => [entry.level, entry.message])
+			).toEqual([
+				["info", "from script"],
+				["info", "all good"],
+				["error", "something broke"],
+			]);
+			expect(scriptEntries[1].fields).toMatchObject({ success: true });
+			expect(scriptEntries[0].fields?.scriptId).toStartWith("main-");
+		});
+
+		it("should route engine diagnostics", async () => {
+			const { logger, entries } = createRecordingLogger();
+
+			synthase = new Synthase(script, { logger });
+			await synthase.call({});
+
+			expect(entries).toContainEqual(
+				expect.objectContaining({
+					level: "debug",
+					message: "Script executed successfully",
+				})
+			);
+		});
+	});
+
+	it("should expose a no-op silent logger", () => {
+		expect(() => silentLogger.error("ignored", { a: 1 })).not.toThrow();
+	});
+});
@@ -4,6 +4,7 @@ import {
 	ParameterUtils,
 	type ParameterSpec,
 	type ParameterDef,
+	type FileReadMode,
 } from "../src/types";
 
 describe("ParameterUtils", () => {
@@ -259,6 +260,476 @@ describe("ParameterUtils", () => {
 		});
 	});
 
+	describe("nested schemas", () => {
+		const pointSpec: ParameterDef = {
+			type: "object",
+			properties: {
+				x: { type: "float" },
+				y: { type: "float" },
+				label: { type: "string", default: "point" },
+			},
+		};
+
+		it("should validate object properties with dotted paths", () => {
+			expect(() =>
+				ParameterUtils.validateParameter(
+					{ x: 1, y: 2, label: "a" },
+					pointSpec,
+					"origin"
+				)
+			).not.toThrow();
+			expect(() =>
+				ParameterUtils.validateParameter(
+					{ x: "1", y: 2, label: "a" },
+					pointSpec,
+					"origin"
+				)
+			).toThrow("origin.x must be a number");
+			expect(() =>
+				ParameterUtils.validateParameter(
+					{ x: 1, label: "a" },
+					pointSpec,
+					"origin"
+				)
+			).toThrow("Missing required property: origin.y");
+		});
+
+		it("should validate array items with indexed paths", () => {
+			const spec: ParameterDef = { type: "array", items: pointSpec };
+			const points = [0, 1, 2, 3].map((x) => ({ x, y: x, label: "p" }));
+			points[3] = { x: "bad", y: 3, label: "p" } as any;
+
+			expect(() =>
+				ParameterUtils.validateParameter(points.slice(0, 3), spec, "points")
+			).not.toThrow();
+			expect(() =>
+				ParameterUtils.validateParameter(points, spec, "points")
+			).toThrow("points[3].x must be a number");
+		});
+
+		it("should treat legacy itemType as the item spec", () => {
+			const spec: ParameterDef = { type: "array", itemType: "int" };
+
+			expect(() =>
+				ParameterUtils.validateParameter([1, 2], spec, "counts")
+			).not.toThrow();
+			expect(() =>
+				ParameterUtils.validateParameter([1, 2.5], spec, "counts")
+			).toThrow("counts[1] must be an integer");
+		});
+
+		it("should apply defaults recursively", () => {
+			const schema: Record<string, ParameterSpec> = {
+				origin: pointSpec,
+				points: { type: "array", items: pointSpec },
+			};
+
+			expect(ParameterUtils.applyDefaults({}, schema)).toEqual({
+				origin: { x: 0, y: 0, label: "point" },
+				points: [],
+			});
+			expect(
+				ParameterUtils.applyDefaults(
+					{ origin: { x: 5 }, points: [{ x: 1, y: 2 }] },
+					schema
+				)
+			).toEqual({
+				origin: { x: 5, y: 0, label: "point" },
+				points: [{ x: 1, y: 2, label: "point" }],
+			});
+		});
+	});
+
+	describe("type aliases", () => {
+		it("should normalize aliases to canonical types", () => {
+			expect(ParameterUtils.normalize("integer")).toEqual({ type: "int" });
+			expect(ParameterUtils.normalize({ type: "number", min: 0 })).toEqual({
+				type: "float",
+				min: 0,
+			});
+			expect(ParameterUtils.normalize("text")).toEqual({ type: "string" });
+			expect(ParameterUtils.normalize("bool")).toEqual({ type: "boolean" });
+		});
+
+		it("should apply runtime checks to aliased parameters", () => {
+			expect(ParameterUtils.getDefault({ type: "bool" })).toBe(false);
+			expect(() =>
+				ParameterUtils.validateParameter(1.5, "integer", "count")
+			).toThrow("count must be an integer");
+			expect(() =>
+				ParameterUtils.validateParameter(5, { type: "text" }, "name")
+			).toThrow("name must be a string");
+		});
+	});
+
+	describe("file validation", () => {
+		const spec: ParameterDef = {
+			type: "file",
+			accept: ".json,application/json",
+			maxSize: 1024,
+			readAs: "json",
+		};
+
+		it("should accept matching file inputs", () => {
+			expect(() =>
+				ParameterUtils.validateParameter(
+					{ name: "data.json", size: 12, content: { ok: true } },
+					spec,
+					"upload"
+				)
+			).not.toThrow();
+		});
+
+		it("should enforce accept, maxSize and readAs", () => {
+			expect(() =>
+				ParameterUtils.validateParameter("data.json", spec, "upload")
+			).toThrow("upload must be a file");
+			expect(() =>
+				ParameterUtils.validateParameter(
+					{ name: "image.png", type: "image/png", size: 12, content: {} },
+					spec,
+					"upload"
+				)
+			).toThrow('upload must match accept ".json,application/json"');
+			expect(() =>
+				ParameterUtils.validateParameter(
+					{ name: "data.json", size: 4096, content: {} },
+					spec,
+					"upload"
+				)
+			).toThrow("upload must be at most 1024 bytes");
+			expect(() =>
+				ParameterUtils.validateParameter(
+					{ name: "notes.txt", size: 4, content: 42 },
+					{ type: "file", readAs: "text" },
+					"notes"
+				)
+			).toThrow('notes content does not match readAs "text"');
+		});
+
+		it("should measure the content of files without a size", () => {
+			expect(() =>
+				ParameterUtils.validateParameter(
+					{ name: "a.json", content: "x".repeat(1000) },
+					{ type: "file", maxSize: 10 },
+					"upload"
+				)
+			).toThrow("upload must be at most 10 bytes");
+			expect(() =>
+				ParameterUtils.validateParameter(
+					{ name: "a.bin", size: 1, content: new Uint8Array(64) },
+					{ type: "file", maxSize: 10 },
+					"upload"
+				)
+			).toThrow("upload must be at most 10 bytes");
+			expect(() =>
+				ParameterUtils.validateParameter(
+					{ name: "a.json", content: { a: 1 } },
+					{ type: "file", readAs: "json", maxSize: 10 },
+					"upload"
+				)
+			).not.toThrow();
+		});
+
+		it("should read Blob values according to readAs", async () => {
+			const schema: Record<string, ParameterSpec> = {
+				config: { type: "file", readAs: "json" },
+				raw: { type: "file", readAs: "dataURL" },
+			};
+			const result = await ParameterUtils.readFileInputs(
+				{
+					config: new File(['{"size":3}'], "config.json"),
+					raw: new Blob(["hi"], { type: "application/octet-stream" }),
+				},
+				schema
+			);
+
+			expect(result.config).toEqual({
+				name: "config.json",
+				type: expect.any(String),
+				size: 10,
+				content: { size: 3 },
+			});
+			expect(result.raw.content).toBe(
+				"data:application/octet-stream;base64,aGk="
+			);
+		});
+
+		it("should measure read Blob values by their own size", async () => {
+			const bytes = new Uint8Array(900).fill(0xff);
+			for (const readAs of [
+				"text",
+				"arrayBuffer",
+				"dataURL",
+				"binaryString",
+			] as const) {
+				const param: ParameterDef = { type: "file", readAs, maxSize: 1000 };
+				const { upload } = await ParameterUtils.readFileInputs(
+					{ upload: new File([bytes], "upload.bin") },
+					{ upload: param }
+				);
+				expect(() =>
+					ParameterUtils.validateParameter(upload, param, "upload")
+				).not.toThrow();
+			}
+
+			const json: ParameterDef = {
+				type: "file",
+				readAs: "json",
+				maxSize: 1000,
+			};
+			const { upload } = await ParameterUtils.readFileInputs(
+				{ upload: new File([JSON.stringify("é".repeat(449))], "a.json") },
+				{ upload: json }
+			);
+			expect(upload.size).toBe(900);
+			expect(() =>
+				ParameterUtils.validateParameter(upload, json, "upload")
+			).not.toThrow();
+		});
+
+		it("should measure pre-read content as the bytes it encodes", () => {
+			const cases: [FileReadMode, (bytes: number) => any][] = [
+				["text", (n) => "x".repeat(n)],
+				["arrayBuffer", (n) => new ArrayBuffer(n)],
+				[
+					"dataURL",
+					(n) =>
+						`data:application/octet-stream;base64,${btoa("\xff".repeat(n))}`,
+				],
+				["dataURL", (n) => `data:text/plain,${"%FF".repeat(n)}`],
+				["binaryString", (n) => "\xff".repeat(n)],
+				["json", (n) => "x".repeat(n - 2)],
+			];
+			for (const [readAs, content] of cases) {
+				const param: ParameterDef = { type: "file", readAs, maxSize: 1000 };
+				expect(() =>
+					ParameterUtils.validateParameter(
+						{ name: "upload", content: content(1000) },
+						param,
+						"upload"
+					)
+				).not.toThrow();
+				expect(() =>
+					ParameterUtils.validateParameter(
+						{ name: "upload", content: content(1001) },
+						param,
+						"upload"
+					)
+				).toThrow("upload must be at most 1000 bytes, got: 1001");
+			}
+		});
+
+		it("should check maxSize before reading Blob values", async () => {
+			await expect(
+				ParameterUtils.readFileInputs(
+					{ upload: new File(["x".repeat(2048)], "big.json") },
+					{ upload: spec }
+				)
+			).rejects.toThrow("upload must be at most 1024 bytes");
+		});
+	});
+
+	describe("BlockId validation", () => {
+		it("should validate against the default format", () => {
+			for (const id of [
+				"stone",
+				"minecraft:stone",
+				"minecraft:oak_log[axis=y]",
+			]) {
+				expect(() =>
+					ParameterUtils.validateParameter(id, "BlockId", "block")
+				).not.toThrow();
+			}
+			expect(() =>
+				ParameterUtils.validateParameter("Minecraft Stone", "BlockId", "block")
+			).toThrow("block must be a valid block id");
+			expect(() =>
+				ParameterUtils.validateParameter(1, "BlockId", "block")
+			).toThrow("block must be a block id");
+		});
+
+		it("should use the configured or per-parameter format", () => {
+			const options = { blockIdFormat: /^[a-z]+:[a-z_]+$/ };
+
+			expect(() =>
+				ParameterUtils.validateParameter("stone", "BlockId", "block", options)
+			).toThrow("block must be a valid block id");
+			expect(() =>
+				ParameterUtils.validateParameter(
+					"stone",
+					{ type: "BlockId", format: "^[a-z]+$" },
+					"block",
+					options
+				)
+			).not.toThrow();
+		});
+	});
+
+	describe("validateOutputs()", () => {
+		const schema: Record<string, ParameterSpec> = {
+			result: { type: "string" },
+			count: { type: "int", min: 0 },
+			details: { type: "object", dependsOn: { verbose: true } },
+			verbose: "boolean",
+		};
+
+		it("should accept outputs matching the schema", () => {
+			expect(
+				ParameterUtils.validateOutputs(
+					{ result: "ok", count: 3, verbose: false },
+					schema
+				)
+			).toEqual([]);
+		});
+
+		it("should report missing, undeclared and mistyped outputs by name", () => {
+			const errors = ParameterUtils.validateOutputs(
+				{ count: "3", verbose: true, extra: 1 },
+				schema
+			);
+
+			expect(errors).toEqual([
+				"Missing output: result",
+				"count must be an integer, got: string",
+				"Missing output: details",
+				"Undeclared output: extra",
+			]);
+		});
+
+		it("should reject non-object return values", () => {
+			expect(ParameterUtils.validateOutputs(42, schema)).toEqual([
+				"Script must return an object of outputs, got: number",
+			]);
+			expect(ParameterUtils.validateOutputs(null, schema)).toEqual([
+				"Script must return an object of outputs, got: null",
+			]);
+		});
+	});
+
+	describe("toJSONSchema()", () => {
+		const io = {
+			inputs: {
+				count: {
+					type: "int",
+					default: 1,
+					min: 1,
+					max: 100,
+					description: "Number of repetitions",
+				},
+				mode: { type: "string", options: ["fast", "quality"] },
+				advanced: { type: "boolean", default: false },
+				threshold: { type: "float", dependsOn: { advanced: true } },
+				points: {
+					type: "array",
+					items: { type: "object", properties: { x: "float", y: "float" } },
+				},
+			} as Record<string, ParameterSpec>,
+			outputs: { result: "string" } as Record<string, ParameterSpec>,
+		};
+
+		it("should map parameters to draft 2020-12 keywords", () => {
+			const schema = ParameterUtils.toJSONSchema(io) as any;
+
+			expect(schema.inputs.$schema).toBe(
+				"https://json-schema.org/draft/2020-12/schema"
+			);
+			expect(schema.inputs.properties.count).toEqual({
+				type: "integer",
+				default: 1,
+				minimum: 1,
+				maximum: 100,
+				description: "Number of repetitions",
+			});
+			expect(schema.inputs.properties.mode).toEqual({
+				type: "string",
+				enum: ["fast", "quality"],
+			});
+			expect(schema.inputs.properties.points.items).toEqual({
+				type: "object",
+				properties: { x: { type: "number" }, y: { type: "number" } },
+				required: ["x", "y"],
+			});
+			expect(schema.inputs.required).toEqual(["mode", "points"]);
+			expect(schema.inputs.allOf).toEqual([
+				{
+					if: {
+						properties: { advanced: { const: true } },
+						required: ["advanced"],
+					},
+					then: { properties: { threshold: true }, required: ["threshold"] },
+				},
+			]);
+			expect(schema.outputs.required).toEqual(["result"]);
+		});
+
+		it("should round-trip through fromJSONSchema()", () => {
+			const restored = ParameterUtils.fromJSONSchema(
+				ParameterUtils.toJSONSchema(io)
+			);
+
+			expect(restored.inputs.count).toEqual(io.inputs.count);
+			expect(restored.inputs.threshold).toEqual({
+				type: "float",
+				dependsOn: { advanced: true },
+			});
+			expect(restored.inputs.points).toEqual({
+				type: "array",
+				items: {
+					type: "object",
+					properties: { x: { type: "float" }, y: { type: "float" } },
+				},
+			});
+			expect(restored.outputs).toEqual({ result: { type: "string" } });
+		});
+
+		it("should preserve file and BlockId parameters", () => {
+			const fileIo = {
+				inputs: {
+					upload: {
+						type: "file",
+						accept: ".json",
+						maxSize: 1024,
+						readAs: "json",
+					},
+					block: { type: "BlockId", format: "^minecraft:[a-z_]+$" },
+				} as Record<string, ParameterSpec>,
+				outputs: {},
+			};
+			const schema = ParameterUtils.toJSONSchema(fileIo) as any;
+
+			expect(schema.inputs.properties.block).toEqual({
+				type: "string",
+				pattern: "^minecraft:[a-z_]+$",
+				"x-synthase": { type: "BlockId" },
+			});
+			expect(ParameterUtils.fromJSONSchema(schema).inputs).toEqual(
+				fileIo.inputs
+			);
+		});
+
+		it("should import plain JSON Schemas", () => {
+			const io = ParameterUtils.fromJSONSchema({
+				inputs: {
+					type: "object",
+					properties: {
+						name: { type: ["string", "null"], default: "anonymous" },
+						level: { enum: [1, 2, 3] },
+					},
+				},
+				outputs: true,
+			});
+
+			expect(io).toEqual({
+				inputs: {
+					name: { type: "string", default: "anonymous" },
+					level: { type: "int", options: [1, 2, 3] },
+				},
+				outputs: {},
+			});
+		});
+	});
+
 	describe("shouldShowParameter()", () => {
 		it("should show parameters without dependencies", () => {
 			const spec: ParameterDef = { type: "string" };
@@ -0,0 +1,104 @@
+// test/resource-monitor.test.ts
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { ResourceMonitor } from "../src/resource-monitor";
+import { MemoryLimitError } from "../src/errors";
+
+const MB = 1024 * 1024;
+
+// Allocate and touch an ArrayBuffer so it counts as used memory
+const allocate = (bytes: number) =>
+	new Uint8Array(new ArrayBuffer(bytes)).fill(1);
+
+describe("ResourceMonitor", () => {
+	let monitor: ResourceMonitor;
+
+	// Collect garbage of earlier tests, which would lower the measured growth
+	beforeEach(() => {
+		Bun.gc(true);
+	});
+
+	afterEach(() => {
+		monitor?.dispose();
+	});
+
+	it("should measure memory with process.memoryUsage()", () => {
+		monitor = new ResourceMonitor();
+		monitor.start();
+		monitor.check();
+
+		const stats = monitor.getStats();
+		expect(stats.memoryBackend).toBe("process");
+		expect(Object.keys(stats.peakMemory).sort()).toEqual([
+			"arrayBuffers",
+			"heapUsed",
+			"rss",
+		]);
+		expect(stats.memoryLimit).toBe(100 * MB);
+	});
+
+	it("should enforce limits per metric", () => {
+		monitor = new ResourceMonitor({ memoryLimits: { arrayBuffers: MB } });
+		monitor.start();
+
+		const buffer = allocate(16 * MB);
+		let error: any;
+		try {
+			monitor.check();
+		} catch (e) {
+			error = e;
+		}
+
+		expect(error).toBeInstanceOf(MemoryLimitError);
+		expect(error.details.metric).toBe("arrayBuffers");
+		expect(error.details.limit).toBe(MB);
+		expect(error.details.used).toBeGreaterThanOrEqual(buffer.byteLength);
+	});
+
+	it("should report exceeded limits from periodic checks to the caller", async () => {
+		monitor = new ResourceMonitor({
+			memoryLimits: { arrayBuffers: MB },
+			checkIntervalMs: 10,
+		});
+
+		const exceeded = new Promise<MemoryLimitError>((resolve) =>
+			monitor.start(undefined, resolve)
+		);
+		const buffer = allocate(16 * MB);
+
+		const error = await exceeded;
+		expect(error.details.metric).toBe("arrayBuffers");
+		expect(buffer.byteLength).toBe(16 * MB);
+	});
+
+	it("should keep concurrent sessions apart", async () => {
+		monitor = new ResourceMonitor({
+			memoryLimits: { arrayBuffers: MB },
+			checkIntervalMs: 10,
+		});
+		const exceeded: string[] = [];
+
+		const first = monitor.start(undefined, () => exceeded.push("first"));
+		const buffer = allocate(16 * MB);
+		const second = monitor.start(undefined, () => exceeded.push("second"));
+		monitor.start().stop();
+		await Bun.sleep(50);
+
+		// Only the session running before the allocation saw it grow
+		expect(exceeded).toEqual(["first"]);
+		expect(first.getStats().peakMemory.arrayBuffers).toBeGreaterThanOrEqual(
+			buffer.byteLength
+		);
+		expect(second.getStats().checksPerformed).toBeGreaterThan(0);
+	});
+
+	it("should only lower the heapUsed limit for a run", () => {
+		monitor = new ResourceMonitor({ maxMemory: 50 * MB });
+
+		monitor.start(10 * MB);
+		expect(monitor.getStats().memoryLimit).toBe(10 * MB);
+		monitor.stop();
+
+		monitor.start(500 * MB);
+		expect(monitor.getStats().memoryLimit).toBe(50 * MB);
+	});
+});
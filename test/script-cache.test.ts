@@ -0,0 +1,78 @@
+// test/script-cache.test.ts
+import { describe, it, expect } from "bun:test";
+import { ScriptCache } from "../src/script-cache";
+import type { CacheEntry } from "../src/types";
+
+const entry = (size: number, timestamp = Date.now()): CacheEntry => ({
+	script: { id: "script", io: { inputs: {}, outputs: {} }, deps: [] } as any,
+	timestamp,
+	contentHash: "sha256-test",
+	source: "dependency",
+	size,
+});
+
+describe("ScriptCache", () => {
+	it("should evict the least recently used entry on insert", () => {
+		const cache = new ScriptCache({ maxSize: 2 });
+		cache.set("a", entry(10));
+		cache.set("b", entry(10));
+		cache.get("a"); // "b" is now least recently used
+		cache.set("c", entry(10));
+
+		expect(cache.peek("a")).toBeDefined();
+		expect(cache.peek("b")).toBeUndefined();
+		expect(cache.peek("c")).toBeDefined();
+		expect(cache.getStats().evictions).toBe(1);
+	});
+
+	it("should keep total source bytes under maxBytes", () => {
+		const cache = new ScriptCache({ maxBytes: 100 });
+		cache.set("a", entry(40));
+		cache.set("b", entry(40));
+		cache.set("c", entry(50));
+
+		expect(cache.size).toBe(2);
+		expect(cache.peek("a")).toBeUndefined();
+		expect(cache.getStats()).toMatchObject({
+			bytes: 90,
+			maxBytes: 100,
+			evictions: 1,
+		});
+
+		cache.set("huge", entry(500));
+		expect(cache.size).toBe(0);
+		expect(cache.getStats().bytes).toBe(0);
+	});
+
+	it("should count hits, misses and expirations", () => {
+		const cache = new ScriptCache({ maxAge: 1000 });
+		cache.set("fresh", entry(10));
+		cache.set("stale", entry(10, Date.now() - 5000));
+
+		expect(cache.get("fresh")).not.toBeNull();
+		expect(cache.get("stale")).toBeNull();
+		expect(cache.get("missing")).toBeNull();
+		expect(cache.getStats()).toMatchObject({
+			totalEntries: 1,
+			hits: 1,
+			misses: 2,
+			expirations: 1,
+			bytes: 10,
+		});
+	});
+
+	it("should account for replaced entries and policy changes", () => {
+		const cache = new ScriptCache();
+		cache.set("a", entry(30));
+		cache.set("a", entry(20));
+		cache.set("b", entry(20));
+		expect(cache.getStats().bytes).toBe(40);
+
+		cache.setPolicy({ maxSize: 1 });
+		expect(cache.size).toBe(1);
+		expect(cache.peek("b")).toBeDefined();
+
+		expect(cache.clear()).toBe(1);
+		expect(cache.getStats().bytes).toBe(0);
+	});
+});
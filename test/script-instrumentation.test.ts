@@ -0,0 +1,132 @@
+// test/script-instrumentation.test.ts
+import { describe, it, expect } from "bun:test";
+import {
+	OperationMeter,
+	instrumentScript,
+	instrumentScriptWithMap,
+	runWithOperationMeter,
+} from "../src/script-instrumentation";
+import { OperationLimitError } from "../src/errors";
+
+const importInstrumented = (content: string, limit = 1000) =>
+	import(
+		`data:text/javascript;base64,${btoa(instrumentScript(content, limit))}`
+	) as Promise<Record<string, any>>;
+
+describe("Script instrumentation", () => {
+	it("should tick in loop bodies and function entries", () => {
+		const instrumented = instrumentScript(
+			"function f(a) { for (const x of a) g(x); }\nconst h = (x) => x * 2;",
+			100
+		);
+
+		expect(instrumented).toStartWith(
+			"function f(a) {__synthaseTick(); for (const x of a) {__synthaseTick();g(x);} }\n" +
+				"const h = (x) => (__synthaseTick(), x * 2);"
+		);
+	});
+
+	it("should keep line numbers and wrap nested bodies in order", () => {
+		const content = "while (a)\n  while (b) c();\nconst f = () => () => ({});";
+		const lines = instrumentScript(content, 100).split("\n");
+
+		expect(lines.slice(0, 3)).toEqual([
+			"while (a)",
+			"  {__synthaseTick();while (b) {__synthaseTick();c();}}",
+			"const f = () => (__synthaseTick(), () => ((__synthaseTick(), {})));",
+		]);
+	});
+
+	it("should record where code was inserted", () => {
+		const { code, columnShifts } = instrumentScriptWithMap(
+			"let a;\nfunction f() { for (;;) g(); }",
+			100
+		);
+
+		expect(code).toStartWith(
+			"let a;\nfunction f() {__synthaseTick(); for (;;) {__synthaseTick();g();} }"
+		);
+		expect(columnShifts).toEqual([
+			{ line: 2, column: 14, length: 17 },
+			{ line: 2, column: 24, length: 18 },
+			{ line: 2, column: 28, length: 1 },
+		]);
+	});
+
+	it("should return scripts that do not parse unchanged", () => {
+		expect(instrumentScript("while (true) {", 100)).toBe("while (true) {");
+	});
+
+	it("should count operations against the meter of the running call", async () => {
+		const module = await importInstrumented(`
+      export function sum(n) {
+        let total = 0;
+        for (let i = 0; i < n; i++) total += i;
+        return total;
+      }
+    `);
+		const meter = new OperationMeter(100);
+
+		expect(runWithOperationMeter(meter, () => module.sum(10))).toBe(45);
+		expect(meter.count).toBe(11);
+		expect(() => runWithOperationMeter(meter, () => module.sum(1000))).toThrow(
+			OperationLimitError
+		);
+	});
+
+	it("should keep the meters of concurrent calls apart", async () => {
+		const module = await importInstrumented(`
+      export async function spin(n) {
+        for (let i = 0; i < n; i++) await null;
+      }
+    `);
+		const small = new OperationMeter(10);
+		const large = new OperationMeter(1000);
+
+		const results = await Promise.allSettled([
+			runWithOperationMeter(large, () => module.spin(500)),
+			runWithOperationMeter(small, () => module.spin(5)),
+		]);
+
+		expect(results.map((result) => result.status)).toEqual([
+			"fulfilled",
+			"fulfilled",
+		]);
+		expect(small.count).toBe(6);
+		expect(large.count).toBe(501);
+	});
+
+	it("should refuse to meter calls without async context", async () => {
+		const getBuiltinModule = process.getBuiltinModule;
+		(process as any).getBuiltinModule = undefined;
+		try {
+			const isolated = await import(
+				"../src/script-instrumentation?no-async-context"
+			);
+			expect(() =>
+				isolated.runWithOperationMeter(new OperationMeter(10), () => 1)
+			).toThrow(OperationLimitError);
+			expect(isolated.runWithOperationMeter(undefined, () => 1)).toBe(1);
+		} finally {
+			process.getBuiltinModule = getBuiltinModule;
+		}
+	});
+
+	it("should give module top-level code a budget of its own", async () => {
+		await expect(
+			importInstrumented("for (let i = 0; i < 100; i++) {}", 50)
+		).rejects.toThrow(OperationLimitError);
+	});
+
+	it("should keep throwing once the budget is spent", () => {
+		const meter = new OperationMeter(2);
+		meter.tick();
+		meter.tick();
+		expect(() => meter.tick()).toThrow(
+			"Operation limit exceeded: maximum 2 operations per execution"
+		);
+		expect(() => meter.tick()).toThrow(OperationLimitError);
+		expect(() => meter.check()).toThrow(OperationLimitError);
+		expect(meter.remaining).toBe(0);
+	});
+});
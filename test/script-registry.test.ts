@@ -6,6 +6,7 @@ import {
 	CompositeScriptRegistry,
 	CachedScriptRegistry,
 } from "../src/script-registry";
+import { computeIntegrity } from "../src/content-hash";
 
 describe("Script Registries", () => {
 	describe("InMemoryScriptRegistry", () => {
@@ -86,6 +87,87 @@ describe("Script Registries", () => {
 		});
 	});
 
+	describe("Versioned InMemoryScriptRegistry", () => {
+		let registry: InMemoryScriptRegistry;
+
+		beforeEach(() => {
+			registry = new InMemoryScriptRegistry();
+			registry.register("noise", "1.0.0", "noise v1.0.0");
+			registry.register("noise", "1.2.0", "noise v1.2.0");
+			registry.register("noise", "1.4.1", "noise v1.4.1");
+			registry.register("noise", "2.0.0", "noise v2.0.0");
+		});
+
+		it("should resolve ranges to the highest matching version", async () => {
+			expect(await registry.resolve("noise@^1.2")).toBe("noise v1.4.1");
+			expect(await registry.resolve("noise@~1.2.0")).toBe("noise v1.2.0");
+			expect(await registry.resolve("noise@1.0.0")).toBe("noise v1.0.0");
+			expect(await registry.resolve("noise")).toBe("noise v2.0.0");
+			expect(await registry.resolveVersioned("noise@^1")).toEqual({
+				id: "noise",
+				version: "1.4.1",
+				content: "noise v1.4.1",
+			});
+		});
+
+		it("should report unsatisfiable ranges", async () => {
+			await expect(registry.resolve("noise@^3")).rejects.toThrow(
+				"No version of noise satisfies ^3 (available: 1.0.0, 1.2.0, 1.4.1, 2.0.0)"
+			);
+			await expect(registry.resolve("noise@not a range")).rejects.toThrow(
+				"Invalid version range"
+			);
+		});
+
+		it("should keep published versions immutable", () => {
+			expect(() => registry.register("noise", "1.2.0", "changed")).toThrow(
+				"Script noise@1.2.0 is already registered"
+			);
+			expect(() => registry.register("noise", "1.2", "content")).toThrow(
+				'Invalid version "1.2" for script noise'
+			);
+			registry.register("noise", "1.2.0", "noise v1.2.0");
+		});
+
+		it("should prefer unversioned content for bare ids", async () => {
+			registry.register("noise", "legacy noise");
+
+			expect(await registry.resolve("noise")).toBe("legacy noise");
+			expect(await registry.resolve("noise@^1")).toBe("noise v1.4.1");
+		});
+
+		it("should list and unregister versions", () => {
+			expect(registry.list()).toEqual(["noise"]);
+			expect(registry.versionsOf("noise")).toEqual([
+				"1.0.0",
+				"1.2.0",
+				"1.4.1",
+				"2.0.0",
+			]);
+
+			expect(registry.unregister("noise", "2.0.0")).toBe(true);
+			expect(registry.versionsOf("noise")).toEqual(["1.0.0", "1.2.0", "1.4.1"]);
+			expect(registry.unregister("noise")).toBe(true);
+			expect(registry.has("noise")).toBe(false);
+		});
+
+		it("should pass versions through composite and cached registries", async () => {
+			const composite = new CompositeScriptRegistry([
+				new InMemoryScriptRegistry(),
+				registry,
+			]);
+			const cached = new CachedScriptRegistry(composite);
+
+			expect(await cached.resolveVersioned("noise@^1.2")).toEqual({
+				id: "noise",
+				version: "1.4.1",
+				content: "noise v1.4.1",
+				integrity: await computeIntegrity("noise v1.4.1"),
+				registry,
+			});
+		});
+	});
+
 	describe("HttpScriptRegistry", () => {
 		describe("with base URL", () => {
 			let registry: HttpScriptRegistry;
@@ -0,0 +1,82 @@
+// test/script-signing.test.ts
+import { describe, it, expect, beforeAll } from "bun:test";
+import {
+	generateSigningKeyPair,
+	parseScriptSignature,
+	signScript,
+	verifyScriptSignature,
+	type SigningKeyPair,
+} from "../src/script-signing";
+
+const script = `export const io = { inputs: {}, outputs: {} };
+export default async function() { return {}; }`;
+
+describe("Script signing", () => {
+	let keys: SigningKeyPair;
+
+	beforeAll(async () => {
+		keys = await generateSigningKeyPair();
+	});
+
+	it("should sign and verify a script", async () => {
+		const signed = await signScript(script, keys.privateKey, "studio");
+
+		expect(signed.startsWith(`${script}\n`)).toBe(true);
+		expect(signed).toMatch(/\/\/ @synthase-signature studio \S+\n$/);
+		expect(
+			await verifyScriptSignature(signed, { studio: keys.publicKey })
+		).toEqual({ status: "valid", keyId: "studio" });
+	});
+
+	it("should detect modified content", async () => {
+		const signed = await signScript(script, keys.privateKey, "studio");
+		const tampered = signed.replace("return {}", "return { evil: true }");
+
+		expect(
+			await verifyScriptSignature(tampered, { studio: keys.publicKey })
+		).toEqual({ status: "invalid", keyId: "studio" });
+	});
+
+	it("should report unsigned scripts and unknown keys", async () => {
+		const signed = await signScript(script, keys.privateKey, "studio");
+		const other = await generateSigningKeyPair();
+
+		expect(await verifyScriptSignature(script, {})).toEqual({
+			status: "unsigned",
+		});
+		expect(await verifyScriptSignature(signed, {})).toEqual({
+			status: "untrusted",
+			keyId: "studio",
+		});
+		expect(
+			(await verifyScriptSignature(signed, { studio: other.publicKey })).status
+		).toBe("invalid");
+	});
+
+	it("should replace an existing signature when re-signing", async () => {
+		const other = await generateSigningKeyPair();
+		const signed = await signScript(script, keys.privateKey, "studio");
+		const resigned = await signScript(signed, other.privateKey, "release");
+
+		expect(resigned.match(/@synthase-signature/g)).toHaveLength(1);
+		expect(parseScriptSignature(resigned).body).toBe(`${script}\n`);
+		expect(
+			(await verifyScriptSignature(resigned, { release: other.publicKey }))
+				.status
+		).toBe("valid");
+	});
+
+	it("should reject bad key ids and keys", async () => {
+		await expect(signScript(script, keys.privateKey, "my key")).rejects.toThrow(
+			"Invalid key id"
+		);
+		await expect(signScript(script, "bm90IGEga2V5", "studio")).rejects.toThrow(
+			"Invalid private key"
+		);
+
+		const signed = await signScript(script, keys.privateKey, "studio");
+		await expect(
+			verifyScriptSignature(signed, { studio: "bm90IGEga2V5" })
+		).rejects.toThrow("Invalid public key for studio");
+	});
+});
@@ -0,0 +1,97 @@
+// test/script-stack.test.ts
+import { describe, it, expect } from "bun:test";
+import {
+	formatCodeFrame,
+	formatScriptStack,
+	locateScriptError,
+	originalColumn,
+	parseScriptStack,
+} from "../src/script-stack";
+
+describe("Script stacks", () => {
+	const sources = {
+		"blob:1111": { scriptId: "helper", content: "a\nb\n  throw x;\nd" },
+		"blob:nodedata:2222": { scriptId: "main", content: "main" },
+	};
+	const sourceFor = (url: string) => sources[url as keyof typeof sources];
+	const stack = [
+		"Error: boom",
+		"    at helper (blob:1111:3:3)",
+		"    at internal (/srv/app/synthase.js:10:5)",
+		"    at async run (blob:nodedata:2222:1:1)",
+		"    at blob:1111:4:1",
+	].join("\n");
+
+	it("should keep only frames of known scripts", () => {
+		expect(parseScriptStack(stack, sourceFor)).toEqual([
+			{ scriptId: "helper", line: 3, column: 3, functionName: "helper" },
+			{ scriptId: "main", line: 1, column: 1, functionName: "run" },
+			{ scriptId: "helper", line: 4, column: 1 },
+		]);
+	});
+
+	it("should locate the innermost script frame", () => {
+		const location = locateScriptError(stack, sourceFor)!;
+		expect(location).toMatchObject({ scriptId: "helper", line: 3, column: 3 });
+		expect(location.frames).toHaveLength(3);
+		expect(location.codeFrame).toBe(
+			["  1 | a", "  2 | b", "> 3 |   throw x;", "    |   ^", "  4 | d"].join(
+				"\n"
+			)
+		);
+
+		expect(locateScriptError("Error\n    at x (y.js:1:1)", sourceFor)).toBe(
+			undefined
+		);
+	});
+
+	it("should map columns past code inserted when compiling", () => {
+		const shifts = [
+			{ line: 2, column: 4, length: 3 },
+			{ line: 2, column: 8, length: 2 },
+		];
+
+		expect(originalColumn(shifts, 1, 20)).toBe(20);
+		expect(originalColumn(shifts, 2, 4)).toBe(4);
+		expect(originalColumn(shifts, 2, 6)).toBe(5); // Inside inserted code
+		expect(originalColumn(shifts, 2, 9)).toBe(6);
+		expect(originalColumn(shifts, 2, 20)).toBe(15);
+
+		const located = locateScriptError("Error\n    at blob:3333:1:12", (url) =>
+			url === "blob:3333"
+				? {
+						scriptId: "main",
+						content: "f(); throw x;",
+						columnShifts: [{ line: 1, column: 0, length: 6 }],
+					}
+				: undefined
+		)!;
+		expect(located.column).toBe(6);
+		expect(located.codeFrame).toBe("> 1 | f(); throw x;\n    |      ^");
+	});
+
+	it("should align code frames with wide line numbers and tabs", () => {
+		const content = Array.from({ length: 12 }, (_, i) => `line ${i + 1}`);
+		content[9] = "\tfail();";
+
+		expect(formatCodeFrame(content.join("\n"), 10, 2, 1)).toBe(
+			[
+				"   9 | line 9",
+				"> 10 | \tfail();",
+				"     | \t^",
+				"  11 | line 11",
+			].join("\n")
+		);
+	});
+
+	it("should format frames as a stack trace", () => {
+		expect(
+			formatScriptStack("ScriptRuntimeError", "boom", [
+				{ scriptId: "helper", line: 3, column: 3, functionName: "helper" },
+				{ scriptId: "main", line: 1, column: 1 },
+			])
+		).toBe(
+			"ScriptRuntimeError: boom\n    at helper (helper:3:3)\n    at main:1:1"
+		);
+	});
+});
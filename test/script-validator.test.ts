@@ -169,6 +169,24 @@ describe("ScriptValidator", () => {
 			expect(result.errors).toContain("Prototype manipulation is prohibited");
 		});
 
+		it("should reject names reserved for instrumented code", () => {
+			for (const body of [
+				"__synthaseTicks = () => {};",
+				"\\u005f_synthaseTicks = null;",
+			]) {
+				const result = validator.validateScript(`
+        export const io = { inputs: {}, outputs: {} };
+        export default async function() {
+          ${body}
+          return {};
+        }
+      `);
+				expect(result.errors).toContain(
+					"Identifiers starting with __synthase are reserved"
+				);
+			}
+		});
+
 		it("should detect very large loops", () => {
 			const script = `
         export const io = { inputs: {}, outputs: {} };
@@ -425,6 +443,39 @@ describe("ScriptValidator", () => {
 			const result = validator.validateScript(script);
 			expect(result.valid).toBe(true);
 		});
+
+		it("should not evaluate expressions in the IO schema", () => {
+			(globalThis as any).__ioEvaluations = 0;
+			const script = `
+        export const io = {
+          inputs: (() => { globalThis.__ioEvaluations++; return {}; })(),
+          outputs: {}
+        };
+        export default async function() { return {}; }
+      `;
+
+			const result = validator.validateScript(script);
+			expect((globalThis as any).__ioEvaluations).toBe(0);
+			delete (globalThis as any).__ioEvaluations;
+			expect(result.valid).toBe(false);
+			expect(result.errors[0]).toStartWith("Invalid IO schema:");
+		});
+
+		it("should reject computed values in the IO schema", () => {
+			// Earlier releases evaluated the schema and accepted these
+			for (const value of ["Math.PI", "[...sizes]"]) {
+				const result = validator.validateScript(`
+        const sizes = [1, 2];
+        export const io = {
+          inputs: { size: { type: 'number', default: ${value} } },
+          outputs: {}
+        };
+        export default async function() { return {}; }
+      `);
+				expect(result.valid).toBe(false);
+				expect(result.errors[0]).toStartWith("Invalid IO schema:");
+			}
+		});
 	});
 
 	describe("Custom Validation Rules", () => {
@@ -535,4 +586,265 @@ describe("ScriptValidator", () => {
 			);
 		});
 	});
+	describe("AST Mode", () => {
+		let astValidator: ScriptValidator;
+
+		beforeEach(() => {
+			astValidator = new ScriptValidator({ mode: "ast" });
+		});
+
+		const wrap = (body: string) => `
+export const io = { inputs: {}, outputs: {} };
+export default async function() {
+${body}
+}
+`;
+
+		it("should accept identifiers that merely end in Function", () => {
+			const result = astValidator.validateScript(
+				wrap("const myFunction = () => 1;\nreturn { value: myFunction() };")
+			);
+			expect(result.valid).toBe(true);
+			expect(result.findings).toHaveLength(0);
+		});
+
+		it("should detect eval and the Function constructor with locations", () => {
+			const result = astValidator.validateScript(
+				wrap("eval('1');\nconst f = new Function('return 1');")
+			);
+			expect(result.valid).toBe(false);
+			expect(result.findings).toContainEqual({
+				message: "Use of eval() is prohibited",
+				line: 4,
+				column: 1,
+			});
+			expect(result.findings).toContainEqual({
+				message: "Use of Function constructor is prohibited",
+				line: 5,
+				column: 15,
+			});
+			expect(result.errors).toContain(
+				"Use of eval() is prohibited (line 4, column 1)"
+			);
+		});
+
+		it("should detect computed access to dangerous globals", () => {
+			const result = astValidator.validateScript(
+				wrap('globalThis["ev" + "al"]("1");\nwindow["eval"]("2");')
+			);
+			const messages = result.findings!.map((f) => f.message);
+			expect(messages).toContain(
+				"Computed access to global object is prohibited"
+			);
+			expect(messages).toContain("Use of eval() is prohibited");
+		});
+
+		it("should detect prototype mutation", () => {
+			const result = astValidator.validateScript(
+				wrap(
+					"Object.prototype.polluted = true;\nconst o = {};\no['__proto__'].x = 1;\nObject.setPrototypeOf(o, null);"
+				)
+			);
+			const protoFindings = result.findings!.filter(
+				(f) => f.message === "Prototype manipulation is prohibited"
+			);
+			expect(protoFindings.map((f) => f.line)).toEqual([4, 6, 7]);
+		});
+
+		it("should only flag writes to built-in prototypes", () => {
+			const reads = astValidator.validateScript(
+				wrap(
+					"const slice = Array.prototype.slice;\nreturn { args: Array.prototype.slice.call([1, 2], 1) };"
+				)
+			);
+			expect(reads.valid).toBe(true);
+
+			const writes = astValidator.validateScript(
+				wrap(
+					"delete String.prototype.trim;\n[].constructor.prototype.count++;\nObject.defineProperty(Array.prototype, 'x', { value: 1 });"
+				)
+			);
+			const protoFindings = writes.findings!.filter(
+				(f) => f.message === "Prototype manipulation is prohibited"
+			);
+			expect(protoFindings.map((f) => f.line)).toEqual([4, 5, 6]);
+		});
+
+		it("should detect the Function constructor reached through constructor chains", () => {
+			const result = astValidator.validateScript(
+				wrap(
+					"const F = [].constructor.constructor;\nreturn { f: F('return 1') };"
+				)
+			);
+			expect(result.findings).toEqual([
+				{
+					message: "Use of Function constructor is prohibited",
+					line: 4,
+					column: 11,
+				},
+			]);
+		});
+
+		it("should detect constructor reads that reach the Function constructor", () => {
+			const sources = [
+				'return (function () {}).constructor("return 1")();',
+				"const F = Object.getPrototypeOf(async function () {}).constructor;",
+				"const { constructor: F } = () => 1;",
+				'const F = (() => 1)["constructor"];',
+			];
+			for (const source of sources) {
+				const result = astValidator.validateScript(wrap(source));
+				expect(result.findings!.map((f) => f.message)).toEqual([
+					"Use of Function constructor is prohibited",
+				]);
+			}
+		});
+
+		it("should detect global objects used as values", () => {
+			const aliased = astValidator.validateScript(
+				wrap('const g = globalThis;\nreturn { f: g["ev" + "al"] };')
+			);
+			expect(aliased.findings).toEqual([
+				{
+					message: "Use of global object as a value is prohibited",
+					line: 4,
+					column: 11,
+				},
+			]);
+
+			const passed = astValidator.validateScript(
+				wrap('return { f: Reflect.get(globalThis, "ev" + "al") };')
+			);
+			expect(passed.findings!.map((f) => f.message)).toEqual([
+				"Use of global object as a value is prohibited",
+			]);
+
+			const reads = astValidator.validateScript(
+				wrap(
+					'if (typeof window === "undefined") return { x: globalThis.Math.PI };'
+				)
+			);
+			expect(reads.valid).toBe(true);
+		});
+
+		it("should detect any computed access to global objects", () => {
+			const result = astValidator.validateScript(
+				wrap('return { f: self["fetch"], g: window[name] };')
+			);
+			expect(result.findings!.map((f) => f.message)).toEqual([
+				"Computed access to global object is prohibited",
+				"Computed access to global object is prohibited",
+			]);
+		});
+
+		it("should build the IO schema without evaluating script code", () => {
+			(globalThis as any).__ioEvaluations = 0;
+			const result = astValidator.validateScript(`
+export const io = (() => { globalThis.__ioEvaluations++; return { inputs: {}, outputs: {} }; })();
+export default async function() { return {}; }
+`);
+
+			expect((globalThis as any).__ioEvaluations).toBe(0);
+			delete (globalThis as any).__ioEvaluations;
+			expect(result.valid).toBe(false);
+			expect(result.errors).toContain(
+				"Invalid IO schema: CallExpression is not allowed, the schema must be a plain literal (line 2, column 19)"
+			);
+
+			const literal = astValidator.validateScript(`
+export const io = {
+  inputs: { size: { type: 'int', min: -1, max: Infinity, options: [1, 2], label: \`Size\` } },
+  outputs: {}
+};
+export default async function() { return {}; }
+`);
+			expect(literal.valid).toBe(true);
+		});
+
+		it("should detect unbounded loops but allow loops with an exit", () => {
+			const unbounded = astValidator.validateScript(
+				wrap("while (true) { doWork(); }\nfor (;;) {}")
+			);
+			const messages = unbounded.findings!.map((f) => f.message);
+			expect(messages).toContain("Potential infinite while loop detected");
+			expect(messages).toContain("Potential infinite for loop detected");
+
+			const bounded = astValidator.validateScript(
+				wrap("while (true) { if (done()) break; }\nfor (;;) { return {}; }")
+			);
+			expect(bounded.valid).toBe(true);
+		});
+
+		it("should detect while loops that never update their condition", () => {
+			const result = astValidator.validateScript(
+				wrap(
+					"let i = 0;\nwhile (i < 10) {}\ndo { const x = i; } while (i < 10);"
+				)
+			);
+			expect(result.findings).toEqual([
+				{
+					message: "Potential infinite while loop (no increment) detected",
+					line: 5,
+					column: 1,
+				},
+				{
+					message: "Potential infinite while loop (no increment) detected",
+					line: 6,
+					column: 1,
+				},
+			]);
+
+			const updated = astValidator.validateScript(
+				wrap(
+					"let i = 0;\nwhile (i < 10) { i++; }\ndo { i--; } while (i > 0);\nwhile (queue.length) { queue.pop(); }"
+				)
+			);
+			expect(updated.valid).toBe(true);
+		});
+
+		it("should report syntax errors with their location", () => {
+			const result = astValidator.validateScript(wrap("const = 5;"));
+			expect(result.valid).toBe(false);
+			expect(result.findings).toHaveLength(1);
+			expect(result.findings![0].line).toBe(4);
+			expect(result.findings![0].message).toStartWith("Syntax error:");
+		});
+
+		it("should detect names reserved for instrumented code", () => {
+			const result = astValidator.validateScript(
+				wrap(
+					"var \\u005f_synthaseTick = () => {};\nreturn { x: globalThis.__synthaseMarker };"
+				)
+			);
+			expect(result.findings).toEqual([
+				{
+					message: "Identifiers starting with __synthase are reserved",
+					line: 4,
+					column: 5,
+				},
+			]);
+		});
+
+		it("should keep the regex mode result shape", () => {
+			const script = wrap("return {};");
+			const result = astValidator.validateScript(script);
+			expect(result).toEqual({
+				valid: true,
+				errors: [],
+				warnings: [],
+				findings: [],
+			});
+		});
+
+		it("should still validate the IO schema", () => {
+			const result = astValidator.validateScript(`
+export const io = { inputs: { x: { type: 'wrong' } }, outputs: {} };
+export default async function() { return {}; }
+`);
+			expect(result.valid).toBe(false);
+			expect(result.errors).toContain(
+				"Invalid parameter type 'wrong' for inputs.x"
+			);
+		});
+	});
 });
@@ -0,0 +1,79 @@
+// test/semver.test.ts
+import { describe, it, expect } from "bun:test";
+import {
+	compareVersions,
+	maxSatisfying,
+	parseSpecifier,
+	satisfies,
+} from "../src/semver";
+
+describe("semver", () => {
+	describe("parseSpecifier()", () => {
+		it("should split ids and ranges", () => {
+			expect(parseSpecifier("noise@^1.2")).toEqual({
+				id: "noise",
+				range: "^1.2",
+			});
+			expect(parseSpecifier("noise")).toEqual({ id: "noise" });
+			expect(parseSpecifier("@shared/noise@1.0.0")).toEqual({
+				id: "@shared/noise",
+				range: "1.0.0",
+			});
+			expect(parseSpecifier("@shared/noise")).toEqual({ id: "@shared/noise" });
+		});
+	});
+
+	describe("compareVersions()", () => {
+		it("should order releases and prereleases", () => {
+			const versions = [
+				"1.10.0",
+				"1.2.0",
+				"1.2.0-beta.2",
+				"1.2.0-beta.10",
+				"0.9.9",
+			];
+			expect(versions.sort(compareVersions)).toEqual([
+				"0.9.9",
+				"1.2.0-beta.2",
+				"1.2.0-beta.10",
+				"1.2.0",
+				"1.10.0",
+			]);
+		});
+	});
+
+	describe("satisfies()", () => {
+		it("should support caret and tilde ranges", () => {
+			expect(satisfies("1.9.0", "^1.2")).toBe(true);
+			expect(satisfies("2.0.0", "^1.2")).toBe(false);
+			expect(satisfies("0.2.9", "^0.2.3")).toBe(true);
+			expect(satisfies("0.3.0", "^0.2.3")).toBe(false);
+			expect(satisfies("1.2.9", "~1.2.3")).toBe(true);
+			expect(satisfies("1.3.0", "~1.2.3")).toBe(false);
+		});
+
+		it("should support comparators, x-ranges, hyphens and alternatives", () => {
+			expect(satisfies("1.5.0", ">=1.2.0 <2.0.0")).toBe(true);
+			expect(satisfies("1.5.0", "1.x")).toBe(true);
+			expect(satisfies("2.0.4", "1.0 - 2.0")).toBe(true);
+			expect(satisfies("2.1.0", "1.0 - 2.0")).toBe(false);
+			expect(satisfies("3.1.0", "^1.0 || ^3.0")).toBe(true);
+			expect(satisfies("1.2.3", "1.2.3")).toBe(true);
+			expect(satisfies("1.2.4", "1.2.3")).toBe(false);
+		});
+
+		it("should only match prereleases explicitly", () => {
+			expect(satisfies("2.0.0-beta.1", "*")).toBe(false);
+			expect(satisfies("2.0.0-beta.2", "^2.0.0-beta.1")).toBe(true);
+			expect(satisfies("2.0.1-beta.1", "^2.0.0-beta.1")).toBe(false);
+		});
+	});
+
+	describe("maxSatisfying()", () => {
+		it("should pick the highest matching version", () => {
+			const versions = ["1.2.0", "1.10.0", "1.9.3", "2.0.0"];
+			expect(maxSatisfying(versions, "^1.2")).toBe("1.10.0");
+			expect(maxSatisfying(versions, "^3")).toBeUndefined();
+		});
+	});
+});
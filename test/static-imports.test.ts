@@ -0,0 +1,49 @@
+// test/static-imports.test.ts
+import { describe, it, expect } from "bun:test";
+import {
+	findStaticImports,
+	rewriteStaticImports,
+	toModuleDataUrl,
+} from "../src/static-imports";
+
+describe("Static imports", () => {
+	it("should find synthase: specifiers in imports and re-exports", () => {
+		const content = `
+      import { fbm } from "synthase:geometry/noise@^1.0";
+      import * as colors from 'synthase:palette';
+      import local from "./local.js";
+      export { lerp } from "synthase:math";
+      const lazy = () => import("synthase:lazy");
+      const text = "import x from 'synthase:not-an-import'";
+    `;
+
+		expect(findStaticImports(content).map((imp) => imp.specifier)).toEqual([
+			"geometry/noise@^1.0",
+			"palette",
+			"math",
+			"lazy",
+		]);
+	});
+
+	it("should ignore scripts that do not parse", () => {
+		expect(findStaticImports('import { x } from "synthase:a" (')).toEqual([]);
+	});
+
+	it("should rewrite specifiers to module URLs", async () => {
+		const content = `import { a } from "synthase:a";\nimport b from 'synthase:b';`;
+		const rewritten = await rewriteStaticImports(
+			content,
+			findStaticImports(content),
+			async (specifier) => `blob:test/${specifier}`
+		);
+
+		expect(rewritten).toBe(
+			`import { a } from "blob:test/a";\nimport b from "blob:test/b";`
+		);
+	});
+
+	it("should encode data URLs as UTF-8", async () => {
+		const url = toModuleDataUrl(`export const label = "ü";`);
+		expect((await import(url)).label).toBe("ü");
+	});
+});
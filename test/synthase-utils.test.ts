@@ -1,5 +1,8 @@
 // test/synthase-utils.test.ts
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import {
 	execute,
 	executeWithValidation,
@@ -7,9 +10,15 @@ import {
 	executeBatch,
 	createReusable,
 	createHotReloadable,
+	watchScript,
 	benchmark,
+	type WatchedScript,
+	type WatchEvents,
 } from "../src/synthase-utils";
-import { InMemoryScriptRegistry } from "../src/script-registry";
+import {
+	FileSystemScriptRegistry,
+	InMemoryScriptRegistry,
+} from "../src/script-registry";
 
 describe("SynthaseUtils", () => {
 	const simpleScript = `
@@ -101,6 +110,24 @@ describe("SynthaseUtils", () => {
 				)
 			).rejects.toThrow("timeout");
 		});
+
+		it("should return a detailed result when requested", async () => {
+			const result = await execute(
+				simpleScript,
+				{ message: "Hi", count: 2 },
+				{ detailed: true }
+			);
+
+			expect(result.outputs).toEqual({ result: "Hi Hi" });
+			expect(result.logs).toHaveLength(1);
+			expect(result.logs[0]).toMatchObject({
+				level: "info",
+				message: "Processing: Hi x2",
+			});
+			expect(result.imports).toEqual([]);
+			expect(result.stats.memoryLimit).toBeGreaterThan(0);
+			expect(result.durationMs).toBeGreaterThanOrEqual(0);
+		});
 	});
 
 	describe("executeWithValidation()", () => {
@@ -348,6 +375,115 @@ describe("SynthaseUtils", () => {
 		});
 	});
 
+	describe("watchScript()", () => {
+		const mainScript = (label: string) => `
+      export const io = { inputs: {}, outputs: { label: { type: 'string' }, helper: { type: 'string' } } };
+      export default async function({}, { importScript }) {
+        const helper = await importScript("helper.js");
+        return { label: '${label}', helper: (await helper({})).label };
+      }
+    `;
+		const helperScript = (label: string) => `
+      export const io = { inputs: {}, outputs: { label: { type: 'string' } } };
+      export default async function() { return { label: '${label}' }; }
+    `;
+		let dir: string;
+		let watched: WatchedScript | undefined;
+
+		beforeEach(async () => {
+			dir = await mkdtemp(join(tmpdir(), "synthase-watch-"));
+			await writeFile(join(dir, "main.js"), mainScript("main v1"));
+			await writeFile(join(dir, "helper.js"), helperScript("helper v1"));
+		});
+
+		afterEach(async () => {
+			watched?.dispose();
+			watched = undefined;
+			await rm(dir, { recursive: true, force: true });
+		});
+
+		const nextEvent = <Event extends keyof WatchEvents>(
+			script: WatchedScript,
+			event: Event
+		) =>
+			new Promise<WatchEvents[Event]>((resolve, reject) => {
+				const timer = setTimeout(
+					() => reject(new Error(`No ${event} event`)),
+					2000
+				);
+				const off = script.on(event, (payload) => {
+					clearTimeout(timer);
+					off();
+					resolve(payload);
+				});
+			});
+
+		it("should reload when a dependency file changes", async () => {
+			watched = await watchScript(
+				"main.js",
+				new FileSystemScriptRegistry(dir),
+				{ debounceMs: 10 }
+			);
+			expect(await watched.execute({})).toEqual({
+				label: "main v1",
+				helper: "helper v1",
+			});
+			expect(watched.getDependencies()).toEqual(["helper.js"]);
+
+			const reloaded = nextEvent(watched, "reloaded");
+			await writeFile(join(dir, "helper.js"), helperScript("helper v2"));
+
+			const { changed, invalidated } = await reloaded;
+			expect(changed).toContain("helper.js");
+			expect(invalidated).toContain("helper.js");
+			expect(await watched.execute({})).toEqual({
+				label: "main v1",
+				helper: "helper v2",
+			});
+		});
+
+		it("should keep the last good version when a change fails", async () => {
+			watched = await watchScript(
+				"main.js",
+				new FileSystemScriptRegistry(dir),
+				{ debounceMs: 10 }
+			);
+
+			const failed = nextEvent(watched, "reloadFailed");
+			await writeFile(join(dir, "main.js"), "invalid script syntax");
+			expect((await failed).error.message).toContain(
+				"Script validation failed"
+			);
+			expect((await watched.execute({})).label).toBe("main v1");
+
+			const reloaded = nextEvent(watched, "reloaded");
+			await writeFile(join(dir, "main.js"), mainScript("main v2"));
+			expect((await reloaded).changed).toContain("main.js");
+			expect((await watched.execute({})).label).toBe("main v2");
+		});
+
+		it("should keep the last good dependency when its change fails", async () => {
+			watched = await watchScript(
+				"main.js",
+				new FileSystemScriptRegistry(dir),
+				{ debounceMs: 10 }
+			);
+
+			const failed = nextEvent(watched, "reloadFailed");
+			await writeFile(join(dir, "helper.js"), "invalid script syntax");
+			expect((await failed).changed).toContain("helper.js");
+			expect(await watched.execute({})).toEqual({
+				label: "main v1",
+				helper: "helper v1",
+			});
+
+			const reloaded = nextEvent(watched, "reloaded");
+			await writeFile(join(dir, "helper.js"), helperScript("helper v2"));
+			expect((await reloaded).invalidated).toContain("helper.js");
+			expect((await watched.execute({})).helper).toBe("helper v2");
+		});
+	});
+
 	describe("createHotReloadable()", () => {
 		it("should support hot reloading", async () => {
 			let version = 1;
@@ -1,7 +1,27 @@
 // test/synthase.test.ts
-import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
 import { Synthase } from "../src/synthase";
-import { InMemoryScriptRegistry } from "../src/script-registry";
+import {
+	CompositeScriptRegistry,
+	InMemoryScriptRegistry,
+} from "../src/script-registry";
+import { computeIntegrity } from "../src/content-hash";
+import {
+	DependencyResolutionError,
+	ImportLimitError,
+	InputValidationError,
+	MemoryLimitError,
+	OperationLimitError,
+	ScriptRuntimeError,
+	TimeoutError,
+	ValidationError,
+} from "../src/errors";
+import {
+	generateSigningKeyPair,
+	signScript,
+	type SigningKeyPair,
+} from "../src/script-signing";
+import type { RegistryTrust, SynthaseConfig } from "../src/types";
 
 describe("SynthaseCore", () => {
 	let synthase: Synthase;
@@ -231,17 +251,77 @@ describe("SynthaseCore", () => {
 			});
 		});
 
-		it("should prevent recursive imports", async () => {
-			const sharedScriptContent = `
-    export const io = {
-      inputs: {},
-      outputs: { result: { type: 'string' } }
-    };
-    export default async function() {
-      return { result: 'shared' };
-    }
-  `;
+		it("should resolve versioned imports and pin the exact version", async () => {
+			const registry = new InMemoryScriptRegistry();
+			const noise = (version: string) => `
+        export const io = { inputs: {}, outputs: { version: { type: 'string' } } };
+        export default async function() { return { version: '${version}' }; }
+      `;
+			registry.register("noise", "1.2.0", noise("1.2.0"));
+			registry.register("noise", "1.3.1", noise("1.3.1"));
+			registry.register("noise", "2.0.0", noise("2.0.0"));
+
+			const script = `
+        export const io = { inputs: {}, outputs: { version: { type: 'string' } } };
+        export default async function({}, { importScript }) {
+          const noise = await importScript("noise@^1.2");
+          return noise({});
+        }
+      `;
+
+			synthase = new Synthase(script, { registry });
+			await synthase.waitForInitialization();
+			expect(synthase.getDependencies()).toEqual(["noise@1.3.1"]);
+
+			// Publishing a newer compatible version does not change this instance
+			registry.register("noise", "1.4.0", noise("1.4.0"));
+			const result = await synthase.callDetailed({});
+
+			expect(result.outputs).toEqual({ version: "1.3.1" });
+			expect(result.imports[0]).toMatchObject({
+				source: "registry",
+				specifier: "noise@^1.2",
+				version: "1.3.1",
+			});
+		});
+
+		it("should verify the integrity of imported scripts", async () => {
+			const registry = new InMemoryScriptRegistry();
+			const helper = `
+        export const io = { inputs: {}, outputs: { value: { type: 'int' } } };
+        export default async function() { return { value: 7 }; }
+      `;
+			registry.register("helper", helper);
+			const integrity = await computeIntegrity(helper);
+
+			const script = (expected: string) => `
+        export const io = { inputs: {}, outputs: { value: { type: 'int' } } };
+        export default async function({}, { importScript }) {
+          const helper = await importScript("helper", { integrity: "${expected}" });
+          return helper({});
+        }
+      `;
+
+			synthase = new Synthase(script(integrity), { registry });
+			const result = await synthase.callDetailed({});
+			expect(result.outputs).toEqual({ value: 7 });
+			expect(result.imports[0].integrity).toBe(integrity);
+			synthase.dispose();
+
+			const wrong = await computeIntegrity("something else");
+			synthase = new Synthase(script(wrong), { registry });
+			await expect(synthase.call({})).rejects.toThrow(
+				`Integrity mismatch for helper: expected ${wrong}, got ${integrity}`
+			);
+			synthase.dispose();
+
+			synthase = new Synthase(script("md5-abc"), { registry });
+			await expect(synthase.call({})).rejects.toThrow(
+				"Unsupported integrity for helper"
+			);
+		});
 
+		it("should prevent recursive imports", async () => {
 			const recursiveScript = `
     export const io = {
       inputs: {},
@@ -249,19 +329,614 @@ describe("SynthaseCore", () => {
     };
 
     export default async function({}, { importScript }) {
-      // Import the same script content twice - should detect recursion
-      const first = await importScript(\`${sharedScriptContent}\`);
-      const second = await importScript(\`${sharedScriptContent}\`);
-      
+      // Import this same script content again - should detect recursion
+      const self = await importScript(async () => globalThis.__recursiveScript);
+      await self({});
+
       return { result: 'should not reach here' };
     }
   `;
+			(globalThis as any).__recursiveScript = recursiveScript;
+
+			try {
+				synthase = new Synthase(recursiveScript);
+				const error = await synthase.call({}).catch((e) => e);
+				expect(error).toBeInstanceOf(DependencyResolutionError);
+				expect(error.message).toStartWith("Recursive import detected");
+				expect(error.details.scriptId).toStartWith("imported-");
+			} finally {
+				delete (globalThis as any).__recursiveScript;
+			}
+		});
 
-			synthase = new Synthase(recursiveScript);
-			await expect(synthase.call({})).rejects.toThrow(
-				/Recursive import detected|script content already imported/
+		it("should import the same script repeatedly in one execution", async () => {
+			const registry = new InMemoryScriptRegistry();
+			registry.register(
+				"helper",
+				`
+        export const io = { inputs: { n: { type: 'int' } }, outputs: { n: { type: 'int' } } };
+        export default async function({ n }) { return { n: n + 1 }; }
+      `
+			);
+			const script = `
+        export const io = { inputs: {}, outputs: { n: { type: 'int' } } };
+        export default async function({}, { importScript }) {
+          let n = 0;
+          for (let i = 0; i < 3; i++) {
+            const helper = await importScript("helper");
+            n = (await helper({ n })).n;
+          }
+          return { n };
+        }
+      `;
+
+			synthase = new Synthase(script, { registry });
+			const result = await synthase.callDetailed({});
+
+			expect(result.outputs).toEqual({ n: 3 });
+			expect(result.imports).toHaveLength(3);
+		});
+	});
+
+	describe("Lockfile", () => {
+		const helper = (label: string) => `
+      export const io = { inputs: {}, outputs: { label: { type: 'string' } } };
+      export default async function() { return { label: '${label}' }; }
+    `;
+		const script = `
+      export const io = { inputs: {}, outputs: { noise: { type: 'string' }, palette: { type: 'string' } } };
+      export default async function({}, { importScript }) {
+        const noise = await importScript("noise@^1.0");
+        const palette = await importScript("palette");
+        return { noise: (await noise({})).label, palette: (await palette({})).label };
+      }
+    `;
+		let registry: InMemoryScriptRegistry;
+
+		beforeEach(() => {
+			registry = new InMemoryScriptRegistry();
+			registry.register("noise", "1.0.0", helper("noise 1.0.0"));
+			registry.register("palette", helper("palette"));
+		});
+
+		it("should record resolved dependencies", async () => {
+			synthase = new Synthase(script, { registry });
+			await synthase.waitForInitialization();
+
+			const lockfile = synthase.getLockfile();
+			expect(lockfile.lockfileVersion).toBe(1);
+			expect(Object.keys(lockfile.dependencies)).toEqual([
+				"noise@^1.0",
+				"palette",
+			]);
+			expect(lockfile.dependencies["noise@^1.0"]).toEqual({
+				id: "noise",
+				version: "1.0.0",
+				integrity: expect.stringMatching(/^sha256-[A-Za-z0-9+/]{43}=$/),
+			});
+			expect(lockfile.dependencies.palette.version).toBeUndefined();
+		});
+
+		it("should load the locked versions", async () => {
+			synthase = new Synthase(script, { registry });
+			await synthase.waitForInitialization();
+			const lockfile = JSON.parse(JSON.stringify(synthase.getLockfile()));
+			synthase.dispose();
+
+			registry.register("noise", "1.1.0", helper("noise 1.1.0"));
+			synthase = new Synthase(script, { registry, lockfile });
+
+			expect(await synthase.call({})).toEqual({
+				noise: "noise 1.0.0",
+				palette: "palette",
+			});
+		});
+
+		it("should fail when the registry returns different content", async () => {
+			synthase = new Synthase(script, { registry });
+			await synthase.waitForInitialization();
+			const lockfile = synthase.getLockfile();
+			synthase.dispose();
+
+			registry.register("palette", helper("tampered palette"));
+			synthase = new Synthase(script, { registry, lockfile });
+
+			await expect(synthase.waitForInitialization()).rejects.toThrow(
+				"Lockfile mismatch for palette"
+			);
+		});
+
+		it("should fail for dependencies missing from the lockfile", async () => {
+			synthase = new Synthase(script, {
+				registry,
+				lockfile: { lockfileVersion: 1, dependencies: {} },
+			});
+
+			await expect(synthase.waitForInitialization()).rejects.toThrow(
+				"is not in the lockfile"
+			);
+		});
+	});
+
+	describe("Static Imports", () => {
+		let registry: InMemoryScriptRegistry;
+
+		beforeEach(() => {
+			registry = new InMemoryScriptRegistry();
+			registry.register(
+				"geometry/vector",
+				`export const add = (a, b) => ({ x: a.x + b.x, y: a.y + b.y });`
+			);
+			registry.register(
+				"geometry/noise",
+				"1.2.0",
+				`import { add } from "synthase:geometry/vector";
+        export const SCALE = 2;
+        export function offset(point) { return add(point, { x: SCALE, y: SCALE }); }`
+			);
+		});
+
+		const script = `
+      import { offset, SCALE } from "synthase:geometry/noise@^1.0";
+      export const io = { inputs: {}, outputs: { point: { type: 'object' }, scale: { type: 'int' } } };
+      export default async function() {
+        return { point: offset({ x: 1, y: 1 }), scale: SCALE };
+      }
+    `;
+
+		it("should resolve named exports through the registry", async () => {
+			synthase = new Synthase(script, { registry });
+
+			expect(await synthase.call({})).toEqual({
+				point: { x: 3, y: 3 },
+				scale: 2,
+			});
+			expect(Object.keys(synthase.getLockfile().dependencies)).toEqual([
+				"geometry/noise@^1.0",
+				"geometry/vector",
+			]);
+		});
+
+		it("should resolve static imports in worker isolation", async () => {
+			synthase = new Synthase(script, { registry, isolation: "worker" });
+
+			expect(await synthase.call({})).toEqual({
+				point: { x: 3, y: 3 },
+				scale: 2,
+			});
+		});
+
+		it("should report import cycles and unknown modules", async () => {
+			registry.register("a", `import "synthase:b"; export const a = 1;`);
+			registry.register("b", `import "synthase:a"; export const b = 1;`);
+			const importing = (specifier: string) => `
+        import "synthase:${specifier}";
+        export const io = { inputs: {}, outputs: {} };
+        export default async function() { return {}; }
+      `;
+
+			synthase = new Synthase(importing("a"), { registry });
+			await expect(synthase.waitForInitialization()).rejects.toThrow(
+				"Circular static import: a -> b -> a"
+			);
+
+			synthase.dispose();
+			synthase = new Synthase(importing("missing"), { registry });
+			await expect(synthase.waitForInitialization()).rejects.toThrow(
+				'Failed to resolve static import "synthase:missing"'
+			);
+		});
+
+		it("should validate imported modules", async () => {
+			registry.register("unsafe", `export const run = () => eval("1");`);
+			synthase = new Synthase(
+				`import { run } from "synthase:unsafe";
+        export const io = { inputs: {}, outputs: {} };
+        export default async function() { return {}; }`,
+				{ registry }
+			);
+
+			await expect(synthase.waitForInitialization()).rejects.toThrow(
+				"Module unsafe validation failed: Use of eval() is prohibited"
 			);
 		});
+
+		it("should relink modules invalidated through the dependency graph", async () => {
+			synthase = new Synthase(script, { registry });
+			expect((await synthase.call({})).scale).toBe(2);
+
+			registry.register(
+				"geometry/noise",
+				"1.3.0",
+				`export const SCALE = 3; export const offset = (p) => p;`
+			);
+			expect(synthase.invalidateAffected(["geometry/noise"])).toContain(
+				"geometry/noise@^1.0"
+			);
+			await synthase.refresh();
+			expect((await synthase.call({})).scale).toBe(3);
+		});
+	});
+
+	describe("Dependency Graph", () => {
+		const importer = (deps: string[], extra = "") => `
+      ${extra}
+      export const io = { inputs: {}, outputs: {} };
+      export default async function({}, { importScript }) {
+        ${deps.map((dep) => `await importScript("${dep}");`).join("\n")}
+        return {};
+      }
+    `;
+		let registry: InMemoryScriptRegistry;
+
+		beforeEach(() => {
+			registry = new InMemoryScriptRegistry();
+		});
+
+		it("should report nodes and edges with their resolution status", async () => {
+			registry.register("noise", "1.2.0", importer(["random"]));
+			registry.register("random", importer([]));
+			registry.register("vector", `export const zero = { x: 0, y: 0 };`);
+
+			synthase = new Synthase(
+				importer(["noise@^1.0"], `import { zero } from "synthase:vector";`),
+				{ registry }
+			);
+			expect(synthase.getDependencyGraph().nodes).toEqual([]);
+			await synthase.waitForInitialization();
+
+			const graph = synthase.getDependencyGraph();
+			const nodes = Object.fromEntries(graph.nodes.map((n) => [n.id, n]));
+			expect(nodes[graph.root]).toMatchObject({
+				kind: "main",
+				status: "resolved",
+			});
+			expect(nodes["noise@^1.0"]).toMatchObject({
+				kind: "script",
+				status: "resolved",
+				version: "1.2.0",
+				integrity: expect.stringMatching(/^sha256-/),
+			});
+			expect(nodes["vector"]).toMatchObject({
+				kind: "module",
+				status: "resolved",
+			});
+			expect(graph.edges).toContainEqual({
+				from: graph.root,
+				to: "vector",
+				kind: "static",
+			});
+			expect(graph.edges).toContainEqual({
+				from: "noise@^1.0",
+				to: "random",
+				kind: "import",
+			});
+
+			// Cached scripts keep their requested dependencies across reloads
+			await synthase.refresh();
+			expect(
+				synthase
+					.getDependencyGraph()
+					.nodes.find((node) => node.id === "noise@^1.0")
+			).toMatchObject({ status: "cached", version: "1.2.0" });
+		});
+
+		it("should detect dependency cycles at initialization", async () => {
+			registry.register("a", importer(["b"]));
+			registry.register("b", importer(["a"]));
+
+			synthase = new Synthase(importer(["a"]), { registry });
+			await expect(synthase.waitForInitialization()).rejects.toThrow(
+				"Circular dependency: a -> b -> a"
+			);
+		});
+
+		it("should mark dependencies that fail to load", async () => {
+			registry.register("broken", `export default async function() {}`);
+
+			synthase = new Synthase(importer(["broken", "missing"]), { registry });
+			await expect(synthase.waitForInitialization()).rejects.toThrow(
+				"Failed to load dependency broken"
+			);
+
+			const nodes = synthase.getDependencyGraph().nodes;
+			expect(nodes.find((node) => node.id === "broken")).toMatchObject({
+				status: "failed",
+				error: expect.stringContaining("validation failed"),
+			});
+			expect(nodes.find((node) => node.id === "missing")?.status).toBe(
+				"pending"
+			);
+		});
+	});
+
+	describe("Error Types", () => {
+		const withIO = (body: string, inputs = "{}") => `
+      export const io = { inputs: ${inputs}, outputs: {} };
+      export default async function(inputs, { importScript }) { ${body} }
+    `;
+
+		it("should report invalid inputs with the parameter name", async () => {
+			synthase = new Synthase(
+				withIO("return {};", "{ size: { type: 'int', min: 1 } }")
+			);
+
+			const error = await synthase.call({ size: 0 }).catch((e) => e);
+			expect(error).toBeInstanceOf(InputValidationError);
+			expect(error.code).toBe("INVALID_INPUT");
+			expect(error.details).toEqual({ parameter: "size" });
+		});
+
+		it("should report validation, runtime and limit failures", async () => {
+			synthase = new Synthase(withIO("eval('1'); return {};"));
+			const invalid = await synthase.waitForInitialization().catch((e) => e);
+			expect(invalid).toBeInstanceOf(ValidationError);
+			expect(invalid.details.errors).toEqual(["Use of eval() is prohibited"]);
+			synthase.dispose();
+
+			synthase = new Synthase(withIO("throw new RangeError('too far');"));
+			const runtime = await synthase.call({}).catch((e) => e);
+			expect(runtime).toBeInstanceOf(ScriptRuntimeError);
+			expect(runtime.message).toBe("too far");
+			expect(runtime.cause).toBeInstanceOf(RangeError);
+			synthase.dispose();
+
+			synthase = new Synthase(
+				withIO("await new Promise((r) => setTimeout(r, 200)); return {};"),
+				{ limits: { timeout: 20 } }
+			);
+			const timeout = await synthase.call({}).catch((e) => e);
+			expect(timeout).toBeInstanceOf(TimeoutError);
+			expect(timeout.details).toEqual({ timeout: 20 });
+		});
+
+		for (const isolation of ["none", "worker"] as const) {
+			it(`should map runtime errors to script lines (${isolation})`, async () => {
+				const registry = new InMemoryScriptRegistry();
+				registry.register(
+					"helper",
+					[
+						"export const io = { inputs: {}, outputs: {} };",
+						"export default async function helper() {",
+						"  const limit = 3;",
+						"  throw new Error('over ' + limit);",
+						"}",
+					].join("\n")
+				);
+
+				synthase = new Synthase(
+					withIO(
+						"const helper = await importScript('helper'); return await helper({});"
+					),
+					{ registry, isolation }
+				);
+				const error = await synthase.call({}).catch((e) => e);
+
+				expect(error).toBeInstanceOf(ScriptRuntimeError);
+				expect(error.message).toBe("over 3");
+				expect(error.details).toMatchObject({
+					scriptId: "helper",
+					line: 4,
+					column: 13,
+				});
+				expect(error.details.frames[0]).toEqual({
+					scriptId: "helper",
+					line: 4,
+					column: 13,
+					functionName: "helper",
+				});
+				expect(error.details.codeFrame).toContain(
+					"> 4 |   throw new Error('over ' + limit);\n    |             ^"
+				);
+				expect(error.stack).toContain("at helper (helper:4:13)");
+				expect(error.stack).not.toContain("blob:");
+			});
+		}
+
+		it("should keep typed errors raised through importScript", async () => {
+			const registry = new InMemoryScriptRegistry();
+			registry.register("helper", withIO("return {};"));
+			const script = withIO(
+				"await importScript('helper'); await importScript(inputs.name); return {};",
+				"{ name: { type: 'string' } }"
+			);
+
+			synthase = new Synthase(script, {
+				registry,
+				limits: { maxImportedScripts: 1 },
+			});
+			const limit = await synthase.call({ name: "other" }).catch((e) => e);
+			expect(limit).toBeInstanceOf(ImportLimitError);
+			expect(limit.details).toMatchObject({
+				setting: "maxImportedScripts",
+				limit: 1,
+			});
+			synthase.dispose();
+
+			synthase = new Synthase(
+				withIO("await importScript('missing'); return {};"),
+				{ registry }
+			);
+			const missing = await synthase.waitForInitialization().catch((e) => e);
+			expect(missing).toBeInstanceOf(DependencyResolutionError);
+			expect(missing.details).toEqual({ specifier: "missing" });
+			expect(missing.cause).toBeInstanceOf(Error);
+		});
+
+		it("should keep typed errors across the worker boundary", async () => {
+			const registry = new InMemoryScriptRegistry();
+			registry.register("helper", withIO("return {};"));
+
+			synthase = new Synthase(
+				withIO(
+					"await importScript('helper'); await importScript('helper'); return {};"
+				),
+				{ registry, isolation: "worker", limits: { maxImportedScripts: 1 } }
+			);
+			const error = await synthase.call({}).catch((e) => e);
+			expect(error).toBeInstanceOf(ImportLimitError);
+			expect(error.code).toBe("IMPORT_LIMIT");
+		});
+	});
+
+	describe("Signed Scripts", () => {
+		const helper = `
+      export const io = { inputs: {}, outputs: { label: { type: 'string' } } };
+      export default async function() { return { label: 'helper' }; }
+    `;
+		const script = `
+      export const io = { inputs: {}, outputs: { label: { type: 'string' } } };
+      export default async function({}, { importScript }) {
+        const helper = await importScript("helper");
+        return await helper({});
+      }
+    `;
+		let keys: SigningKeyPair;
+		let registry: InMemoryScriptRegistry;
+
+		beforeEach(async () => {
+			keys = await generateSigningKeyPair();
+			registry = new InMemoryScriptRegistry();
+		});
+
+		it("should load scripts signed by a trusted key", async () => {
+			registry.register(
+				"helper",
+				await signScript(helper, keys.privateKey, "studio")
+			);
+			synthase = new Synthase(script, {
+				registry,
+				trust: { keys: { studio: keys.publicKey }, requireSignatures: true },
+			});
+
+			expect(await synthase.call({})).toEqual({ label: "helper" });
+		});
+
+		it("should refuse unsigned scripts when signatures are required", async () => {
+			registry.register("helper", helper);
+			synthase = new Synthase(script, {
+				registry,
+				trust: { keys: { studio: keys.publicKey }, requireSignatures: true },
+			});
+
+			await expect(synthase.waitForInitialization()).rejects.toThrow(
+				"Unsigned script refused: helper"
+			);
+		});
+
+		it("should always refuse tampered scripts", async () => {
+			const signed = await signScript(helper, keys.privateKey, "studio");
+			registry.register("helper", signed.replace("'helper'", "'evil'"));
+			synthase = new Synthase(script, {
+				registry,
+				trust: { keys: { studio: keys.publicKey } },
+			});
+
+			await expect(synthase.waitForInitialization()).rejects.toThrow(
+				"Invalid signature for helper (key studio)"
+			);
+		});
+
+		it("should use the keys of the registry that served the script", async () => {
+			const other = await generateSigningKeyPair();
+			registry.register(
+				"helper",
+				await signScript(helper, other.privateKey, "community")
+			);
+			const entry: RegistryTrust = {
+				registry,
+				keys: { studio: keys.publicKey },
+			};
+			const config: SynthaseConfig = {
+				registry: new CompositeScriptRegistry([registry]),
+				trust: {
+					keys: { community: other.publicKey },
+					registries: [entry],
+					requireSignatures: true,
+				},
+			};
+
+			synthase = new Synthase(script, config);
+			await expect(synthase.waitForInitialization()).rejects.toThrow(
+				"Untrusted signature for helper: unknown key community"
+			);
+
+			synthase.dispose();
+			entry.keys = { community: other.publicKey };
+			synthase = new Synthase(script, config);
+			expect(await synthase.call({})).toEqual({ label: "helper" });
+		});
+
+		it("should check content returned by import resolvers", async () => {
+			const signed = await signScript(helper, keys.privateKey, "studio");
+			(globalThis as any).__signedHelper = signed;
+			(globalThis as any).__unsignedHelper = helper;
+			const importer = (name: string) => `
+        export const io = { inputs: {}, outputs: { label: { type: 'string' } } };
+        export default async function({}, { importScript }) {
+          const helper = await importScript(async () => globalThis.${name});
+          return await helper({});
+        }
+      `;
+			const trust = {
+				keys: { studio: keys.publicKey },
+				requireSignatures: true,
+			};
+
+			try {
+				synthase = new Synthase(importer("__signedHelper"), { trust });
+				expect(await synthase.call({})).toEqual({ label: "helper" });
+
+				synthase.dispose();
+				synthase = new Synthase(importer("__unsignedHelper"), { trust });
+				await expect(synthase.call({})).rejects.toThrow(
+					"Unsigned script refused: resolved script"
+				);
+			} finally {
+				delete (globalThis as any).__signedHelper;
+				delete (globalThis as any).__unsignedHelper;
+			}
+		});
+
+		it("should check main scripts returned by a resolver", async () => {
+			const trust = {
+				keys: { studio: keys.publicKey },
+				requireSignatures: true,
+			};
+
+			synthase = new Synthase(async () => helper, { trust });
+			await expect(synthase.waitForInitialization()).rejects.toThrow(
+				"Unsigned script refused: main script"
+			);
+
+			synthase.dispose();
+			const signed = await signScript(helper, keys.privateKey, "studio");
+			synthase = new Synthase(async () => signed, { trust });
+			expect(await synthase.call({})).toEqual({ label: "helper" });
+		});
+
+		it("should check code strings passed to importScript", async () => {
+			const importer = `
+        export const io = { inputs: { code: { type: 'string' } }, outputs: {} };
+        export default async function({ code }, { importScript }) {
+          const helper = await importScript(code);
+          return await helper({});
+        }
+      `;
+			synthase = new Synthase(
+				await signScript(importer, keys.privateKey, "studio"),
+				{ trust: { keys: { studio: keys.publicKey }, requireSignatures: true } }
+			);
+
+			await expect(synthase.call({ code: helper })).rejects.toThrow(
+				"Unsigned script refused: imported script"
+			);
+			expect(
+				await synthase.call({
+					code: await signScript(helper, keys.privateKey, "studio"),
+				})
+			).toEqual({ label: "helper" });
+		});
 	});
 
 	describe("Caching", () => {
@@ -310,8 +985,106 @@ describe("SynthaseCore", () => {
 			// Wait for cache to expire
 			await new Promise((resolve) => setTimeout(resolve, 150));
 
-			// This should work even with expired cache
-			await synthase.call({});
+			// This should work even with expired cache
+			await synthase.call({});
+		});
+
+		it("should invalidate changed scripts and their dependents", async () => {
+			const registry = new InMemoryScriptRegistry();
+			const importer = (deps: string[]) => `
+        export const io = { inputs: {}, outputs: {} };
+        export default async function({}, { importScript }) {
+          ${deps.map((dep) => `await importScript("${dep}");`).join("\n")}
+          return {};
+        }
+      `;
+			registry.register("app", importer(["noise", "palette"]));
+			registry.register("noise", importer(["random"]));
+			registry.register("palette", importer([]));
+			registry.register("random", importer([]));
+
+			synthase = new Synthase(importer(["app"]), { registry });
+			await synthase.waitForInitialization();
+			expect(synthase.getCacheStats().totalEntries).toBe(5);
+
+			const invalidated = synthase.invalidateAffected(["random"]);
+			expect(invalidated).toContain("random");
+			expect(invalidated).toContain("noise");
+			expect(invalidated).toContain("app");
+			expect(invalidated).not.toContain("palette");
+			expect(invalidated).toHaveLength(4); // Including the main script
+
+			registry.register("random", importer(["palette"]));
+			await synthase.refresh();
+			expect(synthase.getCacheStats().totalEntries).toBe(5);
+			expect(synthase.getCacheStats().hits).toBe(1); // palette was kept
+		});
+
+		it("should reuse preloaded dependencies in importScript", async () => {
+			const registry = new InMemoryScriptRegistry();
+			const helper = (label: string) => `
+        export const io = { inputs: {}, outputs: { label: { type: 'string' } } };
+        export default async function() { return { label: '${label}' }; }
+      `;
+			registry.register("helper", helper("helper"));
+			registry.register("dynamic", helper("dynamic"));
+
+			synthase = new Synthase(
+				`export const io = { inputs: {}, outputs: { labels: { type: 'array' } } };
+        export default async function({}, { importScript }) {
+          const helper = await importScript("helper");
+          const dynamic = await importScript(["dyn", "amic"].join(""));
+          return { labels: [(await helper({})).label, (await dynamic({})).label] };
+        }`,
+				{ registry }
+			);
+			await synthase.waitForInitialization();
+
+			const createObjectURL = spyOn(URL, "createObjectURL");
+			try {
+				for (let i = 0; i < 3; i++) {
+					const result = await synthase.callDetailed({});
+					expect(result.outputs.labels).toEqual(["helper", "dynamic"]);
+					expect(result.imports.map((imp) => imp.specifier)).toEqual([
+						"helper",
+						"dynamic",
+					]);
+				}
+				// Only the dynamically named import is compiled, once
+				expect(createObjectURL).toHaveBeenCalledTimes(1);
+			} finally {
+				createObjectURL.mockRestore();
+			}
+			expect(synthase.getCacheStats().hits).toBe(5);
+		});
+
+		it("should report cache metrics and honour the configured policy", async () => {
+			const registry = new InMemoryScriptRegistry();
+			registry.register(
+				"helper",
+				`export const io = { inputs: {}, outputs: {} };
+        export default async function() { return {}; }`
+			);
+			const script = `
+        export const io = { inputs: {}, outputs: {} };
+        export default async function({}, { importScript }) {
+          await importScript("helper");
+          return {};
+        }
+      `;
+
+			synthase = new Synthase(script, {
+				registry,
+				cachePolicy: { maxSize: 1 },
+			});
+			await synthase.waitForInitialization();
+
+			const stats = synthase.getCacheStats();
+			expect(stats.totalEntries).toBe(1);
+			expect(stats.sources).toEqual({ dependency: 1 });
+			expect(stats.misses).toBe(2);
+			expect(stats.evictions).toBe(1);
+			expect(stats.bytes).toBeGreaterThan(0);
 		});
 	});
 
@@ -491,6 +1264,688 @@ describe("SynthaseCore", () => {
 		});
 	});
 
+	describe("Detailed Results", () => {
+		it("should collect logs, imports and warnings per run", async () => {
+			const registry = new InMemoryScriptRegistry();
+			registry.register(
+				"helper",
+				`
+        export const io = { inputs: {}, outputs: { ok: { type: 'boolean' } } };
+        export default async function({}, { Logger }) {
+          Logger.warn('helper warning');
+          return { ok: true };
+        }
+      `
+			);
+
+			const script = `
+        export const io = {
+          inputs: {},
+          outputs: { ok: { type: 'boolean' } }
+        };
+        export default async function({}, { Logger, importScript }) {
+          Logger.info('main started');
+          const helper = await importScript('helper');
+          return await helper({});
+        }
+      `;
+
+			synthase = new Synthase(script, { registry });
+			const result = await synthase.callDetailed({});
+
+			expect(result.outputs).toEqual({ ok: true });
+			expect(result.logs.map((entry) => [entry.level, entry.message])).toEqual([
+				["info", "main started"],
+				["warn", "helper warning"],
+			]);
+			expect(result.imports).toHaveLength(1);
+			expect(result.imports[0]).toMatchObject({
+				source: "registry",
+				specifier: "helper",
+			});
+			expect(result.logs[1].scriptId).toBe(result.imports[0].id);
+			expect(result.warnings).toEqual([]);
+			expect(result.stats.checksPerformed).toBeGreaterThanOrEqual(0);
+		});
+
+		it("should keep logs separate between runs", async () => {
+			const script = `
+        export const io = { inputs: {}, outputs: {} };
+        export default async function({}, { Logger }) {
+          Logger.success('done');
+          return {};
+        }
+      `;
+
+			synthase = new Synthase(script);
+			await synthase.callDetailed({});
+			const second = await synthase.callDetailed({});
+
+			expect(second.logs).toHaveLength(1);
+		});
+	});
+
+	describe("Output Validation", () => {
+		const script = `
+      export const io = {
+        inputs: { broken: { type: 'boolean', default: false } },
+        outputs: { total: { type: 'int' } }
+      };
+      export default async function({ broken }) {
+        return broken ? { total: 'many', extra: true } : { total: 3 };
+      }
+    `;
+
+		it("should not check outputs by default", async () => {
+			synthase = new Synthase(script);
+			const result = await synthase.call({ broken: true });
+			expect(result).toEqual({ total: "many", extra: true });
+		});
+
+		it("should reject invalid outputs in strict mode", async () => {
+			synthase = new Synthase(script, { outputValidation: "strict" });
+
+			expect(await synthase.call({})).toEqual({ total: 3 });
+			await expect(synthase.call({ broken: true })).rejects.toThrow(
+				"Output validation failed: total must be an integer, got: string, Undeclared output: extra"
+			);
+		});
+
+		it("should report invalid outputs as warnings in warn mode", async () => {
+			synthase = new Synthase(script, { outputValidation: "warn" });
+			const result = await synthase.callDetailed({ broken: true });
+
+			expect(result.outputs).toEqual({ total: "many", extra: true });
+			expect(result.warnings).toEqual([
+				"total must be an integer, got: string",
+				"Undeclared output: extra",
+			]);
+		});
+	});
+
+	describe("File and BlockId Inputs", () => {
+		const script = `
+      export const io = {
+        inputs: {
+          palette: { type: 'file', accept: '.json', readAs: 'json' },
+          block: { type: 'BlockId', default: 'minecraft:stone' }
+        },
+        outputs: { count: { type: 'integer' }, block: { type: 'BlockId' } }
+      };
+      export default async function({ palette, block }) {
+        return { count: palette.content.length, block };
+      }
+    `;
+
+		it("should read file inputs before calling the script", async () => {
+			synthase = new Synthase(script);
+			const result = await synthase.call({
+				palette: new File(['["stone","dirt"]'], "palette.json"),
+			});
+
+			expect(result).toEqual({ count: 2, block: "minecraft:stone" });
+		});
+
+		it("should reject files that do not match accept", async () => {
+			synthase = new Synthase(script);
+			await expect(
+				synthase.call({ palette: new File(["[]"], "palette.txt") })
+			).rejects.toThrow('palette must match accept ".json"');
+		});
+
+		it("should validate block ids against the configured format", async () => {
+			synthase = new Synthase(script, { blockIdFormat: /^minecraft:[a-z_]+$/ });
+			const palette = { name: "palette.json", size: 2, content: [] };
+
+			expect(await synthase.call({ palette })).toEqual({
+				count: 0,
+				block: "minecraft:stone",
+			});
+			await expect(synthase.call({ palette, block: "stone" })).rejects.toThrow(
+				"block must be a valid block id, got: stone"
+			);
+		});
+	});
+
+	describe("Cancellation", () => {
+		it("should reject with an abort error when the signal fires", async () => {
+			const script = `
+        export const io = {
+          inputs: {},
+          outputs: { result: { type: 'string' } }
+        };
+        export default async function({}, { Utils }) {
+          await Utils.delay(5000);
+          return { result: 'completed' };
+        }
+      `;
+
+			synthase = new Synthase(script);
+			await synthase.waitForInitialization();
+
+			const controller = new AbortController();
+			const start = Date.now();
+			setTimeout(() => controller.abort(), 50);
+
+			await expect(
+				synthase.call({}, { signal: controller.signal })
+			).rejects.toThrow("Script execution aborted");
+			expect(Date.now() - start).toBeLessThan(1000);
+		});
+
+		it("should not run when the signal is already aborted", async () => {
+			let ran = false;
+			const script = `
+        export const io = { inputs: {}, outputs: {} };
+        export default async function({}, { Tracker }) {
+          Tracker.mark();
+          return {};
+        }
+      `;
+
+			synthase = new Synthase(script, {
+				contextProviders: { Tracker: { mark: () => (ran = true) } },
+			});
+
+			const controller = new AbortController();
+			controller.abort();
+
+			await expect(
+				synthase.call({}, { signal: controller.signal })
+			).rejects.toThrow("aborted");
+			expect(ran).toBe(false);
+		});
+
+		it("should expose the signal to scripts as context.signal", async () => {
+			const script = `
+        export const io = {
+          inputs: {},
+          outputs: { aborted: { type: 'boolean' } }
+        };
+        export default async function({}, { signal, Utils }) {
+          const observed = new Promise((resolve) =>
+            signal.addEventListener('abort', () => resolve(true))
+          );
+          Utils.delay(1000).catch(() => {});
+          return { aborted: await observed };
+        }
+      `;
+
+			synthase = new Synthase(script);
+			await synthase.waitForInitialization();
+
+			const controller = new AbortController();
+			const pending = synthase.call({}, { signal: controller.signal });
+			setTimeout(() => controller.abort(), 20);
+
+			await expect(pending).rejects.toThrow("aborted");
+		});
+
+		it("should abort pending provider calls and imports", async () => {
+			const registry = new InMemoryScriptRegistry();
+			registry.register(
+				"helper",
+				`
+        export const io = { inputs: {}, outputs: {} };
+        export default async function() { return {}; }
+      `
+			);
+
+			const script = `
+        export const io = { inputs: {}, outputs: {} };
+        export default async function({}, { Slow, importScript }) {
+          try {
+            await Slow.wait();
+          } catch (error) {
+            await importScript('helper');
+          }
+          return {};
+        }
+      `;
+
+			synthase = new Synthase(script, {
+				registry,
+				contextProviders: {
+					Slow: {
+						wait: () => new Promise((resolve) => setTimeout(resolve, 5000)),
+					},
+				},
+			});
+			await synthase.waitForInitialization();
+
+			const controller = new AbortController();
+			setTimeout(() => controller.abort("user pressed stop"), 20);
+
+			await expect(
+				synthase.call({}, { signal: controller.signal })
+			).rejects.toThrow("Script execution aborted: user pressed stop");
+		});
+	});
+
+	describe("Per-Call Options", () => {
+		const withIO = (body: string) => `
+      export const io = { inputs: {}, outputs: {} };
+      export default async function(inputs, context) { ${body} }
+    `;
+
+		it("should apply a lower per-call timeout", async () => {
+			synthase = new Synthase(
+				withIO("await context.Utils.delay(500); return {};"),
+				{ limits: { timeout: 5000 } }
+			);
+
+			const error = await synthase.call({}, { timeout: 50 }).catch((e) => e);
+			expect(error).toBeInstanceOf(TimeoutError);
+			expect(error.details).toEqual({ timeout: 50 });
+		});
+
+		it("should cap per-call limits at the instance limits", async () => {
+			synthase = new Synthase(
+				withIO("await context.Utils.delay(500); return {};"),
+				{ limits: { timeout: 50 } }
+			);
+
+			const error = await synthase.call({}, { timeout: 5000 }).catch((e) => e);
+			expect(error).toBeInstanceOf(TimeoutError);
+			expect(error.details).toEqual({ timeout: 50 });
+		});
+
+		it("should limit imports per call", async () => {
+			const registry = new InMemoryScriptRegistry();
+			registry.register("a", withIO("return {};"));
+			registry.register("b", withIO("return { b: true };"));
+			synthase = new Synthase(
+				withIO(
+					"await context.importScript('a'); await context.importScript('b'); return {};"
+				),
+				{ registry }
+			);
+
+			const error = await synthase
+				.call({}, { maxImportedScripts: 1 })
+				.catch((e) => e);
+			expect(error).toBeInstanceOf(ImportLimitError);
+			expect(error.details).toMatchObject({
+				setting: "maxImportedScripts",
+				limit: 1,
+			});
+			await expect(synthase.call({})).resolves.toEqual({});
+		});
+
+		it("should limit import nesting per call", async () => {
+			const registry = new InMemoryScriptRegistry();
+			registry.register(
+				"outer",
+				withIO(
+					"const inner = await context.importScript('inner'); return inner({});"
+				)
+			);
+			registry.register("inner", withIO("return {};"));
+			synthase = new Synthase(
+				withIO(
+					"const outer = await context.importScript('outer'); return outer({});"
+				),
+				{ registry }
+			);
+
+			const error = await synthase
+				.call({}, { maxRecursionDepth: 1 })
+				.catch((e) => e);
+			expect(error).toBeInstanceOf(ImportLimitError);
+			expect(error.details).toMatchObject({
+				setting: "maxRecursionDepth",
+				limit: 1,
+			});
+			await expect(
+				synthase.call({}, { maxRecursionDepth: 2 })
+			).resolves.toEqual({});
+		});
+
+		for (const isolation of ["none", "worker"] as const) {
+			it(`should add and override context providers per call (${isolation})`, async () => {
+				synthase = new Synthase(
+					`
+          export const io = {
+            inputs: {},
+            outputs: { greeting: { type: 'string' }, total: { type: 'number' } }
+          };
+          export default async function({}, { Greeter, Calculator }) {
+            return {
+              greeting: await Greeter.greet(),
+              total: await Calculator.sum([1, 2]),
+            };
+          }
+        `,
+					{
+						isolation,
+						contextProviders: { Greeter: { greet: () => "instance" } },
+					}
+				);
+
+				await expect(synthase.call({})).resolves.toEqual({
+					greeting: "instance",
+					total: 3,
+				});
+				await expect(
+					synthase.call(
+						{},
+						{
+							contextProviders: {
+								Greeter: { greet: () => "call" },
+								Calculator: { sum: () => 42 },
+							},
+						}
+					)
+				).resolves.toEqual({ greeting: "call", total: 42 });
+			});
+		}
+
+		it("should expose the run id to scripts and in the result", async () => {
+			const script = `
+        export const io = { inputs: {}, outputs: { runId: { type: 'string' } } };
+        export default async function({}, { runId }) {
+          return { runId };
+        }
+      `;
+			synthase = new Synthase(script);
+
+			const result = await synthase.callDetailed({}, { runId: "run-1" });
+			expect(result.runId).toBe("run-1");
+			expect(result.outputs).toEqual({ runId: "run-1" });
+
+			const generated = await synthase.callDetailed({});
+			expect(generated.runId).toMatch(/^[0-9a-f-]{36}$/);
+			expect(generated.outputs.runId).toBe(generated.runId);
+		});
+	});
+
+	describe("Operation Limits", () => {
+		const spin = `
+      export const io = {
+        inputs: { n: { type: 'int' } },
+        outputs: { total: { type: 'number' } }
+      };
+      export default async function({ n }) {
+        let total = 0;
+        for (let i = 0; i < n; i++) total += i;
+        return { total };
+      }
+    `;
+
+		for (const isolation of ["none", "worker"] as const) {
+			it(`should stop runaway loops deterministically (${isolation})`, async () => {
+				synthase = new Synthase(
+					`
+          export const io = { inputs: {}, outputs: {} };
+          export default async function() {
+            for (let i = 0; i >= 0; i++) {}
+          }
+        `,
+					{ isolation, limits: { maxOperations: 1000, timeout: 5000 } }
+				);
+
+				const error = await synthase.call({}).catch((e) => e);
+				expect(error).toBeInstanceOf(OperationLimitError);
+				expect(error.code).toBe("OPERATION_LIMIT");
+				expect(error.details).toEqual({ limit: 1000 });
+			});
+		}
+
+		it("should give every call its own budget", async () => {
+			synthase = new Synthase(spin, { limits: { maxOperations: 100 } });
+
+			await expect(synthase.call({ n: 50 })).resolves.toEqual({ total: 1225 });
+			await expect(synthase.call({ n: 50 })).resolves.toEqual({ total: 1225 });
+			await expect(synthase.call({ n: 500 })).rejects.toBeInstanceOf(
+				OperationLimitError
+			);
+			await expect(
+				synthase.call({ n: 50 }, { maxOperations: 10 })
+			).rejects.toBeInstanceOf(OperationLimitError);
+		});
+
+		it("should not let scripts catch their way past the limit", async () => {
+			synthase = new Synthase(
+				`
+        export const io = { inputs: {}, outputs: {} };
+        export default async function() {
+          try {
+            for (let i = 0; i >= 0; i++) {}
+          } catch {}
+          return {};
+        }
+      `,
+				{ limits: { maxOperations: 100 } }
+			);
+
+			await expect(synthase.call({})).rejects.toBeInstanceOf(
+				OperationLimitError
+			);
+		});
+
+		it("should not let scripts switch off their meter", async () => {
+			synthase = new Synthase(
+				`
+        export const io = { inputs: {}, outputs: { n: { type: 'int' } } };
+        export default async function() {
+          __synthaseTicks = null;
+          let n = 0;
+          for (let i = 0; i < 5000; i++) n++;
+          return { n };
+        }
+      `,
+				{ limits: { maxOperations: 100 } }
+			);
+
+			await expect(synthase.call({})).rejects.toThrow(
+				"Identifiers starting with __synthase are reserved"
+			);
+		});
+
+		it("should keep the budgets of concurrent calls apart", async () => {
+			synthase = new Synthase(
+				`
+        export const io = { inputs: { n: { type: 'int' } }, outputs: {} };
+        export default async function({ n }) {
+          for (let i = 0; i < n; i++) await null;
+          return {};
+        }
+      `,
+				{ limits: { maxOperations: 1000 } }
+			);
+
+			const [large, small] = await Promise.allSettled([
+				synthase.call({ n: 900 }),
+				synthase.call({ n: 100 }, { maxOperations: 50 }),
+			]);
+			expect(large.status).toBe("fulfilled");
+			expect(small.status).toBe("rejected");
+		});
+
+		for (const isolation of ["none", "worker"] as const) {
+			it(`should count module top-level code (${isolation})`, async () => {
+				synthase = new Synthase(
+					`
+          for (let i = 0; i < 5000; i++) {}
+          export const io = { inputs: {}, outputs: {} };
+          export default async function() { return {}; }
+        `,
+					{ isolation, limits: { maxOperations: 100 } }
+				);
+
+				await expect(synthase.waitForInitialization()).rejects.toThrow(
+					"Operation limit exceeded: maximum 100 operations per execution"
+				);
+			});
+		}
+
+		for (const isolation of ["none", "worker"] as const) {
+			it(`should not hand the meter to scripts (${isolation})`, async () => {
+				synthase = new Synthase(
+					`
+          export const io = { inputs: {}, outputs: { args: { type: 'int' } } };
+          export default async function(inputs, context, meter) {
+            if (meter) meter.count = -1e9;
+            return { args: arguments.length };
+          }
+        `,
+					{ isolation, limits: { maxOperations: 100 } }
+				);
+
+				await expect(synthase.call({})).resolves.toEqual({ args: 2 });
+			});
+
+			it(`should count loops in static modules (${isolation})`, async () => {
+				const registry = new InMemoryScriptRegistry();
+				registry.register(
+					"helper",
+					`
+          export function spin(n) {
+            let total = 0;
+            for (let i = 0; i < n; i++) total += i;
+            return total;
+          }
+        `
+				);
+				synthase = new Synthase(
+					`
+          import { spin } from "synthase:helper";
+          export const io = { inputs: {}, outputs: {} };
+          export default async function() {
+            spin(100000);
+            return {};
+          }
+        `,
+					{ registry, isolation, limits: { maxOperations: 1000 } }
+				);
+
+				await expect(synthase.call({})).rejects.toBeInstanceOf(
+					OperationLimitError
+				);
+			});
+
+			it(`should map error columns of instrumented scripts (${isolation})`, async () => {
+				const line =
+					"export default async function helper() { const n = 3; throw new Error('over ' + n); }";
+				const registry = new InMemoryScriptRegistry();
+				registry.register(
+					"helper",
+					`export const io = { inputs: {}, outputs: {} };\n${line}`
+				);
+				synthase = new Synthase(
+					`
+          export const io = { inputs: {}, outputs: {} };
+          export default async function(inputs, { importScript }) {
+            const helper = await importScript('helper');
+            return await helper({});
+          }
+        `,
+					{ registry, isolation, limits: { maxOperations: 100 } }
+				);
+
+				const error = await synthase.call({}).catch((e) => e);
+				const column = line.indexOf("Error(") + 1;
+				expect(error).toBeInstanceOf(ScriptRuntimeError);
+				expect(error.details).toMatchObject({
+					scriptId: "helper",
+					line: 2,
+					column,
+				});
+				expect(error.details.codeFrame).toContain(
+					`> 2 | ${line}\n    | ${" ".repeat(column - 1)}^`
+				);
+			});
+		}
+
+		it("should count imported scripts against the same budget", async () => {
+			const registry = new InMemoryScriptRegistry();
+			registry.register("spin", spin);
+			synthase = new Synthase(
+				`
+        export const io = { inputs: {}, outputs: { total: { type: 'number' } } };
+        export default async function({}, { importScript }) {
+          const spin = await importScript('spin');
+          await spin({ n: 60 });
+          return spin({ n: 60 });
+        }
+      `,
+				{ registry, limits: { maxOperations: 100 } }
+			);
+
+			await expect(synthase.call({})).rejects.toBeInstanceOf(
+				OperationLimitError
+			);
+		});
+	});
+
+	describe("Memory Limits", () => {
+		it("should abort executions that exceed a memory limit", async () => {
+			const script = `
+        export const io = { inputs: {}, outputs: { size: { type: 'number' } } };
+        export default async function({}, { Utils }) {
+          const buffer = new Uint8Array(new ArrayBuffer(32 * 1024 * 1024)).fill(1);
+          await Utils.delay(5000);
+          return { size: buffer.length };
+        }
+      `;
+
+			synthase = new Synthase(script, {
+				resourceMonitor: {
+					memoryLimits: { arrayBuffers: 8 * 1024 * 1024 },
+					checkIntervalMs: 20,
+				},
+			});
+			await synthase.waitForInitialization();
+			Bun.gc(true); // Garbage of earlier tests would lower the measured growth
+
+			const start = Date.now();
+			const error = await synthase.call({}).catch((e) => e);
+			expect(error).toBeInstanceOf(MemoryLimitError);
+			expect(error.code).toBe("MEMORY_LIMIT");
+			expect(error.details).toMatchObject({
+				metric: "arrayBuffers",
+				limit: 8 * 1024 * 1024,
+			});
+			expect(Date.now() - start).toBeLessThan(1000);
+		});
+
+		it("should count memory of concurrent executions against each other", async () => {
+			const script = `
+        export const io = {
+          inputs: { mb: { type: 'int' } },
+          outputs: { size: { type: 'number' } }
+        };
+        export default async function({ mb }, { Utils }) {
+          const buffer = new Uint8Array(new ArrayBuffer(mb * 1024 * 1024)).fill(1);
+          await Utils.delay(5000);
+          return { size: buffer.length };
+        }
+      `;
+
+			synthase = new Synthase(script, {
+				resourceMonitor: {
+					memoryLimits: { arrayBuffers: 8 * 1024 * 1024 },
+					checkIntervalMs: 20,
+				},
+			});
+			await synthase.waitForInitialization();
+			Bun.gc(true);
+
+			// Memory is sampled per process, so the call that allocates nothing is
+			// aborted for the other call's buffer as well
+			const [large, small] = await Promise.allSettled([
+				synthase.call({ mb: 32 }),
+				synthase.call({ mb: 0 }),
+			]);
+			expect(large.status === "rejected" && large.reason).toBeInstanceOf(
+				MemoryLimitError
+			);
+			expect(small.status === "rejected" && small.reason).toBeInstanceOf(
+				MemoryLimitError
+			);
+		});
+	});
+
 	describe("IO Schema Access", () => {
 		it("should provide access to IO schema", async () => {
 			const script = `
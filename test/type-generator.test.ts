@@ -0,0 +1,244 @@
+// test/type-generator.test.ts
+import { describe, it, expect } from "bun:test";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	generateTypeDeclarations,
+	generateTypesForScript,
+} from "../src/type-generator";
+import { runCli } from "../src/cli";
+import { createReusable } from "../src/synthase-utils";
+
+const script = `
+  export const io = {
+    inputs: {
+      width: { type: 'int', default: 5, description: 'Width in blocks' },
+      mode: { type: 'string', options: ['solid', 'hollow'] },
+      points: {
+        type: 'array',
+        items: { type: 'object', properties: { x: 'float', 'max-y': 'float' } }
+      }
+    },
+    outputs: { volume: { type: 'integer' } }
+  };
+  export default async function({ width }) {
+    return { volume: width * width * width };
+  }
+`;
+
+describe("Type Generator", () => {
+	it("should emit interfaces for inputs and outputs", () => {
+		const declarations = generateTypeDeclarations(
+			{
+				inputs: {
+					width: { type: "int", default: 5, description: "Width in blocks" },
+					mode: { type: "string", options: ["solid", "hollow"] },
+					tags: { type: "array", items: "text" },
+					settings: "object",
+				},
+				outputs: {
+					block: { type: "BlockId" },
+					extra: { type: "bool", dependsOn: { block: "air" } },
+				},
+			},
+			{ name: "cuboid-generator" }
+		);
+
+		expect(declarations).toContain("export interface CuboidGeneratorInputs {");
+		expect(declarations).toContain(
+			"\t/** Width in blocks */\n\twidth?: number;"
+		);
+		expect(declarations).toContain('\tmode: "solid" | "hollow";');
+		expect(declarations).toContain("\ttags: string[];");
+		expect(declarations).toContain("\tsettings: Record<string, any>;");
+		expect(declarations).toContain("export interface CuboidGeneratorOutputs {");
+		expect(declarations).toContain("\tblock: string;");
+		expect(declarations).toContain("\textra?: boolean;");
+		expect(declarations).not.toContain("FileInput");
+	});
+
+	it("should type file parameters with FileInput", () => {
+		const declarations = generateTypeDeclarations({
+			inputs: { upload: { type: "file" } },
+			outputs: { echo: { type: "file" } },
+		});
+
+		expect(declarations).toContain(
+			'import type { FileInput } from "synthase";'
+		);
+		expect(declarations).toContain("\tupload: FileInput | Blob;");
+		expect(declarations).toContain("\techo: FileInput;");
+	});
+
+	it("should render nested objects inline", async () => {
+		const declarations = await generateTypesForScript(script, {
+			name: "Cuboid",
+		});
+
+		expect(declarations).toContain(
+			'\tpoints: Array<{\n\t\tx: number;\n\t\t"max-y": number;\n\t}>;'
+		);
+		expect(declarations).toContain(
+			"export interface CuboidOutputs {\n\tvolume: number;\n}"
+		);
+	});
+
+	it("should reject scripts that fail validation", async () => {
+		await expect(
+			generateTypesForScript("export default async function() {}")
+		).rejects.toThrow("Cannot generate types");
+	});
+
+	it("should be usable with a typed createReusable", async () => {
+		interface CuboidInputs {
+			width?: number;
+			mode: "solid" | "hollow";
+			points: Array<{ x: number; "max-y": number }>;
+		}
+		interface CuboidOutputs {
+			volume: number;
+		}
+
+		const reusable = await createReusable<CuboidInputs, CuboidOutputs>(script);
+		try {
+			const result = await reusable.execute({
+				width: 2,
+				mode: "solid",
+				points: [],
+			});
+			expect(result.volume).toBe(8);
+		} finally {
+			reusable.dispose();
+		}
+	});
+});
+
+describe("CLI", () => {
+	const capture = () => {
+		const output = { stdout: "", stderr: "" };
+		return {
+			output,
+			writer: {
+				stdout: (text: string) => (output.stdout += text),
+				stderr: (text: string) => (output.stderr += text),
+			},
+		};
+	};
+
+	it("should generate types for a script file", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "synthase-cli-"));
+		try {
+			const scriptPath = join(dir, "cuboid.js");
+			const outPath = join(dir, "cuboid.d.ts");
+			await writeFile(scriptPath, script);
+
+			const { output, writer } = capture();
+			expect(await runCli(["types", scriptPath], writer)).toBe(0);
+			expect(output.stdout).toContain("export interface CuboidInputs {");
+
+			expect(
+				await runCli(
+					["types", scriptPath, "--name", "Box", "--out", outPath],
+					writer
+				)
+			).toBe(0);
+			expect(await readFile(outPath, "utf8")).toContain(
+				"export interface BoxOutputs {"
+			);
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("should generate keys, sign and verify scripts", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "synthase-cli-"));
+		try {
+			const scriptPath = join(dir, "cuboid.js");
+			const signedPath = join(dir, "cuboid.signed.js");
+			const keyName = join(dir, "studio");
+			await writeFile(scriptPath, script);
+
+			const { output, writer } = capture();
+			expect(await runCli(["keygen", "--out", keyName], writer)).toBe(0);
+			expect(
+				await runCli(
+					[
+						"sign",
+						scriptPath,
+						"--key",
+						`${keyName}.key`,
+						"--key-id",
+						"studio",
+						"--out",
+						signedPath,
+					],
+					writer
+				)
+			).toBe(0);
+			expect(await readFile(signedPath, "utf8")).toContain(
+				"// @synthase-signature studio "
+			);
+
+			const verify = (path: string) =>
+				runCli(
+					["verify", path, "--key", `${keyName}.pub`, "--key-id", "studio"],
+					writer
+				);
+			expect(await verify(signedPath)).toBe(0);
+			expect(output.stdout).toContain("valid signature by studio");
+			expect(await verify(scriptPath)).toBe(1);
+			expect(output.stderr).toContain("signature check failed (unsigned)");
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("should build and generate types when run by Node", async () => {
+		// Same build as the package's "build" script, into a scratch directory
+		// that still resolves the package's dependencies
+		const root = join(import.meta.dir, "..");
+		await mkdir(join(root, "node_modules", ".cache"), { recursive: true });
+		const dir = await mkdtemp(join(root, "node_modules", ".cache", "cli-"));
+		try {
+			const scriptPath = join(dir, "cuboid.js");
+			await writeFile(scriptPath, script);
+
+			const build = Bun.spawnSync(
+				[
+					"node_modules/.bin/tsup",
+					"src/cli.ts",
+					"--format",
+					"esm",
+					"--out-dir",
+					dir,
+				],
+				{ cwd: root }
+			);
+			expect(build.exitCode).toBe(0);
+
+			const run = Bun.spawnSync([
+				"node",
+				join(dir, "cli.js"),
+				"types",
+				scriptPath,
+			]);
+			expect(run.stderr.toString()).toBe("");
+			expect(run.exitCode).toBe(0);
+			expect(run.stdout.toString()).toContain(
+				"export interface CuboidInputs {"
+			);
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	}, 60000);
+
+	it("should report usage errors", async () => {
+		const { output, writer } = capture();
+
+		expect(await runCli(["types"], writer)).toBe(1);
+		expect(output.stderr).toContain("Missing script path");
+		expect(await runCli(["unknown"], writer)).toBe(1);
+		expect(output.stderr).toContain("Unknown command: unknown");
+	});
+});
@@ -0,0 +1,237 @@
+// test/worker-isolation.test.ts
+import { describe, it, expect, afterEach } from "bun:test";
+import { Synthase } from "../src/synthase";
+import { InMemoryScriptRegistry } from "../src/script-registry";
+
+describe("Worker Isolation", () => {
+	let synthase: Synthase;
+
+	afterEach(() => {
+		synthase?.dispose();
+		delete (globalThis as any).__synthaseHostMarker;
+	});
+
+	it("should execute scripts inside a worker", async () => {
+		const script = `
+      export const io = {
+        inputs: { value: { type: 'float', default: 10 } },
+        outputs: { enhanced: { type: 'float' }, total: { type: 'float' } }
+      };
+
+      export default async function({ value }, { Calculator }) {
+        return {
+          enhanced: Calculator.enhance(value),
+          total: Calculator.sum([value, value])
+        };
+      }
+    `;
+
+		synthase = new Synthase(script, { isolation: "worker" });
+		const result = await synthase.call({ value: 10 });
+
+		expect(result).toEqual({ enhanced: 11, total: 20 });
+	});
+
+	it("should not share globals with the host realm", async () => {
+		(globalThis as any).__synthaseHostMarker = "host";
+
+		const script = `
+      export const io = {
+        inputs: {},
+        outputs: { marker: { type: 'string' } }
+      };
+
+      export default async function() {
+        return { marker: typeof globalThis.__synthaseHostMarker };
+      }
+    `;
+
+		synthase = new Synthase(script, { isolation: "worker" });
+		const result = await synthase.call({});
+
+		expect(result).toEqual({ marker: "undefined" });
+	});
+
+	it("should marshal context provider calls to the host", async () => {
+		const calls: number[][] = [];
+		const script = `
+      export const io = {
+        inputs: { numbers: { type: 'array' } },
+        outputs: { mean: { type: 'float' } }
+      };
+
+      export default async function({ numbers }, { Statistics, Logger }) {
+        Logger.info('Calculating in worker');
+        return { mean: await Statistics.mean(numbers) };
+      }
+    `;
+
+		synthase = new Synthase(script, {
+			isolation: "worker",
+			contextProviders: {
+				Statistics: {
+					mean: (values: number[]) => {
+						calls.push(values);
+						return values.reduce((a, b) => a + b, 0) / values.length;
+					},
+				},
+			},
+		});
+		const result = await synthase.call({ numbers: [1, 2, 3] });
+
+		expect(result).toEqual({ mean: 2 });
+		expect(calls).toEqual([[1, 2, 3]]);
+	});
+
+	it("should support imported scripts", async () => {
+		const registry = new InMemoryScriptRegistry();
+		registry.register(
+			"helper",
+			`
+      export const io = {
+        inputs: { value: { type: 'int' } },
+        outputs: { doubled: { type: 'int' } }
+      };
+      export default async function({ value }) {
+        return { doubled: value * 2 };
+      }
+    `
+		);
+
+		const script = `
+      export const io = {
+        inputs: { number: { type: 'int' } },
+        outputs: { result: { type: 'int' } }
+      };
+      export default async function({ number }, { importScript }) {
+        const helper = await importScript('helper');
+        const result = await helper({ value: number });
+        return { result: result.doubled, id: helper.id.startsWith('imported-') };
+      }
+    `;
+
+		synthase = new Synthase(script, { isolation: "worker", registry });
+		const result = await synthase.call({ number: 21 });
+
+		expect(result).toEqual({ result: 42, id: true });
+	});
+
+	it("should terminate runaway scripts on timeout", async () => {
+		const script = `
+      export const io = {
+        inputs: { limit: { type: 'int', default: 1 } },
+        outputs: {}
+      };
+      export default async function({ limit }) {
+        let i = 0;
+        while (limit > 0) { i++; }
+        return {};
+      }
+    `;
+
+		synthase = new Synthase(script, {
+			isolation: "worker",
+			limits: { timeout: 200 },
+		});
+
+		await expect(synthase.call({})).rejects.toThrow("timeout");
+	});
+
+	it("should only terminate the worker of the call that timed out", async () => {
+		const script = `
+      export const io = {
+        inputs: { spin: { type: 'boolean', default: false } },
+        outputs: { done: { type: 'boolean' } }
+      };
+      export default async function({ spin }, { Utils }) {
+        while (spin) {}
+        await Utils.delay(300);
+        return { done: true };
+      }
+    `;
+
+		synthase = new Synthase(script, { isolation: "worker" });
+		await synthase.waitForInitialization();
+
+		const slow = synthase.call({});
+		await expect(
+			synthase.call({ spin: true }, { timeout: 100 })
+		).rejects.toThrow("timeout");
+		await expect(slow).resolves.toEqual({ done: true });
+	});
+
+	it("should terminate the worker when the call is aborted", async () => {
+		const script = `
+      export const io = {
+        inputs: { limit: { type: 'int', default: 1 } },
+        outputs: {}
+      };
+      export default async function({ limit }) {
+        while (limit > 0) {}
+        return {};
+      }
+    `;
+
+		synthase = new Synthase(script, { isolation: "worker" });
+		await synthase.waitForInitialization();
+
+		const controller = new AbortController();
+		setTimeout(() => controller.abort(), 100);
+
+		await expect(
+			synthase.call({}, { signal: controller.signal })
+		).rejects.toThrow("aborted");
+	});
+
+	it("should leave other calls running when one call is aborted", async () => {
+		const script = `
+      export const io = {
+        inputs: { spin: { type: 'boolean', default: false } },
+        outputs: { done: { type: 'boolean' } }
+      };
+      export default async function({ spin }, { Utils }) {
+        while (spin) {}
+        await Utils.delay(300);
+        return { done: true };
+      }
+    `;
+
+		synthase = new Synthase(script, { isolation: "worker" });
+		await synthase.waitForInitialization();
+
+		const controller = new AbortController();
+		const other = synthase.call({});
+		const stopped = synthase.call(
+			{ spin: true },
+			{ signal: controller.signal }
+		);
+		setTimeout(() => controller.abort("stopped by user"), 100);
+
+		await expect(stopped).rejects.toThrow("stopped by user");
+		await expect(other).resolves.toEqual({ done: true });
+	});
+
+	it("should surface runtime errors from the worker", async () => {
+		const script = `
+      export const io = { inputs: {}, outputs: {} };
+      export default async function() {
+        throw new Error('Worker runtime error');
+      }
+    `;
+
+		synthase = new Synthase(script, { isolation: "worker" });
+		await expect(synthase.call({})).rejects.toThrow("Worker runtime error");
+	});
+
+	it("should report missing exports found during introspection", async () => {
+		const script = `
+      export const io = { inputs: {}, outputs: {} };
+      export default {};
+    `;
+
+		synthase = new Synthase(script, { isolation: "worker" });
+		await expect(synthase.waitForInitialization()).rejects.toThrow(
+			"No default function export found"
+		);
+	});
+});